@@ -7,8 +7,8 @@ export const AppRuntime = ManagedRuntime.make(
     createEffectRPC({
       url: 'http://localhost:3000/api/hello',
       serialization: RpcSerialization.layerNdjson,
+      // middleware: AuthClientLive, // if there's a client middleware, for example
     }),
-    // AuthClientLive // if there's an auth middleware, for example
   ),
 );
 
@@ -2,14 +2,14 @@
 
 import { makeServerRequest } from 'effect-rpc';
 import { helloRequests, helloRouter } from '../rpc/hello/requests';
-import { AppRuntime } from '../runtime';
+import { ServerRuntime } from '../server-runtime';
 
 export async function greetUserServerSideWithLegacyApproach(name: string): Promise<string> {
   // With the legacy approach, you pass the RPC group to the `makeServerRequest` functions.
   const program = makeServerRequest(helloRouter, 'SayHelloReq', { name });
 
   try {
-    const result = await AppRuntime.runPromise(program);
+    const result = await ServerRuntime.runPromise(program);
     console.log('Server-side RPC result:', result);
     return result;
   } catch (error) {
@@ -23,7 +23,7 @@ export async function greetUserServerSideWithRegistryApproach(name: string): Pro
   const program = helloRequests.getRequest('SayHelloReq', { name });
 
   try {
-    const result = await AppRuntime.runPromise(program);
+    const result = await ServerRuntime.runPromise(program);
     console.log('Server-side RPC result:', result);
     return result;
   } catch (error) {
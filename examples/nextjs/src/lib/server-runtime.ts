@@ -0,0 +1,17 @@
+import { ManagedRuntime } from 'effect';
+import { createLocalRPC } from 'effect-rpc';
+import { helloRouter } from './rpc/hello/requests';
+import { HelloService } from './rpc/hello/service';
+
+// Runtime for server-side code (server actions, server components).
+// It runs the procedures in the same process, so no HTTP request is made back to the API route.
+export const ServerRuntime = ManagedRuntime.make(
+  createLocalRPC(
+    helloRouter,
+    {
+      SayByeReq: ({ name }) => HelloService.sayBye(name),
+      SayHelloReq: ({ name }) => HelloService.sayHello(name),
+    },
+    { serviceLayers: HelloService.Default },
+  ),
+);
@@ -1,9 +1,11 @@
 import { Layer, ManagedRuntime } from "effect";
-import { makeRPCBackendLayer } from "effect-rpc";
+import { createEffectRPC } from "effect-rpc";
 
 export const AppRuntime = ManagedRuntime.make(
   Layer.mergeAll(
-    makeRPCBackendLayer({ url: "http://localhost:3000/api/hello" })
-    // AuthClientLive // if there's an auth middleware, for example
+    createEffectRPC({
+      url: "http://localhost:3000/api/hello",
+      // middleware: AuthClientLive, // if there's a client middleware, for example
+    })
   )
 );
@@ -1,4 +1,21 @@
+export * from './src/auth';
 export * from './src/client';
+export * from './src/context';
+export * from './src/errors';
+export * from './src/introspection';
+export * from './src/jsonrpc';
+export * from './src/local';
+export * from './src/logging';
+export * from './src/metrics';
+export * from './src/openapi';
+export * from './src/policy';
+export * from './src/process';
+export * from './src/query';
 export * from './src/registry';
+export * from './src/rest';
 export * from './src/runtime';
 export * from './src/server';
+export * from './src/sse';
+export * from './src/tracing';
+export * from './src/websocket';
+export * from './src/worker';
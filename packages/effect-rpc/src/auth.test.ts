@@ -0,0 +1,197 @@
+import { FileSystem, Headers } from '@effect/platform';
+import { Effect, Encoding, Exit, Layer, Schema } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { createJwtAuth, JwtKeys, type JwtKey } from './auth';
+
+const SECRET = 'a-secret-of-at-least-32-characters!';
+const User = Schema.Struct({ sub: Schema.String });
+
+const encodeJson = (value: unknown) => Encoding.encodeBase64Url(JSON.stringify(value));
+
+const signHs256 = async (claims: object, header: object = { alg: 'HS256', typ: 'JWT' }) => {
+  const data = `${encodeJson(header)}.${encodeJson(claims)}`;
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(SECRET),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(data));
+  return `${data}.${Encoding.encodeBase64Url(new Uint8Array(signature))}`;
+};
+
+const rsaKeys = crypto.subtle.generateKey(
+  {
+    name: 'RSASSA-PKCS1-v1_5',
+    modulusLength: 2048,
+    publicExponent: new Uint8Array([1, 0, 1]),
+    hash: 'SHA-256',
+  },
+  true,
+  ['sign', 'verify'],
+);
+
+const signRs256 = async (claims: object, kid?: string) => {
+  const { privateKey } = await rsaKeys;
+  const data = `${encodeJson({ alg: 'RS256', typ: 'JWT', kid })}.${encodeJson(claims)}`;
+  const signature = await crypto.subtle.sign(
+    'RSASSA-PKCS1-v1_5',
+    privateKey,
+    new TextEncoder().encode(data),
+  );
+  return `${data}.${Encoding.encodeBase64Url(new Uint8Array(signature))}`;
+};
+
+const now = () => Math.floor(Date.now() / 1000);
+
+/**
+ * Runs the middleware of an auth instance on a request with the given headers.
+ */
+const authenticate = <E>(
+  keys: Effect.Effect<ReadonlyArray<JwtKey>, E, FileSystem.FileSystem>,
+  headers: Record<string, string>,
+  options: {
+    cookie?: string;
+    issuer?: string;
+    audience?: string;
+    fs?: Layer.Layer<FileSystem.FileSystem>;
+  } = {},
+) => {
+  const Auth = createJwtAuth({ id: 'test', user: User, keys, ...options });
+  return Effect.runPromiseExit(
+    Effect.flatMap(Auth.Middleware, (middleware) =>
+      middleware({
+        clientId: 0,
+        rpc: undefined as never,
+        payload: undefined,
+        headers: Headers.fromInput(headers),
+      }),
+    ).pipe(Effect.provide(Auth.layer), Effect.provide(options.fs ?? FileSystem.layerNoop({}))),
+  );
+};
+
+const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+const failureMessage = (exit: Exit.Exit<unknown, unknown>) =>
+  Exit.isFailure(exit) && exit.cause._tag === 'Fail'
+    ? (exit.cause.error as { readonly message: string }).message
+    : undefined;
+
+describe('createJwtAuth', () => {
+  it('provides the decoded claims of a valid token', async () => {
+    const exit = await authenticate(JwtKeys.hs256(SECRET), bearer(await signHs256({ sub: 'ben' })));
+    expect(exit).toEqual(Exit.succeed({ sub: 'ben' }));
+  });
+
+  it('rejects a missing token', async () => {
+    const exit = await authenticate(JwtKeys.hs256(SECRET), {});
+    expect(failureMessage(exit)).toBe('Missing token');
+  });
+
+  it('rejects a token with a bad signature', async () => {
+    const token = await signHs256({ sub: 'ben' });
+    const tampered = `${token.split('.').slice(0, 2).join('.')}.${encodeJson('nope')}`;
+    expect(failureMessage(await authenticate(JwtKeys.hs256(SECRET), bearer(tampered)))).toBe(
+      'Invalid token',
+    );
+    const otherClaims = `${token.split('.')[0]}.${encodeJson({ sub: 'admin' })}.${token.split('.')[2]}`;
+    expect(failureMessage(await authenticate(JwtKeys.hs256(SECRET), bearer(otherClaims)))).toBe(
+      'Invalid token',
+    );
+  });
+
+  it('rejects a token without exactly three segments', async () => {
+    const token = await signHs256({ sub: 'ben' });
+    expect(failureMessage(await authenticate(JwtKeys.hs256(SECRET), bearer(`${token}.junk`)))).toBe(
+      'Invalid token',
+    );
+  });
+
+  it('rejects a token signed with another algorithm than the key', async () => {
+    const rs256 = await signRs256({ sub: 'ben' });
+    expect(failureMessage(await authenticate(JwtKeys.hs256(SECRET), bearer(rs256)))).toBe(
+      'Invalid token',
+    );
+    const none = `${encodeJson({ alg: 'none' })}.${encodeJson({ sub: 'ben' })}.`;
+    expect(failureMessage(await authenticate(JwtKeys.hs256(SECRET), bearer(none)))).toBe(
+      'Invalid token',
+    );
+  });
+
+  it('rejects an expired token, or one that is not yet valid', async () => {
+    const expired = await signHs256({ sub: 'ben', exp: now() - 60 });
+    expect(failureMessage(await authenticate(JwtKeys.hs256(SECRET), bearer(expired)))).toBe(
+      'Token expired',
+    );
+    const early = await signHs256({ sub: 'ben', nbf: now() + 60 });
+    expect(failureMessage(await authenticate(JwtKeys.hs256(SECRET), bearer(early)))).toBe(
+      'Token not yet valid',
+    );
+  });
+
+  it('checks the issuer and the audience', async () => {
+    const token = await signHs256({ sub: 'ben', iss: 'https://idp', aud: ['api', 'web'] });
+    const check = (issuer: string, audience: string) =>
+      authenticate(JwtKeys.hs256(SECRET), bearer(token), { issuer, audience });
+    expect(Exit.isSuccess(await check('https://idp', 'api'))).toBe(true);
+    expect(failureMessage(await check('https://other', 'api'))).toBe('Invalid token issuer');
+    expect(failureMessage(await check('https://idp', 'admin'))).toBe('Invalid token audience');
+  });
+
+  it('reads the token from the cookie only if configured, and prefers the header', async () => {
+    const fromCookie = await signHs256({ sub: 'cookie' });
+    const fromHeader = await signHs256({ sub: 'header' });
+    const cookie = { cookie: `session=${fromCookie}` };
+    expect(failureMessage(await authenticate(JwtKeys.hs256(SECRET), cookie))).toBe('Missing token');
+    expect(await authenticate(JwtKeys.hs256(SECRET), cookie, { cookie: 'session' })).toEqual(
+      Exit.succeed({ sub: 'cookie' }),
+    );
+    expect(
+      await authenticate(
+        JwtKeys.hs256(SECRET),
+        { ...cookie, ...bearer(fromHeader) },
+        { cookie: 'session' },
+      ),
+    ).toEqual(Exit.succeed({ sub: 'header' }));
+  });
+
+  it('verifies RS256 tokens with the keys of a JWKS file', async () => {
+    const jwk = await crypto.subtle.exportKey('jwk', (await rsaKeys).publicKey);
+    const fs = FileSystem.layerNoop({
+      readFileString: (path) =>
+        path === 'jwks.json'
+          ? Effect.succeed(JSON.stringify({ keys: [{ ...jwk, kid: 'k1', alg: 'RS256' }] }))
+          : Effect.fail(new Error('not found') as never),
+    });
+    const token = await signRs256({ sub: 'ben' }, 'k1');
+    expect(await authenticate(JwtKeys.jwksFile('jwks.json'), bearer(token), { fs })).toEqual(
+      Exit.succeed({ sub: 'ben' }),
+    );
+    const otherKid = await signRs256({ sub: 'ben' }, 'k2');
+    expect(
+      failureMessage(await authenticate(JwtKeys.jwksFile('jwks.json'), bearer(otherKid), { fs })),
+    ).toBe('Invalid token');
+    const missing = await authenticate(JwtKeys.jwksFile('missing.json'), bearer(token), { fs });
+    expect(failureMessage(missing)).toBe(`Can't read JWKS file "missing.json"`);
+  });
+
+  it('keeps the services of two instances apart', async () => {
+    const Users = createJwtAuth({ id: 'users', user: User, keys: JwtKeys.hs256(SECRET) });
+    const Admins = createJwtAuth({
+      id: 'admins',
+      user: Schema.Struct({ sub: Schema.String, role: Schema.Literal('admin') }),
+      keys: JwtKeys.hs256(SECRET),
+    });
+    const headers = Headers.fromInput(bearer(await signHs256({ sub: 'ben' })));
+    const options = { clientId: 0, rpc: undefined as never, payload: undefined, headers };
+    const [user, admin] = await Effect.runPromise(
+      Effect.all([
+        Effect.exit(Effect.flatMap(Users.Middleware, (middleware) => middleware(options))),
+        Effect.exit(Effect.flatMap(Admins.Middleware, (middleware) => middleware(options))),
+      ]).pipe(Effect.provide(Layer.merge(Users.layer, Admins.layer))),
+    );
+    expect(user).toEqual(Exit.succeed({ sub: 'ben' }));
+    expect(failureMessage(admin!)).toBe('Invalid token claims');
+  });
+});
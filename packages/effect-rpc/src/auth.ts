@@ -0,0 +1,500 @@
+import { Cookies, FileSystem, Headers } from '@effect/platform';
+import { RpcMiddleware } from '@effect/rpc';
+import {
+  Clock,
+  Config,
+  Context,
+  Data,
+  Duration,
+  Effect,
+  Either,
+  Encoding,
+  Layer,
+  Option,
+  Redacted,
+  Schema,
+} from 'effect';
+
+/**
+ * The error returned to the client when a request can't be authenticated,
+ * e.g. because the token is missing, invalid or expired.
+ *
+ * It is part of the failure type of every procedure using the middleware of {@link createJwtAuth},
+ * so it can be handled on the client with `Effect.catchTag('Unauthorized', ...)`.
+ *
+ * @since 0.9.0
+ */
+export class Unauthorized extends Schema.TaggedError<Unauthorized>()('Unauthorized', {
+  message: Schema.String,
+}) {}
+
+/**
+ * A key to verify the signature of a JWT with.
+ *
+ * - `HS256`: a shared secret, used with HMAC SHA-256.
+ * - `RS256`: an RSA public key, either as a PEM encoded SPKI (`-----BEGIN PUBLIC KEY-----`) or as a JWK.
+ *
+ * The `kid`, if given, is matched against the `kid` of the token header.
+ *
+ * @since 0.9.0
+ */
+export type JwtKey =
+  | {
+      readonly alg: 'HS256';
+      readonly kid?: string;
+      readonly secret: Redacted.Redacted<string> | string;
+    }
+  | {
+      readonly alg: 'RS256';
+      readonly kid?: string;
+      readonly publicKey: string;
+    }
+  | {
+      readonly alg: 'RS256';
+      readonly kid?: string;
+      readonly jwk: JsonWebKey;
+    };
+
+/**
+ * An error that occurred while loading the keys of {@link createJwtAuth}.
+ *
+ * @since 0.9.0
+ */
+export class JwtKeyError extends Data.TaggedError('JwtKeyError')<{
+  readonly message: string;
+  readonly cause?: unknown;
+}> {}
+
+/**
+ * Constructors for the keys of {@link createJwtAuth}.
+ * Each returns an `Effect` that loads the keys once, when the middleware layer is built.
+ *
+ * @example
+ * ```typescript
+ * // A shared secret, read from the `JWT_SECRET` environment variable
+ * JwtKeys.hs256(Config.redacted('JWT_SECRET'));
+ *
+ * // The public keys of an identity provider, from a local JWKS file
+ * JwtKeys.jwksFile('./keys/jwks.json'); // requires a `FileSystem`, e.g. `NodeFileSystem.layer`
+ * ```
+ *
+ * @since 0.9.0
+ */
+export const JwtKeys = {
+  /**
+   * A shared secret for `HS256`, given directly or read from a `Config`.
+   */
+  hs256: (
+    secret: Redacted.Redacted<string> | string | Config.Config<Redacted.Redacted<string> | string>,
+  ): Effect.Effect<ReadonlyArray<JwtKey>, JwtKeyError> =>
+    Effect.map(fromConfig(secret), (secret) => [{ alg: 'HS256', secret }]),
+
+  /**
+   * A PEM encoded RSA public key for `RS256`, given directly or read from a `Config`.
+   */
+  rs256: (
+    publicKey: string | Config.Config<string>,
+  ): Effect.Effect<ReadonlyArray<JwtKey>, JwtKeyError> =>
+    Effect.map(fromConfig(publicKey), (publicKey) => [{ alg: 'RS256', publicKey }]),
+
+  /**
+   * The `RS256` keys of a JSON Web Key Set. Keys with other algorithms are ignored.
+   */
+  jwks: (jwks: { readonly keys: ReadonlyArray<JsonWebKey & { readonly kid?: string }> }) =>
+    Effect.succeed(
+      jwks.keys
+        .filter((jwk) => jwk.kty === 'RSA' && (jwk.alg === undefined || jwk.alg === 'RS256'))
+        .map((jwk): JwtKey => ({ alg: 'RS256', kid: jwk.kid, jwk })),
+    ),
+
+  /**
+   * The `RS256` keys of a JSON Web Key Set stored in a local file.
+   */
+  jwksFile: (
+    path: string | Config.Config<string>,
+  ): Effect.Effect<ReadonlyArray<JwtKey>, JwtKeyError, FileSystem.FileSystem> =>
+    Effect.gen(function* () {
+      const fs = yield* FileSystem.FileSystem;
+      const file = yield* fromConfig(path);
+      const content = yield* fs
+        .readFileString(file)
+        .pipe(
+          Effect.mapError(
+            (cause) => new JwtKeyError({ message: `Can't read JWKS file "${file}"`, cause }),
+          ),
+        );
+      const jwks = yield* Effect.try({
+        try: () => JSON.parse(content) as { keys: Array<JsonWebKey & { kid?: string }> },
+        catch: (cause) => new JwtKeyError({ message: `Invalid JWKS file "${file}"`, cause }),
+      });
+      if (!Array.isArray(jwks?.keys)) {
+        return yield* new JwtKeyError({ message: `Invalid JWKS file "${file}": no "keys"` });
+      }
+      return yield* JwtKeys.jwks(jwks);
+    }),
+};
+
+/**
+ * Reads a value that is either given directly or read from a `Config`.
+ *
+ * @internal
+ */
+const fromConfig = <A>(value: A | Config.Config<A>): Effect.Effect<A, JwtKeyError> =>
+  Config.isConfig(value)
+    ? Effect.mapError(
+        value as Config.Config<A>,
+        (cause) => new JwtKeyError({ message: `Can't read the key config`, cause }),
+      )
+    : Effect.succeed(value as A);
+
+/**
+ * The identifier of the service holding the authenticated user of a request.
+ *
+ * @template A - The type of the user, as decoded by the `user` schema of {@link createJwtAuth}.
+ * @template Id - The `id` of the {@link JwtAuthConfig}.
+ *
+ * @since 0.9.0
+ */
+export interface CurrentUser<A, Id extends string = string> {
+  readonly _: unique symbol;
+  readonly id: Id;
+  readonly user: A;
+}
+
+/**
+ * The identifier of the `RpcMiddleware` created by {@link createJwtAuth}.
+ *
+ * @template A - The type of the user.
+ * @template Id - The `id` of the {@link JwtAuthConfig}.
+ *
+ * @since 0.9.0
+ */
+export interface JwtAuthMiddleware<A, Id extends string = string> {
+  readonly _: unique symbol;
+  readonly id: Id;
+  readonly user: A;
+}
+
+/**
+ * Configuration object for {@link createJwtAuth}.
+ *
+ * @template Id - The identifier of the middleware.
+ * @template A - The type of the user.
+ * @template I - The encoded type of the user, i.e. the claims of the token.
+ * @template E - The error type of loading the keys.
+ * @template R - The services required to load the keys.
+ *
+ * @since 0.9.0
+ */
+export type JwtAuthConfig<Id extends string, A, I, E, R> = {
+  /**
+   * Identifies the middleware and its `CurrentUser` service, e.g. `'users'`. Services are looked up by their key,
+   * so every middleware created with {@link createJwtAuth} needs its own `id`, e.g. one per claim schema or key set.
+   */
+  readonly id: Id;
+  /**
+   * The schema decoding the claims of a verified token into the current user.
+   * If the claims can't be decoded, the request fails with {@link Unauthorized}.
+   */
+  readonly user: Schema.Schema<A, I>;
+  /**
+   * The keys to verify tokens with, see {@link JwtKeys}.
+   * They are loaded once, when the middleware layer is built.
+   */
+  readonly keys: Effect.Effect<ReadonlyArray<JwtKey>, E, R>;
+  /**
+   * The name of a cookie to read the token from, if the request has no `Authorization: Bearer` header.
+   * By default, only the header is used.
+   */
+  readonly cookie?: string;
+  /**
+   * If set, the `iss` claim of the token must be equal to it.
+   */
+  readonly issuer?: string;
+  /**
+   * If set, the `aud` claim of the token must be, or contain, it.
+   */
+  readonly audience?: string;
+  /**
+   * The tolerance when checking the `exp` and `nbf` claims, to allow for clock skew between servers.
+   * Defaults to 0.
+   */
+  readonly clockTolerance?: Duration.DurationInput;
+};
+
+/**
+ * The result of {@link createJwtAuth}.
+ *
+ * @template A - The type of the user.
+ * @template E - The error type of loading the keys.
+ * @template R - The services required to load the keys.
+ * @template Id - The identifier of the middleware.
+ *
+ * @since 0.9.0
+ */
+export type JwtAuth<A, E, R, Id extends string = string> = {
+  /**
+   * The service holding the authenticated user.
+   * Request implementations of procedures using the {@link JwtAuth.Middleware | middleware} can `yield*` it.
+   */
+  readonly CurrentUser: Context.Tag<CurrentUser<A, Id>, A>;
+  /**
+   * The `RpcMiddleware` to add to procedures or groups with `.middleware(...)`.
+   */
+  readonly Middleware: RpcMiddleware.TagClass<
+    JwtAuthMiddleware<A, Id>,
+    `effect-rpc/JwtAuth/${Id}`,
+    {
+      readonly provides: Context.Tag<CurrentUser<A, Id>, A>;
+      readonly failure: typeof Unauthorized;
+    }
+  >;
+  /**
+   * The server implementation of the middleware, to pass as the `middleware` option of the handler.
+   * Building it fails with a {@link JwtKeyError} if the keys can't be loaded or imported.
+   */
+  readonly layer: Layer.Layer<JwtAuthMiddleware<A, Id>, E | JwtKeyError, R>;
+};
+
+/**
+ * Creates a middleware that authenticates requests with a JSON Web Token.
+ *
+ * The token is read from the `Authorization: Bearer <token>` header or, if configured, from a cookie.
+ * Its signature is verified with the given keys (`HS256` or `RS256`), its `exp`, `nbf`, `iss` and `aud`
+ * claims are checked, and the claims are decoded with the `user` schema into the {@link JwtAuth.CurrentUser}
+ * service. If any of this fails, the request fails with {@link Unauthorized}, without running the implementation.
+ *
+ * Signatures are verified with the Web Crypto API, so the middleware runs on Node.js, Bun, Deno and edge runtimes.
+ *
+ * @param config - Configuration object, see {@link JwtAuthConfig}.
+ * @returns The {@link JwtAuth} with the `CurrentUser` service, the `Middleware` and its `layer`.
+ *
+ * @example
+ * ```typescript
+ * // src/lib/rpc/auth.ts
+ * export const User = Schema.Struct({ sub: Schema.String, roles: Schema.Array(Schema.String) });
+ *
+ * export const Auth = createJwtAuth({
+ *   id: 'users',
+ *   user: User,
+ *   keys: JwtKeys.hs256(Config.redacted('JWT_SECRET')),
+ *   cookie: 'session',
+ * });
+ *
+ * // src/lib/rpc/users/requests.ts
+ * export const usersRouter = RpcGroup.make(Rpc.fromTaggedRequest(GetProfileReq)).middleware(Auth.Middleware);
+ *
+ * // src/app/api/users/route.ts
+ * export const POST = createRPCHandler(
+ *   usersRouter,
+ *   {
+ *     GetProfileReq: () => Effect.flatMap(Auth.CurrentUser, (user) => UserService.getProfile(user.sub)),
+ *   },
+ *   { serviceLayers: UserService.Default, middleware: Auth.layer },
+ * );
+ * ```
+ *
+ * @since 0.9.0
+ */
+export function createJwtAuth<const Id extends string, A, I, E = never, R = never>(
+  config: JwtAuthConfig<Id, A, I, E, R>,
+): JwtAuth<A, E, R, Id> {
+  const CurrentUser = Context.GenericTag<CurrentUser<A, Id>, A>(
+    `effect-rpc/CurrentUser/${config.id}`,
+  );
+  const Middleware = RpcMiddleware.Tag<JwtAuthMiddleware<A, Id>>()(
+    `effect-rpc/JwtAuth/${config.id}` as `effect-rpc/JwtAuth/${Id}`,
+    {
+      provides: CurrentUser,
+      failure: Unauthorized,
+    },
+  );
+
+  const decodeUser = Schema.decodeUnknown(config.user);
+  const clockTolerance = Duration.toSeconds(config.clockTolerance ?? 0);
+
+  const layer = Layer.effect(
+    Middleware,
+    Effect.gen(function* () {
+      const keys = yield* config.keys;
+      const verifiers = yield* Effect.forEach(keys, importKey);
+
+      return Middleware.of(({ headers }) =>
+        Effect.gen(function* () {
+          const token = yield* readToken(headers, config.cookie);
+          const claims = yield* verifyToken(token, verifiers);
+
+          const now = (yield* Clock.currentTimeMillis) / 1000;
+          if (typeof claims['exp'] === 'number' && now > claims['exp'] + clockTolerance) {
+            return yield* new Unauthorized({ message: 'Token expired' });
+          }
+          if (typeof claims['nbf'] === 'number' && now < claims['nbf'] - clockTolerance) {
+            return yield* new Unauthorized({ message: 'Token not yet valid' });
+          }
+          if (config.issuer !== undefined && claims['iss'] !== config.issuer) {
+            return yield* new Unauthorized({ message: 'Invalid token issuer' });
+          }
+          if (config.audience !== undefined && !hasAudience(claims['aud'], config.audience)) {
+            return yield* new Unauthorized({ message: 'Invalid token audience' });
+          }
+
+          return yield* decodeUser(claims).pipe(
+            Effect.mapError(() => new Unauthorized({ message: 'Invalid token claims' })),
+          );
+        }),
+      );
+    }),
+  );
+
+  return { CurrentUser, Middleware, layer };
+}
+
+/**
+ * A key, imported for signature verification.
+ *
+ * @internal
+ */
+type Verifier = {
+  readonly alg: JwtKey['alg'];
+  readonly kid: string | undefined;
+  readonly key: CryptoKey;
+};
+
+/**
+ * The Web Crypto parameters of the supported algorithms.
+ *
+ * @internal
+ */
+const ALGORITHMS = {
+  HS256: { name: 'HMAC', hash: 'SHA-256' },
+  RS256: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+} as const;
+
+/**
+ * Imports a {@link JwtKey} with the Web Crypto API.
+ *
+ * @internal
+ */
+const importKey = (key: JwtKey): Effect.Effect<Verifier, JwtKeyError> =>
+  Effect.tryPromise({
+    try: () => {
+      const algorithm = ALGORITHMS[key.alg];
+      if ('secret' in key) {
+        const secret = typeof key.secret === 'string' ? key.secret : Redacted.value(key.secret);
+        return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), algorithm, false, [
+          'verify',
+        ]);
+      }
+      if ('jwk' in key) {
+        return crypto.subtle.importKey('jwk', key.jwk, algorithm, false, ['verify']);
+      }
+      const der = Either.getOrThrow(
+        Encoding.decodeBase64(key.publicKey.replace(/-----[^-]+-----/g, '').replace(/\s/g, '')),
+      );
+      // Web Crypto only takes bytes backed by an `ArrayBuffer`, so the decoded bytes are copied
+      return crypto.subtle.importKey('spki', new Uint8Array(der), algorithm, false, ['verify']);
+    },
+    catch: (cause) => new JwtKeyError({ message: `Invalid ${key.alg} key`, cause }),
+  }).pipe(Effect.map((cryptoKey) => ({ alg: key.alg, kid: key.kid, key: cryptoKey })));
+
+/**
+ * Reads the token from the `Authorization` header, or from the given cookie.
+ *
+ * @internal
+ */
+const readToken = (
+  headers: Headers.Headers,
+  cookie: string | undefined,
+): Effect.Effect<string, Unauthorized> => {
+  const authorization = Headers.get(headers, 'authorization').pipe(
+    Option.flatMap((value) => Option.fromNullable(/^Bearer\s+(\S+)$/i.exec(value)?.[1])),
+  );
+  const token = Option.orElse(authorization, () =>
+    cookie === undefined
+      ? Option.none()
+      : Headers.get(headers, 'cookie').pipe(
+          Option.flatMap((value) => Option.fromNullable(Cookies.parseHeader(value)[cookie])),
+        ),
+  );
+  return Option.match(token, {
+    onNone: () => Effect.fail(new Unauthorized({ message: 'Missing token' })),
+    onSome: Effect.succeed,
+  });
+};
+
+/**
+ * Verifies the signature of a token and returns its claims.
+ *
+ * @internal
+ */
+const verifyToken = (
+  token: string,
+  verifiers: ReadonlyArray<Verifier>,
+): Effect.Effect<Record<string, unknown>, Unauthorized> =>
+  Effect.gen(function* () {
+    const invalid = new Unauthorized({ message: 'Invalid token' });
+    const segments = token.split('.');
+    if (segments.length !== 3) {
+      return yield* invalid;
+    }
+    const [encodedHeader, encodedClaims, encodedSignature] = segments as [string, string, string];
+    if (!encodedSignature) {
+      return yield* invalid;
+    }
+
+    const header = parseJson(encodedHeader);
+    const claims = parseJson(encodedClaims);
+    const signature = Encoding.decodeBase64Url(encodedSignature);
+    if (!header || !claims || Either.isLeft(signature)) {
+      return yield* invalid;
+    }
+
+    const candidates = verifiers.filter(
+      (verifier) =>
+        verifier.alg === header['alg'] &&
+        (header['kid'] === undefined ||
+          verifier.kid === undefined ||
+          verifier.kid === header['kid']),
+    );
+    const data = new TextEncoder().encode(`${encodedHeader}.${encodedClaims}`);
+    // Web Crypto only takes bytes backed by an `ArrayBuffer`, so the decoded signature is copied
+    const signatureBytes = new Uint8Array(signature.right);
+    for (const verifier of candidates) {
+      // A signature the key can't be used with (e.g. of the wrong length) is rejected like an invalid one
+      const valid = yield* Effect.tryPromise({
+        try: () =>
+          crypto.subtle.verify(ALGORITHMS[verifier.alg], verifier.key, signatureBytes, data),
+        catch: () => invalid,
+      });
+      if (valid) {
+        return claims;
+      }
+    }
+    return yield* invalid;
+  });
+
+/**
+ * Decodes a base64url encoded JSON object, returning `undefined` if it isn't one.
+ *
+ * @internal
+ */
+const parseJson = (encoded: string): Record<string, unknown> | undefined => {
+  const decoded = Encoding.decodeBase64UrlString(encoded);
+  if (Either.isLeft(decoded)) return undefined;
+  try {
+    const value: unknown = JSON.parse(decoded.right);
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Checks whether the `aud` claim of a token contains the expected audience.
+ *
+ * @internal
+ */
+const hasAudience = (aud: unknown, audience: string): boolean =>
+  Array.isArray(aud) ? aud.includes(audience) : aud === audience;
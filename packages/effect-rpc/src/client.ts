@@ -1,5 +1,5 @@
 import { RpcGroup } from '@effect/rpc';
-import { makeRPCRequest, type InferClient } from './helpers';
+import { makeRPCRequest, type InferClient, type RPCRequest } from './helpers';
 
 /**
  * Creates a function to perform an RPC request using the provided RPC group and request name.
@@ -8,9 +8,13 @@ import { makeRPCRequest, type InferClient } from './helpers';
  * an Effect program that:
  *  - Instantiates an RPC client for the given group.
  *  - Invokes the specified request with the provided payload.
- *  - Logs the response.
+ *  - Logs the request according to the {@link LoggingPolicy} of the runtime (nothing by default).
  *  - Returns the response as the result of the Effect.
  *
+ * For a streaming procedure (declared with `stream: true`), the function returns a `Stream` of its elements
+ * instead, which fails with the errors of the procedure. The request is sent when the stream is run, and
+ * interrupting the stream (e.g. with `Stream.take`) interrupts the procedure on the server.
+ *
  * @template T - The type of the RPC group, extending `RpcGroup.RpcGroup<any>`.
  * @template K - The key of the request within the inferred client from the RPC group.
  *
@@ -24,15 +28,15 @@ import { makeRPCRequest, type InferClient } from './helpers';
  * const getUser = useRPCRequest(userRpcGroup, "getUser");
  * const program = getUser({ id: "123" });
  * // program is an Effect that, when run, will perform the RPC call and return the user data.
+ *
+ * const progress = useRPCRequest(exportRpcGroup, "exportUsers")({ format: "csv" });
+ * // progress is a Stream of the elements sent by the server
  * ```
  */
 export function useRPCRequest<
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   T extends RpcGroup.RpcGroup<any>,
   K extends keyof InferClient<T>,
->(
-  rpcGroup: T,
-  requestName: K,
-): (payload: Parameters<InferClient<T>[K]>[0]) => ReturnType<InferClient<T>[K]> {
+>(rpcGroup: T, requestName: K): (payload: Parameters<InferClient<T>[K]>[0]) => RPCRequest<T, K> {
   return makeRPCRequest(rpcGroup, requestName);
 }
@@ -0,0 +1,95 @@
+import { FetchHttpClient } from '@effect/platform';
+import { Rpc, RpcClient, RpcGroup } from '@effect/rpc';
+import { Effect, Layer, Option, Schema } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { useRPCRequest } from './client';
+import { RequestContext } from './context';
+import { createLocalRPC } from './local';
+import { createEffectRPC } from './runtime';
+import { createRPCHandler } from './server';
+
+const router = RpcGroup.make(
+  Rpc.make('Caller', { success: Schema.Array(Schema.String) }),
+  Rpc.make('Address', { success: Schema.String }),
+);
+
+const implementations = {
+  Caller: () =>
+    Effect.map(RequestContext, ({ transport, method, url }) => [
+      transport,
+      Option.getOrElse(method, () => ''),
+      Option.match(url, { onNone: () => '', onSome: String }),
+    ]),
+  Address: () =>
+    Effect.map(RequestContext, ({ remoteAddress }) => Option.getOrElse(remoteAddress, () => '')),
+};
+
+const caller = useRPCRequest(router, 'Caller')();
+
+/**
+ * Reads the remote address of a request sent over HTTP with the given `x-forwarded-for` header.
+ */
+const addressBehindProxies = async (forwardedFor: string, trustProxy?: number) => {
+  const handler = createRPCHandler(router, implementations, {
+    serviceLayers: Layer.empty,
+    trustProxy,
+  });
+  const address = await Effect.runPromise(
+    useRPCRequest(router, 'Address')().pipe(
+      Effect.provide(createEffectRPC({ url: 'http://localhost/rpc' })),
+      Effect.provideService(FetchHttpClient.Fetch, (input, init) => {
+        const request = new Request(input, init);
+        request.headers.set('x-forwarded-for', forwardedFor);
+        return handler(request);
+      }),
+    ),
+  );
+  await handler.dispose();
+  return address;
+};
+
+describe('RequestContext', () => {
+  it('describes a request received over HTTP', async () => {
+    const handler = createRPCHandler(router, implementations, { serviceLayers: Layer.empty });
+    const result = await Effect.runPromise(
+      caller.pipe(
+        Effect.provide(createEffectRPC({ url: 'http://localhost/rpc' })),
+        Effect.provideService(FetchHttpClient.Fetch, (input, init) =>
+          handler(new Request(input, init)),
+        ),
+      ),
+    );
+    expect(result).toEqual(['http', 'POST', 'http://localhost/rpc']);
+    await handler.dispose();
+  });
+
+  it('describes a request made in the same process', async () => {
+    const result = await Effect.runPromise(
+      caller.pipe(
+        Effect.provide(createLocalRPC(router, implementations, { serviceLayers: Layer.empty })),
+      ),
+    );
+    expect(result).toEqual(['local', '', '']);
+  });
+
+  it('ignores the x-forwarded-for header unless proxies are trusted', async () => {
+    expect(await addressBehindProxies('203.0.113.7')).toBe('');
+  });
+
+  it('reads the rightmost address that was not appended by a trusted proxy', async () => {
+    const forwardedFor = '198.51.100.1, 203.0.113.7, 10.0.0.2';
+    expect(await addressBehindProxies(forwardedFor, 1)).toBe('10.0.0.2');
+    expect(await addressBehindProxies(forwardedFor, 2)).toBe('203.0.113.7');
+    expect(await addressBehindProxies('203.0.113.7', 2)).toBe('');
+  });
+
+  it('never reads the address from the headers of the RPC message', async () => {
+    const address = await Effect.runPromise(
+      useRPCRequest(router, 'Address')().pipe(
+        RpcClient.withHeaders({ 'x-forwarded-for': '203.0.113.7' }),
+        Effect.provide(createLocalRPC(router, implementations, { serviceLayers: Layer.empty })),
+      ),
+    );
+    expect(address).toBe('');
+  });
+});
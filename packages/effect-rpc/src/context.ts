@@ -0,0 +1,173 @@
+import type { Cookies, Headers } from '@effect/platform';
+import { Context, Effect, Option } from 'effect';
+
+/**
+ * The transport an RPC request was received through.
+ *
+ * - `http`: the request was sent to a route handler, e.g. created with {@link createRPCHandler}.
+ * - `local`: the request was made in the same process, e.g. through {@link createLocalRPC}.
+ * - `websocket`: the request was sent over a WebSocket connection served by {@link createWebSocketHandler}.
+ * - `worker`: the request was sent to a worker served by {@link serveRPCWorker}.
+ * - `process`: the request was sent to a process served by {@link createProcessHandler}.
+ *
+ * @since 0.9.0
+ */
+export type RequestTransport = 'http' | 'local' | 'websocket' | 'worker' | 'process';
+
+/**
+ * The request a long-lived connection was opened with, such as the upgrade request of a WebSocket connection.
+ * It is provided by the protocol of the connection for every RPC request it receives.
+ *
+ * @internal
+ */
+export class ConnectionRequest extends Context.Tag('effect-rpc/ConnectionRequest')<
+  ConnectionRequest,
+  { readonly url: Option.Option<URL>; readonly remoteAddress: Option.Option<string> }
+>() {}
+
+/**
+ * Information about the incoming request that an RPC procedure is executed for.
+ *
+ * This service is provided to every request implementation by the library, so handlers can
+ * `yield*` it without providing it through the `serviceLayers`.
+ *
+ * For requests received over HTTP, it is derived from the incoming `globalThis.Request`,
+ * merged with the headers the client attached to the RPC call (e.g., with `RpcClient.withHeaders`).
+ * For requests received over a WebSocket connection, it is derived from the upgrade request the same way.
+ * For other transports, only the headers attached to the RPC call are available.
+ *
+ * @example
+ * ```typescript
+ * const handler = createRPCHandler(router, {
+ *   SayHelloReq: ({ name }) =>
+ *     Effect.gen(function* () {
+ *       const { headers, cookies, remoteAddress } = yield* RequestContext;
+ *       const token = Headers.get(headers, 'authorization');
+ *       const session = cookies['session'];
+ *       // ...
+ *       return yield* HelloService.sayHello(name);
+ *     }),
+ * }, { serviceLayers: HelloService.Default });
+ * ```
+ *
+ * @since 0.9.0
+ */
+export class RequestContext extends Context.Tag('effect-rpc/RequestContext')<
+  RequestContext,
+  {
+    /**
+     * The transport the request was received through.
+     */
+    readonly transport: RequestTransport;
+    /**
+     * The HTTP method of the incoming request. Only available for the `http` transport.
+     */
+    readonly method: Option.Option<string>;
+    /**
+     * The URL of the incoming request. Only available for the `http` transport, and for the `websocket` transport
+     * if the URL of the upgrade request was passed to the handler.
+     */
+    readonly url: Option.Option<URL>;
+    /**
+     * The headers of the incoming request, with lower-cased names.
+     */
+    readonly headers: Headers.Headers;
+    /**
+     * The cookies sent with the request, parsed from the `cookie` header.
+     */
+    readonly cookies: Readonly<Record<string, string>>;
+    /**
+     * The address of the caller, as seen by the server (the `remoteAddress` of the socket, or of the upgrade
+     * request for the `websocket` transport). Web handlers such as the ones of Next.js don't see it.
+     *
+     * Behind proxies, set the `trustProxy` option of the handler to take it from the `x-forwarded-for` header
+     * of the HTTP request instead. The headers of the RPC messages are never used, as the caller sets them.
+     */
+    readonly remoteAddress: Option.Option<string>;
+  }
+>() {}
+
+/**
+ * Lets a request implementation influence the HTTP response its result is sent with.
+ *
+ * This service is provided to every request implementation by the library, so handlers can
+ * `yield*` it without providing it through the `serviceLayers`.
+ *
+ * The changes are merged into the outgoing `Response` once every procedure in the HTTP request has
+ * produced its result (or, for streaming procedures, its first chunk). Changes made afterwards are ignored.
+ * If several procedures are sent in one HTTP request, their changes are applied in the order the
+ * procedures were sent, and the changes of one procedure are applied in the order they were made.
+ * So, for the same header, cookie or status, the last change wins.
+ * Headers owned by the protocol (`content-type`, `content-length`, `transfer-encoding`) can't be changed.
+ *
+ * For transports without an HTTP response (e.g., {@link createLocalRPC}), all changes are ignored.
+ *
+ * @example
+ * ```typescript
+ * const handler = createRPCHandler(router, {
+ *   LoginReq: ({ username, password }) =>
+ *     Effect.gen(function* () {
+ *       const session = yield* AuthService.login(username, password);
+ *       const response = yield* ResponseContext;
+ *       yield* response
+ *         .setCookie('session', session.id, { httpOnly: true, secure: true, path: '/' })
+ *         .pipe(Effect.orDie); // the cookie is known to be valid
+ *       yield* response.setHeader('cache-control', 'no-store');
+ *       return session.user;
+ *     }),
+ *   LogoutReq: () =>
+ *     Effect.gen(function* () {
+ *       const response = yield* ResponseContext;
+ *       yield* response.deleteCookie('session', { path: '/' });
+ *     }),
+ * }, { serviceLayers: AuthService.Default });
+ * ```
+ *
+ * @since 0.9.0
+ */
+export class ResponseContext extends Context.Tag('effect-rpc/ResponseContext')<
+  ResponseContext,
+  {
+    /**
+     * Sets a response header, replacing any previous value.
+     */
+    readonly setHeader: (name: string, value: string) => Effect.Effect<void>;
+    /**
+     * Appends a value to a response header, keeping the previous values.
+     */
+    readonly appendHeader: (name: string, value: string) => Effect.Effect<void>;
+    /**
+     * Removes a response header that was set before.
+     */
+    readonly removeHeader: (name: string) => Effect.Effect<void>;
+    /**
+     * Sets a cookie on the response (`Set-Cookie`).
+     * Fails if the name, value or options are not valid for a cookie.
+     */
+    readonly setCookie: (
+      name: string,
+      value: string,
+      options?: Cookies.Cookie['options'],
+    ) => Effect.Effect<void, Cookies.CookiesError>;
+    /**
+     * Deletes a cookie on the client, by setting it with an expiration date in the past.
+     * The `path` and `domain` must match the ones the cookie was set with.
+     */
+    readonly deleteCookie: (
+      name: string,
+      options?: { readonly path?: string; readonly domain?: string },
+    ) => Effect.Effect<void>;
+    /**
+     * Sets the status code of the response.
+     */
+    readonly setStatus: (status: number) => Effect.Effect<void>;
+  }
+>() {}
+
+/**
+ * The services that the library provides to every request implementation.
+ * They don't need to be provided by the `serviceLayers` of a handler.
+ *
+ * @since 0.9.0
+ */
+export type HandlerServices = RequestContext | ResponseContext;
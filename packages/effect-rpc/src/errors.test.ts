@@ -0,0 +1,241 @@
+import { FetchHttpClient } from '@effect/platform';
+import { Rpc, RpcGroup } from '@effect/rpc';
+import { Cause, Effect, Exit, HashMap, Layer, Logger, Option, Schema } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { useRPCRequest } from './client';
+import { ResponseContext } from './context';
+import { InternalError, InvalidPayload, type ErrorMappingConfig } from './errors';
+import { createEffectRPC } from './runtime';
+import { createRPCHandler } from './server';
+
+class NotFound extends Schema.TaggedError<NotFound>()('NotFound', {}) {}
+class RateLimited extends Schema.TaggedError<RateLimited>()('RateLimited', {}) {}
+class Conflict extends Schema.TaggedError<Conflict>()('Conflict', {}) {}
+
+const router = RpcGroup.make(
+  Rpc.make('Find', { payload: { delay: Schema.Number }, error: NotFound }),
+  Rpc.make('Limit', { error: RateLimited }),
+  Rpc.make('Update', { error: Conflict }),
+  Rpc.make('Crash'),
+  Rpc.make('Ping', { success: Schema.String }),
+);
+
+const makeHandler = (errorMapping?: ErrorMappingConfig<RpcGroup.Rpcs<typeof router>>) =>
+  createRPCHandler(
+    router,
+    {
+      Find: ({ delay }) =>
+        Effect.gen(function* () {
+          yield* Effect.sleep(delay);
+          const response = yield* ResponseContext;
+          yield* response.setStatus(202);
+          return yield* new NotFound();
+        }),
+      Limit: () => Effect.fail(new RateLimited()),
+      Update: () => Effect.fail(new Conflict()),
+      Crash: () => Effect.die('boom'),
+      Ping: () => Effect.succeed('pong'),
+    },
+    { serviceLayers: Layer.empty, errorMapping },
+  );
+
+const mapped = makeHandler({
+  tags: { NotFound: 404, RateLimited: { status: 429, headers: { 'retry-after': '60' } } },
+});
+
+/**
+ * Sends the requests in one HTTP request, as NDJSON.
+ */
+const batch = (
+  handler: ReturnType<typeof makeHandler>,
+  ...requests: ReadonlyArray<{ readonly tag: string; readonly payload?: unknown }>
+) =>
+  handler(
+    new Request('http://localhost/rpc', {
+      method: 'POST',
+      body: requests
+        .map(
+          ({ tag, payload }, index) =>
+            `${JSON.stringify({ _tag: 'Request', id: String(index), tag, payload, headers: [] })}\n`,
+        )
+        .join(''),
+    }),
+  );
+
+describe('errorMapping', () => {
+  it('answers a mapped failure with its status and headers, and the failure in the body', async () => {
+    const response = await batch(mapped, { tag: 'Limit' });
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe('60');
+    expect(await response.text()).toContain('"_tag":"RateLimited"');
+  });
+
+  it('answers unmapped failures with 200, invalid payloads with 400 and defects with 500', async () => {
+    expect((await batch(mapped, { tag: 'Update' })).status).toBe(200);
+    expect((await batch(mapped, { tag: 'Find', payload: { delay: 'soon' } })).status).toBe(400);
+    expect((await batch(mapped, { tag: 'Crash' })).status).toBe(500);
+
+    const custom = makeHandler({ decodeFailure: 422, defect: { status: 503 } });
+    expect((await batch(custom, { tag: 'Find', payload: { delay: 'soon' } })).status).toBe(422);
+    expect((await batch(custom, { tag: 'Crash' })).status).toBe(503);
+  });
+
+  it('answers a batch with the mapping of its first mapped failure, in the order it was sent', async () => {
+    // `Find` fails last, but was sent first
+    const response = await batch(
+      mapped,
+      { tag: 'Ping' },
+      { tag: 'Update' },
+      { tag: 'Find', payload: { delay: 50 } },
+      { tag: 'Limit' },
+    );
+    expect(response.status).toBe(404);
+    expect(response.headers.get('retry-after')).toBeNull();
+  });
+
+  it('takes precedence over the status set by the implementation', async () => {
+    expect((await batch(mapped, { tag: 'Find', payload: { delay: 0 } })).status).toBe(404);
+    expect((await batch(makeHandler(), { tag: 'Find', payload: { delay: 0 } })).status).toBe(202);
+  });
+});
+
+describe('production mode', () => {
+  const logs: Array<{
+    readonly message: unknown;
+    readonly cause: string;
+    readonly correlationId: unknown;
+  }> = [];
+  const logger = Logger.make(({ message, cause, annotations }) => {
+    if (!Cause.isEmpty(cause)) {
+      logs.push({
+        message,
+        cause: Cause.pretty(cause),
+        correlationId: HashMap.unsafeGet(annotations, 'correlationId'),
+      });
+    }
+  });
+  const production = createRPCHandler(
+    router,
+    {
+      Find: () => Effect.fail(new NotFound()),
+      Limit: () => Effect.interrupt,
+      Update: () => Effect.fail(new Conflict()),
+      Crash: () => Effect.die(new Error('connection string: postgres://admin:secret@db')),
+      Ping: () => Effect.succeed('pong'),
+    },
+    {
+      serviceLayers: Logger.replace(Logger.defaultLogger, logger),
+      mode: 'production',
+    },
+  );
+
+  /**
+   * Runs a request of the router with a client whose requests are served by the handler.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const run = <A, E>(effect: Effect.Effect<A, E, any>) =>
+    Effect.runPromiseExit(
+      effect.pipe(
+        Effect.provide(createEffectRPC({ url: 'http://localhost/rpc' })),
+        Effect.provideService(FetchHttpClient.Fetch, (input, init) =>
+          production(new Request(input, init)),
+        ),
+      ) as Effect.Effect<A, E>,
+    );
+
+  it('sends an InternalError in place of a defect, and logs the defect with its correlation ID', async () => {
+    const exit = await run(useRPCRequest(router, 'Crash')());
+    const defect = Exit.isFailure(exit) ? Cause.dieOption(exit.cause) : Option.none();
+    const error = Option.flatMap(defect, InternalError.fromDefect);
+    expect(Option.isSome(error)).toBe(true);
+    expect(JSON.stringify(Option.getOrUndefined(defect))).not.toContain('secret');
+
+    const { correlationId } = Option.getOrThrow(error);
+    expect(logs).toHaveLength(1);
+    expect(logs[0]?.correlationId).toBe(correlationId);
+    expect(logs[0]?.cause).toContain('postgres://admin:secret@db');
+  });
+
+  it('sends typed failures and interruptions as they are', async () => {
+    logs.length = 0;
+    expect(await run(useRPCRequest(router, 'Update')())).toEqual(Exit.fail(new Conflict()));
+    const interrupted = await run(useRPCRequest(router, 'Limit')());
+    expect(Exit.isFailure(interrupted) && Cause.isInterruptedOnly(interrupted.cause)).toBe(true);
+    expect(logs).toHaveLength(0);
+  });
+});
+
+describe('InvalidPayload', () => {
+  const Zip = Schema.String.pipe(
+    Schema.pattern(/^\d{5}$/, { message: () => 'A ZIP code has 5 digits' }),
+  );
+  const registration = RpcGroup.make(
+    Rpc.make('Register', {
+      payload: {
+        name: Schema.NonEmptyString,
+        address: Schema.Struct({ street: Schema.String, zip: Zip }),
+        tags: Schema.Array(Schema.String),
+      },
+    }),
+  );
+  const handler = createRPCHandler(
+    registration,
+    { Register: () => Effect.void },
+    { serviceLayers: Layer.empty },
+  );
+
+  it('lists the issues of the payload with their path and message', async () => {
+    const response = await handler(
+      new Request('http://localhost/rpc', {
+        method: 'POST',
+        body: `${JSON.stringify({
+          _tag: 'Request',
+          id: '0',
+          tag: 'Register',
+          payload: { name: 'Ada', address: { street: 'Main St', zip: '123' }, tags: ['a'] },
+          headers: [],
+        })}\n`,
+      }),
+    );
+    expect(response.status).toBe(400);
+    const body = await response.text();
+    expect(body).toContain('"_tag":"InvalidPayload"');
+    expect(body).toContain('"path":["address","zip"]');
+    expect(body).toContain('"message":"A ZIP code has 5 digits"');
+  });
+
+  it('rejects an invalid payload on the client, before it is sent', async () => {
+    let sent = 0;
+    const exit = await Effect.runPromiseExit(
+      useRPCRequest(
+        registration,
+        'Register',
+      )({
+        name: 'Ada',
+        address: { street: 'Main St', zip: 'abc' },
+        tags: [],
+      }).pipe(
+        Effect.provide(createEffectRPC({ url: 'http://localhost/rpc' })),
+        Effect.provideService(FetchHttpClient.Fetch, (input, init) => {
+          sent++;
+          return handler(new Request(input, init));
+        }),
+      ),
+    );
+    expect(sent).toBe(0);
+    expect(exit).toEqual(
+      Exit.fail(
+        new InvalidPayload({
+          message: 'Invalid payload for "Register"',
+          issues: [
+            {
+              path: ['address', 'zip'],
+              expected: 'a string matching the pattern ^\\d{5}$',
+              message: 'A ZIP code has 5 digits',
+            },
+          ],
+        }),
+      ),
+    );
+  });
+});
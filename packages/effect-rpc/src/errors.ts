@@ -0,0 +1,347 @@
+import type { Rpc, RpcGroup } from '@effect/rpc';
+import type { FromServerEncoded, RequestEncoded } from '@effect/rpc/RpcMessage';
+import { Cause, Effect, Either, Option, Schema } from 'effect';
+import { ArrayFormatter, type ParseError, type ParseIssue } from 'effect/ParseResult';
+import { recordRejection } from './metrics';
+
+/**
+ * The HTTP status code, and optionally headers, that a failed procedure is answered with.
+ * A number is a shorthand for `{ status }`.
+ *
+ * @since 0.9.0
+ */
+export type ErrorMapping =
+  | number
+  | {
+      readonly status: number;
+      readonly headers?: Readonly<Record<string, string>>;
+    };
+
+/**
+ * The `_tag`s of the typed failures of the procedures, including the failures of their middleware.
+ *
+ * @template Rpcs - The procedures of the group.
+ *
+ * @since 0.9.0
+ */
+export type FailureTag<Rpcs extends Rpc.Any> =
+  | Rpc.ErrorExit<Rpcs>
+  | MiddlewareFailure<Rpcs> extends infer E
+  ? E extends { readonly _tag: infer Tag extends string }
+    ? Tag
+    : never
+  : never;
+
+/**
+ * The failures of the middleware of the procedures, which `Rpc.ErrorExit` leaves out.
+ *
+ * @internal
+ */
+type MiddlewareFailure<Rpcs extends Rpc.Any> =
+  Rpcs extends Rpc.Rpc<infer _Tag, infer _Payload, infer _Success, infer _Error, infer Middleware>
+    ? Middleware extends { readonly failure: { readonly Type: infer E } }
+      ? E
+      : never
+    : never;
+
+/**
+ * Assigns HTTP status codes to the outcomes of the procedures.
+ *
+ * The body of the response doesn't change, so the client still decodes the typed failure,
+ * but proxies, logs and monitors see the failure in the status code.
+ * If several procedures are sent in one HTTP request, the first of them (in the order they were sent)
+ * that has a mapped failure decides the status and headers.
+ * For failures, the mapping takes precedence over a status set through the {@link ResponseContext}.
+ *
+ * @template Rpcs - The procedures of the group, used to check the `_tag`s of the failures.
+ *
+ * @example
+ * ```typescript
+ * const handler = createRPCHandler(router, implementations, {
+ *   serviceLayers: UserService.Default,
+ *   errorMapping: {
+ *     tags: {
+ *       UserNotFound: 404,
+ *       RateLimited: { status: 429, headers: { 'retry-after': '60' } },
+ *     },
+ *   },
+ * });
+ * ```
+ *
+ * @since 0.9.0
+ */
+export type ErrorMappingConfig<Rpcs extends Rpc.Any = Rpc.Any> = {
+  /**
+   * The mapping of the typed failures of the procedures, by `_tag`.
+   * Failures without a mapping are sent with the status `200`.
+   */
+  readonly tags?: { readonly [Tag in FailureTag<Rpcs>]?: ErrorMapping };
+  /**
+   * The mapping of requests whose payload doesn't match the payload schema of the procedure.
+   * Defaults to `400`.
+   */
+  readonly decodeFailure?: ErrorMapping;
+  /**
+   * The mapping of defects, i.e. unexpected errors of the implementations or the server.
+   * Defaults to `500`.
+   */
+  readonly defect?: ErrorMapping;
+};
+
+/**
+ * How much a server handler reveals about defects to the client.
+ *
+ * - `development`: defects are sent to the client as they are, which helps debugging.
+ * - `production`: defects are replaced with an opaque {@link InternalError} carrying a correlation ID.
+ *   The full `Cause` is logged on the server, annotated with the same correlation ID.
+ *
+ * @since 0.9.0
+ */
+export type HandlerMode = 'development' | 'production';
+
+/**
+ * The {@link HandlerMode} used if none is configured:
+ * `production` if `NODE_ENV` is `production`, `development` otherwise.
+ *
+ * @internal
+ */
+export const defaultHandlerMode = (): HandlerMode =>
+  (globalThis as { process?: { env?: Record<string, string | undefined> } }).process?.env?.[
+    'NODE_ENV'
+  ] === 'production'
+    ? 'production'
+    : 'development';
+
+/**
+ * The defect sent to the client in place of the actual defect, if the handler runs in `production` mode.
+ * The `correlationId` is also logged on the server together with the full `Cause`, so the two can be matched.
+ *
+ * On the client, it arrives as a defect like any other. Use {@link InternalError.fromDefect} to read it.
+ *
+ * @example
+ * ```typescript
+ * sayHello({ name: 'Ben' }).pipe(
+ *   Effect.catchAllDefect((defect) =>
+ *     Option.match(InternalError.fromDefect(defect), {
+ *       onNone: () => Effect.die(defect),
+ *       onSome: ({ correlationId }) => Effect.succeed(`Something went wrong (${correlationId})`),
+ *     }),
+ *   ),
+ * );
+ * ```
+ *
+ * @since 0.9.0
+ */
+export class InternalError extends Schema.TaggedError<InternalError>()('InternalError', {
+  message: Schema.String,
+  correlationId: Schema.String,
+}) {
+  /**
+   * Reads the {@link InternalError} from a defect received by the client, if it is one.
+   */
+  static fromDefect(defect: unknown): Option.Option<InternalError> {
+    if (defect instanceof InternalError) return Option.some(defect);
+    // Defects are decoded as an `Error` whose `cause` is the encoded defect
+    return decodeInternalError(defect instanceof Error ? defect.cause : defect);
+  }
+}
+
+/**
+ * @internal
+ */
+const decodeInternalError = Schema.decodeUnknownOption(InternalError);
+
+/**
+ * Encodes an {@link InternalError} to be sent to the client as a defect.
+ *
+ * @internal
+ */
+export const encodeInternalError = Schema.encodeSync(InternalError);
+
+/**
+ * Creates an {@link InternalError} with a new correlation ID.
+ *
+ * @internal
+ */
+export const makeInternalError = (): InternalError => {
+  const correlationId = crypto.randomUUID();
+  return new InternalError({
+    message: `Internal server error (correlation ID: ${correlationId})`,
+    correlationId,
+  });
+};
+
+/**
+ * Replaces a failure containing defects with an {@link InternalError}, after logging the full `Cause`.
+ * Typed failures and interruptions are kept.
+ *
+ * @internal
+ */
+export const sanitizeDefects =
+  (procedure: string) =>
+  <A, E, R>(effect: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+    Effect.catchAllCause(effect, (cause) => {
+      if (!Cause.isDie(cause)) return Effect.failCause(cause);
+      const error = makeInternalError();
+      return Effect.logError(`Defect in "${procedure}"`, cause).pipe(
+        Effect.annotateLogs({ correlationId: error.correlationId }),
+        Effect.zipRight(Effect.die(error)),
+      );
+    });
+
+/**
+ * A single problem with the payload of a request, see {@link InvalidPayload}.
+ *
+ * @since 0.9.0
+ */
+export const PayloadIssue = Schema.Struct({
+  /**
+   * The path to the invalid field, e.g. `['address', 'zip']`. Empty if the payload itself is invalid.
+   */
+  path: Schema.Array(Schema.Union(Schema.String, Schema.Number)),
+  /**
+   * The type that was expected at the path, e.g. `NonEmptyString`.
+   */
+  expected: Schema.String,
+  /**
+   * A message describing the problem, including custom messages of the schema.
+   */
+  message: Schema.String,
+});
+
+/**
+ * @since 0.9.0
+ */
+export type PayloadIssue = typeof PayloadIssue.Type;
+
+/**
+ * The error a request fails with if its payload doesn't match the payload schema of the procedure.
+ *
+ * It is part of the failure type of every request made through the library (e.g. with `useRPCRequest`),
+ * whether the payload is rejected by the client before it is sent, or by the server.
+ * The `issues` list every invalid field, so they can be shown next to the fields of a form.
+ *
+ * @example
+ * ```typescript
+ * sayHello({ name: '' }).pipe(
+ *   Effect.catchTag('InvalidPayload', (error) =>
+ *     Effect.succeed(
+ *       Object.fromEntries(error.issues.map((issue) => [issue.path.join('.'), issue.message])),
+ *     ),
+ *   ),
+ * );
+ * ```
+ *
+ * @since 0.9.0
+ */
+export class InvalidPayload extends Schema.TaggedError<InvalidPayload>()('InvalidPayload', {
+  message: Schema.String,
+  issues: Schema.Array(PayloadIssue),
+}) {}
+
+/**
+ * Creates an {@link InvalidPayload} from the `ParseError` of decoding the payload of a procedure.
+ *
+ * @internal
+ */
+export const makeInvalidPayload = (procedure: string, error: ParseError): InvalidPayload =>
+  new InvalidPayload({
+    message: `Invalid payload for "${procedure}"`,
+    issues: collectIssues(error.issue, []),
+  });
+
+/**
+ * Collects the leaves of a `ParseIssue` tree, together with their path and expected type.
+ *
+ * @internal
+ */
+const collectIssues = (
+  issue: ParseIssue,
+  path: ReadonlyArray<string | number>,
+): Array<PayloadIssue> => {
+  switch (issue._tag) {
+    case 'Pointer': {
+      const keys = Array.isArray(issue.path) ? issue.path : [issue.path];
+      return collectIssues(
+        issue.issue,
+        path.concat(keys.map((key) => (typeof key === 'number' ? key : String(key)))),
+      );
+    }
+    case 'Composite':
+      return Array.isArray(issue.issues)
+        ? issue.issues.flatMap((issue: ParseIssue) => collectIssues(issue, path))
+        : collectIssues(issue.issues as ParseIssue, path);
+    case 'Refinement':
+      if (issue.kind === 'From') return collectIssues(issue.issue, path);
+      break;
+    case 'Transformation':
+      if (issue.kind !== 'Transformation') return collectIssues(issue.issue, path);
+      break;
+  }
+  return [
+    {
+      path,
+      expected: 'ast' in issue ? String(issue.ast) : 'never',
+      message: ArrayFormatter.formatIssueSync(issue)[0]?.message ?? 'Invalid value',
+    },
+  ];
+};
+
+/**
+ * @internal
+ */
+const encodeInvalidPayload = Schema.encodeSync(InvalidPayload);
+
+/**
+ * Creates a function that decodes the payload of a request with the payload schema of its procedure.
+ * If the payload is invalid, it returns the response failing the request with an {@link InvalidPayload},
+ * and records the rejected request in the {@link RpcMetrics}.
+ *
+ * Payloads that can't be decoded synchronously, or requests for unknown procedures,
+ * are left to the RPC server.
+ *
+ * @internal
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const makePayloadValidator = (router: RpcGroup.RpcGroup<any>) => {
+  const decoders = new Map<string, (payload: unknown) => Either.Either<unknown, ParseError>>();
+  return (message: RequestEncoded): Option.Option<FromServerEncoded> => {
+    const rpc = router.requests.get(message.tag) as Rpc.AnyWithProps | undefined;
+    if (rpc === undefined) return Option.none();
+    let decode = decoders.get(message.tag);
+    if (decode === undefined) {
+      decode = Schema.decodeUnknownEither(rpc.payloadSchema as Schema.Schema<unknown, unknown>);
+      decoders.set(message.tag, decode);
+    }
+    const result = decode(message.payload);
+    if (Either.isRight(result) || result.left.issue._tag === 'Forbidden') return Option.none();
+    return Option.some(
+      rejectPayload(rpc, String(message.id), makeInvalidPayload(message.tag, result.left)),
+    );
+  };
+};
+
+/**
+ * The response failing a request with an {@link InvalidPayload}. The rejected request is recorded
+ * in the {@link RpcMetrics}.
+ *
+ * @internal
+ */
+export const rejectPayload = (
+  rpc: Rpc.AnyWithProps,
+  requestId: string,
+  error: InvalidPayload,
+): FromServerEncoded => {
+  Effect.runSync(recordRejection(rpc, error));
+  return {
+    _tag: 'Exit',
+    requestId,
+    exit: {
+      _tag: 'Failure',
+      cause: {
+        _tag: 'Fail',
+        error: encodeInvalidPayload(error),
+      },
+    },
+  };
+};
@@ -1,5 +1,29 @@
-import { RpcClient, RpcGroup, RpcSerialization } from '@effect/rpc';
-import { Effect, Layer } from 'effect';
+import { Cookies, Headers, HttpServerRequest } from '@effect/platform';
+import { Rpc, RpcClient, RpcGroup, RpcSchema, RpcSerialization } from '@effect/rpc';
+import {
+  Effect,
+  Either,
+  FiberRef,
+  Layer,
+  Mailbox,
+  Option,
+  Schema,
+  SchemaAST,
+  Stream,
+} from 'effect';
+import { isParseError } from 'effect/ParseResult';
+import {
+  ConnectionRequest,
+  RequestContext,
+  ResponseContext,
+  type RequestTransport,
+} from './context';
+import { InvalidPayload, makeInvalidPayload } from './errors';
+import { ResponseSlot, type ResponseOperation } from './http';
+import { logRequest, type LoggingPolicy } from './logging';
+import { getQuery } from './query';
+import { isReplaySafe } from './sse';
+import { traceRequest } from './tracing';
 
 /**
  * Type representing a serialization layer for RPC communication.
@@ -9,6 +33,56 @@ import { Effect, Layer } from 'effect';
  */
 export type SerializationLayer = Layer.Layer<RpcSerialization.RpcSerialization, never, never>;
 
+/**
+ * Headers passing information about a request from {@link makeRPCRequest} to the client protocol.
+ * They are removed by the client protocol, and never sent to the server.
+ *
+ * - `GROUP_HEADER`: the tag of the group of the request, which the JSON-RPC protocol prefixes the `method` with.
+ * - `QUERY_HEADER`: set if the procedure is a query, which the HTTP protocol sends with `GET`.
+ * - `STREAM_HEADER`: set if the procedure is a stream, which the WebSocket protocol resubscribes after a reconnection.
+ *   Its value is `replay` if the stream is marked with {@link withReplay}, which the `sse` protocol reads from
+ *   an event stream, `1` otherwise.
+ *
+ * @internal
+ */
+export const GROUP_HEADER = 'x-effect-rpc-group';
+export const QUERY_HEADER = 'x-effect-rpc-query';
+export const STREAM_HEADER = 'x-effect-rpc-stream';
+
+/**
+ * Checks whether the headers set by {@link makeRPCRequest} mark a stream as safe to replay, see {@link withReplay}.
+ *
+ * @internal
+ */
+export const isReplayableStream = (headers: ReadonlyArray<[string, string]>): boolean =>
+  headers.some(([name, value]) => name === STREAM_HEADER && value === 'replay');
+
+/**
+ * Removes the headers set by {@link makeRPCRequest} for the client protocol from the headers of a request.
+ *
+ * @internal
+ */
+export const withoutInternalHeaders = (
+  headers: ReadonlyArray<[string, string]>,
+): Array<[string, string]> =>
+  headers.filter(
+    ([name]) => name !== GROUP_HEADER && name !== QUERY_HEADER && name !== STREAM_HEADER,
+  );
+
+/**
+ * The client a request is sent by. {@link makeRPCRequest} creates a client per request, so a protocol shared by
+ * the clients of a runtime (such as the WebSocket protocol) can pass the responses of a request to its client
+ * only, e.g. to fail a single request when the connection is lost.
+ *
+ * @internal
+ */
+export const currentClientId = FiberRef.unsafeMake<number | undefined>(undefined);
+
+/**
+ * @internal
+ */
+let nextClientId = 0;
+
 /**
  * Infers the client type for a given RPC group.
  *
@@ -16,14 +90,55 @@ export type SerializationLayer = Layer.Layer<RpcSerialization.RpcSerialization,
  */
 export type InferClient<T> = T extends RpcGroup.RpcGroup<infer R> ? RpcClient.RpcClient<R> : never;
 
+/**
+ * The `Stream` returned by the client of a streaming procedure (declared with `stream: true`),
+ * or `never` if the procedure isn't streaming.
+ *
+ * @internal
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type ClientStream<F> = F extends (...args: any) => infer R
+  ? // Effects are also Streams, so they're excluded explicitly
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    Exclude<Extract<R, Stream.Stream<any, any, any>>, Effect.Effect<any, any, any>>
+  : never;
+
+/**
+ * The Effect performing a request of an RPC group, or the Stream of its elements for a streaming procedure
+ * (declared with `stream: true`).
+ *
+ * Besides the requirements of the request itself, it requires the client middleware of the group
+ * (middleware declared with `requiredForClient`), so a runtime missing one of them is a type error.
+ * It can also fail with an {@link InvalidPayload} if the payload doesn't match the payload schema.
+ *
+ * @template T - The type of the RPC group.
+ * @template K - The name of the request within the group.
+ *
+ * @since 0.9.0
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type RPCRequest<T extends RpcGroup.RpcGroup<any>, K extends keyof InferClient<T>> = [
+  ClientStream<InferClient<T>[K]>,
+] extends [never]
+  ? ReturnType<InferClient<T>[K]> extends Effect.Effect<infer A, infer E, infer R>
+    ? Effect.Effect<A, E | InvalidPayload, R | Rpc.MiddlewareClient<RpcGroup.Rpcs<T>>>
+    : ReturnType<InferClient<T>[K]>
+  : ClientStream<InferClient<T>[K]> extends Stream.Stream<infer A, infer E, infer R>
+    ? Stream.Stream<A, E | InvalidPayload, R | Rpc.MiddlewareClient<RpcGroup.Rpcs<T>>>
+    : never;
+
 /**
  * Makes a request for a specific request within a given RPC group.
  * It builds up the request and executes it, returning the response.
  *
  * Reusable function for the client and the server.
  *
+ * The request is logged according to the {@link LoggingPolicy} of the runtime, unless a policy is given.
+ * It is traced in a client span named after the group and the procedure, whose trace is continued by the server.
+ *
  * @param rpcGroup - The RPC group to get the client from.
  * @param requestName - The name of the request to get the client for.
+ * @param options - (Optional) The name of the group in the logs and spans, and a logging policy used in place of the one of the runtime.
  * @returns A function that takes the request payload and returns the response.
  */
 export function makeRPCRequest<
@@ -33,16 +148,292 @@ export function makeRPCRequest<
 >(
   rpcGroup: T,
   requestName: K,
-): (payload: Parameters<InferClient<T>[K]>[0]) => ReturnType<InferClient<T>[K]> {
+  options: { readonly group?: string; readonly logging?: LoggingPolicy } = {},
+): (payload: Parameters<InferClient<T>[K]>[0]) => RPCRequest<T, K> {
+  const rpc = rpcGroup.requests.get(String(requestName)) as Rpc.AnyWithProps | undefined;
+  const isStream = rpc !== undefined && RpcSchema.isStreamSchema(rpc.successSchema);
+  const headers = {
+    ...(options.group !== undefined ? { [GROUP_HEADER]: options.group } : {}),
+    ...(rpc !== undefined && Option.isSome(getQuery(rpc)) ? { [QUERY_HEADER]: '1' } : {}),
+    ...(isStream ? { [STREAM_HEADER]: isReplaySafe(rpc) ? 'replay' : '1' } : {}),
+  };
+
   return (payload: Parameters<InferClient<T>[K]>[0]) => {
-    const program = Effect.gen(function* () {
-      const client = yield* RpcClient.make(rpcGroup);
-      const req = client[requestName];
-      const res = yield* req(payload);
-      yield* Effect.log(`Response from ${String(requestName)}:`, res);
-      return res;
-    }).pipe(Effect.scoped) as ReturnType<InferClient<T>[K]>;
-
-    return program;
+    const request = Effect.gen(function* () {
+      yield* validatePayload(rpcGroup, String(requestName), payload);
+      // The request is traced by the span below, which is propagated through the `traceparent` header
+      const client = yield* RpcClient.make(withInvalidPayload(rpcGroup), { disableTracing: true });
+      const req = client[requestName] as unknown as (
+        payload: unknown,
+        options: { readonly headers: Headers.Input },
+      ) => Effect.Effect<unknown, unknown> | Stream.Stream<unknown, unknown>;
+      return req(payload, { headers });
+    });
+    const observe = <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+      effect.pipe(
+        (effect) => Effect.suspend(() => Effect.locally(effect, currentClientId, nextClientId++)),
+        traceRequest({
+          procedure: String(requestName),
+          group: options.group,
+          rpc,
+          payload,
+          kind: 'client',
+        }),
+        logRequest(
+          { procedure: String(requestName), group: options.group, payload },
+          options.logging,
+        ),
+      );
+
+    // The client of a stream lives as long as the stream is consumed
+    return (
+      isStream
+        ? observeStream(
+            Stream.unwrapScoped(request as Effect.Effect<Stream.Stream<unknown, unknown>, unknown>),
+            observe,
+          )
+        : observe(
+            Effect.scoped(
+              Effect.flatten(request as Effect.Effect<Effect.Effect<unknown, unknown>>),
+            ),
+          )
+    ) as RPCRequest<T, K>;
   };
 }
+
+/**
+ * The number of elements of a stream that are buffered by {@link observeStream}.
+ *
+ * @internal
+ */
+const STREAM_BUFFER_SIZE = 16;
+
+/**
+ * Applies the combinators observing the requests (e.g. their tracing, logging and metrics) to a stream.
+ *
+ * The stream is run by an Effect that offers its elements to a bounded buffer, so the combinators see the
+ * whole lifetime of the stream, from its first pull until it ends, fails or is interrupted. As the buffer is
+ * bounded, a slow consumer slows down the stream, and interrupting the consumer interrupts the stream.
+ *
+ * @internal
+ */
+export const observeStream = <A, E, R, E2, R2>(
+  stream: Stream.Stream<A, E, R>,
+  observe: (effect: Effect.Effect<void, E, R>) => Effect.Effect<void, E2, R2>,
+): Stream.Stream<A, E2, R2> =>
+  Stream.unwrapScoped(
+    Effect.gen(function* () {
+      const mailbox = yield* Mailbox.make<A, E2>({
+        capacity: STREAM_BUFFER_SIZE,
+        strategy: 'suspend',
+      });
+      yield* Stream.runForEachChunk(stream, (chunk) => mailbox.offerAll(chunk)).pipe(
+        observe,
+        Effect.exit,
+        Effect.flatMap((exit) => mailbox.done(exit)),
+        Effect.forkScoped,
+      );
+      return Mailbox.toStream(mailbox);
+    }),
+  );
+
+/**
+ * The groups with {@link InvalidPayload} added to the failures of their procedures, by the original group.
+ *
+ * @internal
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const groupsWithInvalidPayload = new WeakMap<RpcGroup.RpcGroup<any>, RpcGroup.RpcGroup<any>>();
+
+/**
+ * Adds {@link InvalidPayload} to the failures of every procedure of a group, so the client can decode
+ * the failure sent by the server if it rejects a payload.
+ *
+ * @internal
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const withInvalidPayload = <T extends RpcGroup.RpcGroup<any>>(rpcGroup: T): T => {
+  let group = groupsWithInvalidPayload.get(rpcGroup);
+  if (group === undefined) {
+    const rpcs = Array.from(rpcGroup.requests.values(), (rpc) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const withProps = rpc as Rpc.Rpc<string, Rpc.AnySchema, Schema.Schema.Any, any>;
+      return withProps.setError(Schema.Union(withProps.errorSchema, InvalidPayload));
+    });
+    group = RpcGroup.make(...rpcs).annotateContext(rpcGroup.annotations);
+    groupsWithInvalidPayload.set(rpcGroup, group);
+  }
+  return group as T;
+};
+
+/**
+ * Checks the payload against the payload schema of the procedure before it is sent,
+ * failing with an {@link InvalidPayload} instead of the defect the client would die with.
+ *
+ * @internal
+ */
+const validatePayload = (
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  rpcGroup: RpcGroup.RpcGroup<any>,
+  requestName: string,
+  payload: unknown,
+): Effect.Effect<void, InvalidPayload> => {
+  const schema = rpcGroup.requests.get(requestName)?.payloadSchema as
+    | { make?: (payload: unknown) => unknown }
+    | undefined;
+  if (typeof schema?.make !== 'function') return Effect.void;
+  try {
+    schema.make(payload);
+    return Effect.void;
+  } catch (error) {
+    return isParseError(error)
+      ? Effect.fail(makeInvalidPayload(requestName, error))
+      : Effect.die(error);
+  }
+};
+
+/**
+ * Builds the {@link RequestContext} for an RPC request.
+ *
+ * @param rpcHeaders - The headers the client attached to the RPC call.
+ * @param transport - The transport the request was received through.
+ * @param trustProxy - The number of proxies whose `x-forwarded-for` header is trusted, see {@link forwardedAddress}.
+ *
+ * @internal
+ */
+export const makeRequestContext = (
+  rpcHeaders: Headers.Headers,
+  transport: RequestTransport,
+  trustProxy = 0,
+): Effect.Effect<RequestContext['Type']> =>
+  Effect.map(
+    Effect.all([
+      Effect.serviceOption(HttpServerRequest.HttpServerRequest),
+      Effect.serviceOption(ConnectionRequest),
+    ]),
+    ([request, connection]) => {
+      if (Option.isNone(request)) {
+        return RequestContext.of({
+          transport,
+          method: Option.none(),
+          url: Option.flatMap(connection, ({ url }) => url),
+          headers: rpcHeaders,
+          cookies: Cookies.parseHeader(rpcHeaders['cookie'] ?? ''),
+          remoteAddress: Option.flatMap(connection, ({ remoteAddress }) => remoteAddress),
+        });
+      }
+
+      const headers = Headers.merge(rpcHeaders, request.value.headers);
+      return RequestContext.of({
+        transport,
+        method: Option.some(request.value.method),
+        url: HttpServerRequest.toURL(request.value),
+        headers,
+        cookies: request.value.cookies,
+        // Only the headers of the HTTP request can come from a proxy
+        remoteAddress: Option.orElse(
+          forwardedAddress(request.value.headers, trustProxy),
+          () => request.value.remoteAddress,
+        ),
+      });
+    },
+  );
+
+/**
+ * Reads the address of the caller from the `x-forwarded-for` header of a request that went through
+ * `trustProxy` trusted proxies. Every proxy appends the address it received the request from, so the caller
+ * is the rightmost address that wasn't appended by a trusted proxy. The addresses to its left are set by
+ * the caller, and are ignored.
+ *
+ * @internal
+ */
+export const forwardedAddress = (
+  headers: Headers.Headers,
+  trustProxy: number,
+): Option.Option<string> => {
+  if (trustProxy <= 0) return Option.none();
+  const hops = (headers['x-forwarded-for'] ?? '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter((hop) => hop.length > 0);
+  // Fewer addresses than trusted proxies means the request didn't go through all of them
+  return Option.fromNullable(
+    hops.length >= trustProxy ? hops[hops.length - trustProxy] : undefined,
+  );
+};
+
+/**
+ * Builds the {@link ResponseContext} for an RPC request.
+ *
+ * The changes are recorded in the `ResponseSlot` provided by the HTTP protocol.
+ * Without it (e.g., for the local transport), the changes are validated but ignored.
+ *
+ * @internal
+ */
+export const makeResponseContext: Effect.Effect<ResponseContext['Type']> = Effect.map(
+  Effect.serviceOption(ResponseSlot),
+  (slot) => {
+    const record = (operation: ResponseOperation) =>
+      Effect.sync(() => {
+        if (Option.isSome(slot)) {
+          slot.value.record(operation);
+        }
+      });
+
+    const setCookie = (name: string, value: string, options?: Cookies.Cookie['options']) =>
+      Either.match(Cookies.makeCookie(name, value, options), {
+        onLeft: (error) => Effect.fail(error),
+        onRight: (cookie) => record({ _tag: 'SetCookie', cookie }),
+      });
+
+    return ResponseContext.of({
+      setHeader: (name, value) => record({ _tag: 'SetHeader', name, value }),
+      appendHeader: (name, value) => record({ _tag: 'AppendHeader', name, value }),
+      removeHeader: (name) => record({ _tag: 'RemoveHeader', name }),
+      setCookie: (name, value, options) => setCookie(name, value, options),
+      deleteCookie: (name, options) =>
+        Effect.orDie(setCookie(name, '', { ...options, expires: new Date(0), maxAge: 0 })),
+      setStatus: (status) => record({ _tag: 'SetStatus', status }),
+    });
+  },
+);
+
+/**
+ * Whether the encoded payload of a procedure has a `_tag`, like the payload of a `Schema.TaggedRequest`.
+ *
+ * @internal
+ */
+export const hasPayloadTag = (rpc: Rpc.AnyWithProps): boolean => {
+  const encoded = SchemaAST.encodedAST(rpc.payloadSchema.ast);
+  return (
+    SchemaAST.isTypeLiteral(encoded) &&
+    encoded.propertySignatures.some((property) => property.name === '_tag')
+  );
+};
+
+/**
+ * The first typed failure of an encoded `Cause`, or else its first defect.
+ *
+ * @internal
+ */
+export const firstFailure = (
+  cause: Schema.CauseEncoded<unknown, unknown>,
+):
+  | { readonly _tag: 'Fail'; readonly error: unknown }
+  | { readonly _tag: 'Die'; readonly defect: unknown }
+  | undefined => {
+  switch (cause._tag) {
+    case 'Fail':
+      return { _tag: 'Fail', error: cause.error };
+    case 'Die':
+      return { _tag: 'Die', defect: cause.defect };
+    case 'Sequential':
+    case 'Parallel': {
+      const left = firstFailure(cause.left);
+      const right = firstFailure(cause.right);
+      return left?._tag === 'Fail' ? left : right?._tag === 'Fail' ? right : (left ?? right);
+    }
+    default:
+      return undefined;
+  }
+};
@@ -0,0 +1,78 @@
+import { Rpc, RpcGroup } from '@effect/rpc';
+import { Effect, Layer, Schema } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { ResponseContext } from './context';
+import { createRPCHandler } from './server';
+
+const router = RpcGroup.make(
+  Rpc.make('Write', { payload: { value: Schema.String, delay: Schema.Number } }),
+  Rpc.make('Logout'),
+  Rpc.make('Spoof'),
+);
+
+const handler = createRPCHandler(
+  router,
+  {
+    Write: ({ value, delay }) =>
+      Effect.gen(function* () {
+        yield* Effect.sleep(delay);
+        const response = yield* ResponseContext;
+        yield* response.setHeader('x-value', value);
+        yield* response.appendHeader('x-values', value);
+        yield* Effect.orDie(response.setCookie('last', value));
+      }),
+    Logout: () => Effect.flatMap(ResponseContext, (response) => response.deleteCookie('session')),
+    Spoof: () =>
+      Effect.gen(function* () {
+        const response = yield* ResponseContext;
+        yield* response.setHeader('Content-Type', 'text/html');
+        yield* response.removeHeader('content-type');
+        yield* response.setHeader('transfer-encoding', 'gzip');
+      }),
+  },
+  { serviceLayers: Layer.empty },
+);
+
+/**
+ * Sends the requests in one HTTP request, as NDJSON.
+ */
+const batch = (...requests: ReadonlyArray<{ readonly tag: string; readonly payload?: unknown }>) =>
+  handler(
+    new Request('http://localhost/rpc', {
+      method: 'POST',
+      body: requests
+        .map(
+          ({ tag, payload }, index) =>
+            `${JSON.stringify({ _tag: 'Request', id: String(index), tag, payload, headers: [] })}\n`,
+        )
+        .join(''),
+    }),
+  );
+
+describe('ResponseContext', () => {
+  it('applies the changes of the procedures of a batch in the order they were sent', async () => {
+    // The first procedure completes last, but its changes are applied first
+    const response = await batch(
+      { tag: 'Write', payload: { value: 'first', delay: 50 } },
+      { tag: 'Write', payload: { value: 'second', delay: 0 } },
+    );
+    expect(response.status).toBe(200);
+    expect(response.headers.get('x-value')).toBe('second');
+    expect(response.headers.get('x-values')).toBe('first, second');
+    expect(response.headers.getSetCookie()).toEqual(['last=second']);
+  });
+
+  it('deletes a cookie with an expiration date in the past', async () => {
+    const response = await batch({ tag: 'Logout' });
+    const [cookie] = response.headers.getSetCookie();
+    expect(cookie).toMatch(/^session=; /);
+    expect(cookie).toMatch(/Max-Age=0/);
+  });
+
+  it("doesn't let procedures change the headers owned by the protocol", async () => {
+    const response = await batch({ tag: 'Spoof' });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/ndjson');
+    expect(response.headers.get('transfer-encoding')).toBeNull();
+  });
+});
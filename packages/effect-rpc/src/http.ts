@@ -0,0 +1,526 @@
+import { Cookies, Headers, HttpServerRequest, HttpServerResponse } from '@effect/platform';
+import { type RpcGroup, RpcSerialization, RpcServer } from '@effect/rpc';
+import {
+  constEof,
+  ResponseDefectEncoded,
+  type FromClientEncoded,
+  type FromServerEncoded,
+} from '@effect/rpc/RpcMessage';
+import { Cause, Context, Effect, Either, Exit, Mailbox, Option, type Schema, Stream } from 'effect';
+import {
+  encodeInternalError,
+  InternalError,
+  makeInternalError,
+  makePayloadValidator,
+  rejectPayload,
+  type ErrorMapping,
+  type ErrorMappingConfig,
+  type HandlerMode,
+} from './errors';
+import { findQuery, getQuery, makeETag, makeQueryRequest, matchesETag } from './query';
+import {
+  acceptsEventStream,
+  EVENT_STREAM_CONTENT_TYPE,
+  findEventStream,
+  makeEventEncoder,
+  parseLastEventId,
+} from './sse';
+
+/**
+ * A change to the HTTP response made by a request implementation through the {@link ResponseContext}.
+ *
+ * @internal
+ */
+export type ResponseOperation =
+  | { readonly _tag: 'SetHeader'; readonly name: string; readonly value: string }
+  | { readonly _tag: 'AppendHeader'; readonly name: string; readonly value: string }
+  | { readonly _tag: 'RemoveHeader'; readonly name: string }
+  | { readonly _tag: 'SetCookie'; readonly cookie: Cookies.Cookie }
+  | { readonly _tag: 'SetStatus'; readonly status: number };
+
+/**
+ * Collects the {@link ResponseOperation}s of a single RPC request within an HTTP request.
+ * It is provided by the HTTP protocol for every RPC request it receives.
+ *
+ * @internal
+ */
+export class ResponseSlot extends Context.Tag('effect-rpc/ResponseSlot')<
+  ResponseSlot,
+  { readonly record: (operation: ResponseOperation) => void }
+>() {}
+
+/**
+ * Headers that are owned by the protocol and can't be changed by request implementations.
+ *
+ * @internal
+ */
+const PROTOCOL_HEADERS = new Set(['content-type', 'content-length', 'transfer-encoding']);
+
+/**
+ * Collects the response operations of all RPC requests in an HTTP request.
+ * Each RPC request records into its own slot, so the operations can be applied in the order
+ * the RPC requests were sent, regardless of the order in which they complete.
+ *
+ * @internal
+ */
+const makeResponseCollector = () => {
+  const slots: Array<Array<ResponseOperation>> = [];
+  let committed = false;
+
+  return {
+    slot(index: number): ResponseSlot['Type'] {
+      const operations: Array<ResponseOperation> = [];
+      slots[index] = operations;
+      return {
+        record: (operation) => {
+          if (!committed) {
+            operations.push(operation);
+          }
+        },
+      };
+    },
+    commit(
+      response: HttpServerResponse.HttpServerResponse,
+      errorMapping: ErrorMapping | undefined,
+    ) {
+      committed = true;
+      let headers = response.headers;
+      let cookies = response.cookies;
+      let status = response.status;
+
+      const mapping: ReadonlyArray<ResponseOperation> =
+        errorMapping === undefined
+          ? []
+          : typeof errorMapping === 'number'
+            ? [{ _tag: 'SetStatus', status: errorMapping }]
+            : [
+                ...Object.entries(errorMapping.headers ?? {}).map(
+                  ([name, value]): ResponseOperation => ({ _tag: 'SetHeader', name, value }),
+                ),
+                { _tag: 'SetStatus', status: errorMapping.status },
+              ];
+
+      for (const operation of [...slots.flat(), ...mapping]) {
+        switch (operation._tag) {
+          case 'SetHeader':
+          case 'AppendHeader':
+          case 'RemoveHeader': {
+            const name = operation.name.toLowerCase();
+            if (PROTOCOL_HEADERS.has(name)) break;
+            if (operation._tag === 'RemoveHeader') {
+              headers = Headers.remove(headers, name);
+            } else if (operation._tag === 'AppendHeader' && headers[name] !== undefined) {
+              headers = Headers.set(headers, name, `${headers[name]}, ${operation.value}`);
+            } else {
+              headers = Headers.set(headers, name, operation.value);
+            }
+            break;
+          }
+          case 'SetCookie': {
+            cookies = Cookies.setCookie(cookies, operation.cookie);
+            break;
+          }
+          case 'SetStatus': {
+            // A `304 Not Modified` tells the client to use its cached response, which has no other status
+            if (response.status !== 304) status = operation.status;
+            break;
+          }
+        }
+      }
+
+      return HttpServerResponse.setStatus(
+        HttpServerResponse.setHeaders(
+          HttpServerResponse.updateCookies(response, () => cookies),
+          headers,
+        ),
+        status,
+      );
+    },
+  };
+};
+
+/**
+ * Returns the `_tag` of the first typed failure in an encoded `Cause`,
+ * or `Die` if it only contains defects.
+ *
+ * @internal
+ */
+const failureTag = (cause: Schema.CauseEncoded<unknown, unknown>): string | undefined => {
+  switch (cause._tag) {
+    case 'Fail': {
+      const error = cause.error;
+      return typeof error === 'object' && error !== null && '_tag' in error
+        ? String(error._tag)
+        : undefined;
+    }
+    case 'Die':
+      return 'Die';
+    case 'Sequential':
+    case 'Parallel': {
+      const left = failureTag(cause.left);
+      const right = failureTag(cause.right);
+      return left !== undefined && left !== 'Die' ? left : (right ?? left);
+    }
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Checks whether an encoded `Cause` contains a defect.
+ *
+ * @internal
+ */
+const containsDefect = (cause: Schema.CauseEncoded<unknown, unknown>): boolean =>
+  cause._tag === 'Die' ||
+  ((cause._tag === 'Sequential' || cause._tag === 'Parallel') &&
+    (containsDefect(cause.left) || containsDefect(cause.right)));
+
+/**
+ * Replaces the defects in a message to the client with an {@link InternalError}.
+ * Defects that are already an {@link InternalError} were logged with their full `Cause` when they were
+ * created, other defects (e.g., of middleware or of the encoding of a response) are logged here.
+ *
+ * @internal
+ */
+export const sanitizeResponse = (response: FromServerEncoded): Effect.Effect<FromServerEncoded> => {
+  const replace = (defect: unknown) => {
+    if (defect instanceof InternalError) return Effect.succeed(encodeInternalError(defect));
+    const error = makeInternalError();
+    return Effect.logError('Defect', Cause.die(defect)).pipe(
+      Effect.annotateLogs({ correlationId: error.correlationId }),
+      Effect.as(encodeInternalError(error)),
+    );
+  };
+
+  if (response._tag === 'Defect') {
+    return Effect.map(replace(response.defect), (defect) => ({ ...response, defect }));
+  }
+  if (
+    response._tag === 'Exit' &&
+    response.exit._tag === 'Failure' &&
+    containsDefect(response.exit.cause)
+  ) {
+    return Effect.map(replace(response.exit.cause), (defect) => ({
+      ...response,
+      exit: { _tag: 'Failure', cause: { _tag: 'Die', defect } },
+    }));
+  }
+  return Effect.succeed(response);
+};
+
+/**
+ * Creates the HTTP protocol of the RPC server, together with the `HttpApp` serving it.
+ *
+ * This is similar to the protocol used by `RpcServer.toWebHandler`, but instead of sending the
+ * response headers right away, the response is held back until every RPC request in the HTTP request
+ * has produced its first message (its result, or the first chunk of a stream). This way request
+ * implementations can still change the headers, cookies and status of the response.
+ *
+ * Every HTTP request is handled as a separate client of the RPC server.
+ * Payloads are decoded before they are passed to the server, so invalid payloads are answered with an
+ * {@link InvalidPayload} failure, and can be told apart from defects when the status code of the response
+ * is chosen (see {@link ErrorMappingConfig}).
+ * In `production` mode, defects are replaced with an {@link InternalError} before they are sent (see {@link HandlerMode}).
+ *
+ * Streamed responses are backpressured: the messages waiting to be sent to a client are bounded, so a stream
+ * is paused while the client doesn't read its response, and interrupted if the client goes away.
+ *
+ * Unless `queries` is `false`, procedures marked with {@link withQuery} can also be sent with `GET`. Their response
+ * is buffered, so it can be sent with an `ETag`, or with `304 Not Modified` if the client already has it.
+ *
+ * Unless `eventStreams` is `false`, streaming procedures marked with {@link withReplay} can also be sent with `GET`
+ * by clients accepting `text/event-stream`, with the same query string as queries. Their elements are sent as
+ * an event stream, which is resumed after the `Last-Event-ID` of the request if it is a reconnection
+ * (see {@link makeEventEncoder}). Other streams are answered with `405`, like other procedures sent with `GET`.
+ *
+ * @internal
+ */
+export const makeHttpProtocol = (
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  router: RpcGroup.RpcGroup<any>,
+  options: {
+    readonly errorMapping?: ErrorMappingConfig | undefined;
+    readonly mode: HandlerMode;
+    readonly queries?: boolean | undefined;
+    readonly eventStreams?: boolean | undefined;
+  },
+) =>
+  Effect.gen(function* () {
+    const serialization = yield* RpcSerialization.RpcSerialization;
+    const validatePayload = makePayloadValidator(router);
+    const decodeFailureMapping = options.errorMapping?.decodeFailure ?? 400;
+    const defectMapping = options.errorMapping?.defect ?? 500;
+    const tagMappings: Readonly<Record<string, ErrorMapping | undefined>> =
+      options.errorMapping?.tags ?? {};
+    const includesFraming = serialization.includesFraming;
+    const disconnects = yield* Mailbox.make<number>();
+    const encoder = new TextEncoder();
+    const capacity = 16;
+
+    let writeRequest!: (clientId: number, data: FromClientEncoded) => Effect.Effect<void>;
+    let clientId = 0;
+    const clients = new Map<number, Mailbox.Mailbox<FromServerEncoded>>();
+
+    const httpApp = Effect.gen(function* () {
+      const request = yield* HttpServerRequest.HttpServerRequest;
+      // Only queries and event streams can be sent with `GET`, with the procedure and the payload in the query string
+      const eventStream =
+        request.method === 'GET' &&
+        options.eventStreams !== false &&
+        acceptsEventStream(request.headers['accept'])
+          ? findEventStream(router, request.url)
+          : Option.none();
+      const query =
+        request.method === 'GET' && Option.isNone(eventStream) && options.queries !== false
+          ? findQuery(router, request.url)
+          : Option.none();
+      const get = Option.orElse(query, () => eventStream);
+      if (request.method === 'GET' && Option.isNone(get)) {
+        return HttpServerResponse.empty({ status: 405, headers: { allow: 'POST' } });
+      }
+      const data = Option.isNone(get) ? yield* Effect.orDie(request.arrayBuffer) : undefined;
+      const id = clientId++;
+      const mailbox = yield* Mailbox.make<FromServerEncoded>({ capacity, strategy: 'suspend' });
+      const parser = serialization.unsafeMake();
+      const collector = makeResponseCollector();
+      clients.set(id, mailbox);
+
+      const pending = new Set<string>();
+      const requestIds: Array<string> = [];
+      const decodeFailures = new Set<string>();
+      // Messages answered by the protocol itself, which aren't offered to the bounded mailbox,
+      // as nothing takes from it until all messages are written to the server
+      const answered: Array<FromServerEncoded> = [];
+      let messages: ReadonlyArray<FromClientEncoded> = [];
+      try {
+        messages = Option.match(get, {
+          onNone: () => parser.decode(new Uint8Array(data!)) as ReadonlyArray<FromClientEncoded>,
+          onSome: ({ rpc, params }) =>
+            Either.match(makeQueryRequest(rpc, params), {
+              onRight: (message) => [message],
+              // A payload that isn't valid JSON is answered like any other invalid payload
+              onLeft: (error) => {
+                pending.add('0');
+                requestIds.push('0');
+                decodeFailures.add('0');
+                answered.push(rejectPayload(rpc, '0', error));
+                return [];
+              },
+            }),
+        });
+      } catch (cause) {
+        answered.push(ResponseDefectEncoded(cause));
+      }
+      // Middleware only sees the headers of the RPC message, so the headers of the HTTP request
+      // (e.g. `authorization` or `cookie`) are merged into them, taking precedence
+      const httpHeaders = Object.entries(request.headers);
+      for (const [index, message] of messages.entries()) {
+        if (message._tag === 'Request') {
+          const requestId = String(message.id);
+          pending.add(requestId);
+          requestIds.push(requestId);
+
+          // Answer invalid payloads right away with an `InvalidPayload` failure
+          const invalid = validatePayload(message);
+          if (Option.isSome(invalid)) {
+            decodeFailures.add(requestId);
+            answered.push(invalid.value);
+            continue;
+          }
+        }
+        const withHeaders =
+          message._tag === 'Request'
+            ? { ...message, headers: [...message.headers, ...httpHeaders] }
+            : message;
+        yield* writeRequest(id, withHeaders).pipe(
+          Effect.provideService(ResponseSlot, collector.slot(index)),
+        );
+      }
+      yield* writeRequest(id, constEof);
+
+      // Interrupt the RPC requests that are still running if the HTTP request is interrupted
+      const running = requestIds.filter((requestId) => !decodeFailures.has(requestId));
+      let handedOff = false;
+      let done = false;
+      const cleanup = (interrupted: boolean) =>
+        Effect.suspend(() => {
+          clients.delete(id);
+          disconnects.unsafeOffer(id);
+          if (done || !interrupted) return Effect.void;
+          return Effect.forEach(
+            running,
+            (requestId) => writeRequest(id, { _tag: 'Interrupt', requestId }),
+            { discard: true },
+          ).pipe(Effect.zipRight(mailbox.shutdown));
+        });
+      yield* Effect.addFinalizer(() => (handedOff ? Effect.void : cleanup(true)));
+
+      // Hold back the response until every RPC request has produced its first message,
+      // or until all messages are sent if the response isn't streamed
+      const isStreamed = Option.isSome(eventStream) || (includesFraming && Option.isNone(query));
+      const buffered: Array<FromServerEncoded> = [];
+      const firstMessages = new Map<string, FromServerEncoded>();
+      let defect = false;
+      const receive = (item: FromServerEncoded) => {
+        buffered.push(item);
+        if ('requestId' in item) {
+          pending.delete(item.requestId);
+          if (!firstMessages.has(item.requestId)) {
+            firstMessages.set(item.requestId, item);
+          }
+        } else if (item._tag === 'Defect') {
+          pending.clear();
+          defect = true;
+        }
+      };
+      answered.forEach(receive);
+      while (!done && (!isStreamed || pending.size > 0)) {
+        const [items, isDone] = yield* mailbox.takeAll;
+        for (const item of items) {
+          receive(item);
+        }
+        done = isDone;
+      }
+
+      // The first request (in the order they were sent) with a mapped failure decides the status
+      const errorMapping = (): ErrorMapping | undefined => {
+        if (defect) return defectMapping;
+        for (const requestId of requestIds) {
+          if (decodeFailures.has(requestId)) return decodeFailureMapping;
+          const message = firstMessages.get(requestId);
+          if (message?._tag !== 'Exit' || message.exit._tag !== 'Failure') continue;
+          const tag = failureTag(message.exit.cause);
+          const mapping =
+            tag === 'Die' ? defectMapping : tag !== undefined ? tagMappings[tag] : undefined;
+          if (mapping !== undefined) return mapping;
+        }
+        return undefined;
+      };
+
+      const encode = (message: FromServerEncoded): Uint8Array | undefined => {
+        let encoded: string | Uint8Array | undefined;
+        try {
+          encoded = parser.encode(message);
+        } catch (cause) {
+          encoded = parser.encode(ResponseDefectEncoded(cause));
+        }
+        return typeof encoded === 'string' ? encoder.encode(encoded) : encoded;
+      };
+
+      // Streams the messages that are not buffered yet, encoded by `encode`
+      const streamBody = (encode: (message: FromServerEncoded) => Uint8Array | undefined) => {
+        const head = Stream.fromIterable(buffered);
+        const tail = done ? Stream.empty : Mailbox.toStream(mailbox);
+        handedOff = true;
+        return Stream.concat(head, tail).pipe(
+          Stream.filterMap((message) => Option.fromNullable(encode(message))),
+          Stream.ensuringWith((exit) => cleanup(Exit.isInterrupted(exit))),
+        );
+      };
+
+      if (Option.isSome(eventStream)) {
+        const encodeEvent = makeEventEncoder(parseLastEventId(request.headers['last-event-id']));
+        const body = streamBody((message) => {
+          let encoded: string | undefined;
+          try {
+            encoded = encodeEvent(message);
+          } catch (cause) {
+            encoded = encodeEvent(ResponseDefectEncoded(cause));
+          }
+          return encoded === undefined ? undefined : encoder.encode(encoded);
+        });
+        return collector.commit(
+          HttpServerResponse.stream(body, {
+            contentType: EVENT_STREAM_CONTENT_TYPE,
+            headers: Headers.fromInput({ 'cache-control': 'no-cache' }),
+          }),
+          errorMapping(),
+        );
+      }
+
+      if (Option.isSome(query)) {
+        const body = includesFraming
+          ? concatBytes(buffered.flatMap((message) => encode(message) ?? []))
+          : toBytes(parser.encode(buffered));
+        let response = HttpServerResponse.uint8Array(body, {
+          contentType: serialization.contentType,
+        });
+        // Only successful responses are cached
+        const first = firstMessages.get(requestIds[0] ?? '');
+        if (!defect && first?._tag === 'Exit' && first.exit._tag === 'Success') {
+          const etag = yield* makeETag(body);
+          const cacheControl = Option.getOrThrow(getQuery(query.value.rpc)).cacheControl;
+          if (matchesETag(request.headers['if-none-match'], etag)) {
+            response = HttpServerResponse.empty({ status: 304 });
+          }
+          response = HttpServerResponse.setHeaders(response, {
+            'cache-control': cacheControl,
+            etag,
+          });
+        }
+        return collector.commit(response, errorMapping());
+      }
+
+      if (!includesFraming) {
+        const encoded = parser.encode(buffered);
+        return collector.commit(
+          typeof encoded === 'string' || encoded === undefined
+            ? HttpServerResponse.text(encoded ?? '', { contentType: serialization.contentType })
+            : HttpServerResponse.uint8Array(encoded, { contentType: serialization.contentType }),
+          errorMapping(),
+        );
+      }
+
+      return collector.commit(
+        HttpServerResponse.stream(streamBody(encode), { contentType: serialization.contentType }),
+        errorMapping(),
+      );
+    }).pipe(Effect.interruptible);
+
+    const protocol = yield* RpcServer.Protocol.make((writeRequest_) => {
+      writeRequest = writeRequest_;
+      return Effect.succeed({
+        disconnects,
+        send: (clientId: number, response: FromServerEncoded) => {
+          const mailbox = clients.get(clientId);
+          if (!mailbox) return Effect.void;
+          return options.mode === 'production'
+            ? Effect.flatMap(sanitizeResponse(response), (response) =>
+                Effect.asVoid(mailbox.offer(response)),
+              )
+            : Effect.asVoid(mailbox.offer(response));
+        },
+        end: (clientId: number) => {
+          const mailbox = clients.get(clientId);
+          return mailbox ? Effect.asVoid(mailbox.end) : Effect.void;
+        },
+        clientIds: Effect.sync(() => clients.keys()),
+        initialMessage: Effect.succeedNone,
+        supportsAck: false,
+        supportsTransferables: false,
+        supportsSpanPropagation: false,
+      });
+    });
+
+    return { protocol, httpApp };
+  });
+
+/**
+ * @internal
+ */
+const toBytes = (encoded: string | Uint8Array | undefined): Uint8Array =>
+  typeof encoded === 'string' ? new TextEncoder().encode(encoded) : (encoded ?? new Uint8Array());
+
+/**
+ * @internal
+ */
+const concatBytes = (chunks: ReadonlyArray<Uint8Array>): Uint8Array => {
+  const bytes = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+};
@@ -0,0 +1,74 @@
+import { Rpc, RpcGroup, RpcMiddleware } from '@effect/rpc';
+import { Schema } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { Unauthorized } from './auth';
+import { Policy, withPolicy } from './policy';
+import { createRpcGroupRegistry } from './registry';
+
+class Auth extends RpcMiddleware.Tag<Auth>()('Auth', { failure: Unauthorized }) {}
+
+class NotFound extends Schema.TaggedError<NotFound>()('NotFound', {}) {}
+
+const Upload = Schema.declare((input: unknown): input is Blob => input instanceof Blob);
+
+const usersRouter = RpcGroup.make(
+  withPolicy(
+    Rpc.make('GetUser', {
+      payload: Schema.Struct({ id: Schema.String }).annotations({
+        title: 'Get a user',
+        description: 'Finds a user by id',
+      }),
+      success: Schema.String,
+      error: NotFound,
+    }),
+    Policy.roles('admin'),
+  ),
+  Rpc.make('SetAvatar', { payload: { image: Upload } }),
+).middleware(Auth);
+
+const introspect = (authorize: () => boolean | Promise<boolean>) =>
+  createRpcGroupRegistry()
+    .registerGroup('users', usersRouter)
+    .createIntrospectionHandler({ authorize })(new Request('http://localhost/rpc/manifest'));
+
+describe('RpcGroupRegistry.createIntrospectionHandler', () => {
+  it('answers requests that are not authorized with 404', async () => {
+    const response = await introspect(async () => false);
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'Not found' });
+  });
+
+  it('describes the procedures of every group', async () => {
+    const response = await introspect(() => true);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('cache-control')).toBe('no-store');
+
+    const manifest = await response.json();
+    expect(Object.keys(manifest.groups)).toEqual(['users']);
+    expect(Object.keys(manifest.groups.users.procedures)).toEqual(['GetUser', 'SetAvatar']);
+    expect(manifest.groups.users.procedures.GetUser).toMatchObject({
+      payload: {
+        type: 'object',
+        required: ['id'],
+        properties: { id: { type: 'string' } },
+        title: 'Get a user',
+      },
+      success: { type: 'string' },
+      failure: { anyOf: [{ $ref: '#/$defs/NotFound' }, { $ref: '#/$defs/Forbidden' }] },
+      metadata: {
+        title: 'Get a user',
+        description: 'Finds a user by id',
+        middleware: ['Auth'],
+      },
+    });
+    expect(Object.keys(manifest.groups.users.procedures.GetUser.metadata.annotations)).toEqual([
+      'effect-rpc/AuthorizationPolicy',
+    ]);
+  });
+
+  it('describes a schema without a JSON Schema representation as any value', async () => {
+    const manifest = await (await introspect(() => true)).json();
+    expect(manifest.groups.users.procedures.SetAvatar.payload).toEqual({});
+    expect(manifest.groups.users.procedures.SetAvatar.metadata.annotations).toEqual({});
+  });
+});
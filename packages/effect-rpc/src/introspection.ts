@@ -0,0 +1,171 @@
+import type { Rpc, RpcGroup } from '@effect/rpc';
+import { JSONSchema, Option, SchemaAST, type Schema } from 'effect';
+
+/**
+ * The description of a procedure in a {@link RegistryManifest}.
+ *
+ * @since 0.9.0
+ */
+export type ProcedureManifest = {
+  /**
+   * The JSON Schema of the payload.
+   */
+  readonly payload: unknown;
+  /**
+   * The JSON Schema of the success value.
+   */
+  readonly success: unknown;
+  /**
+   * The JSON Schema of the typed failures.
+   */
+  readonly failure: unknown;
+  /**
+   * The metadata of the procedure.
+   */
+  readonly metadata: {
+    /**
+     * The title and description annotations of the request schema, if any.
+     */
+    readonly title?: string;
+    readonly description?: string;
+    /**
+     * The tags of the `RpcMiddleware` applied to the procedure.
+     */
+    readonly middleware: ReadonlyArray<string>;
+    /**
+     * The annotations of the procedure (e.g. its authorization policy), by the key of their tag.
+     * Only the parts of the values that can be represented as JSON are included.
+     */
+    readonly annotations: Readonly<Record<string, unknown>>;
+  };
+};
+
+/**
+ * The JSON manifest served by the introspection route of a registry,
+ * see {@link RpcGroupRegistry.createIntrospectionHandler}.
+ *
+ * @since 0.9.0
+ */
+export type RegistryManifest = {
+  readonly groups: Readonly<
+    Record<string, { readonly procedures: Readonly<Record<string, ProcedureManifest>> }>
+  >;
+};
+
+/**
+ * Options of the introspection route of a registry.
+ *
+ * @since 0.9.0
+ */
+export type IntrospectionConfig = {
+  /**
+   * Decides whether a request may read the manifest. Requests that may not are answered with `404`,
+   * so the route can't be told apart from a missing one.
+   *
+   * @example
+   * ```typescript
+   * // only outside of production
+   * authorize: () => process.env.NODE_ENV !== 'production'
+   * ```
+   */
+  readonly authorize: (request: globalThis.Request) => boolean | Promise<boolean>;
+};
+
+/**
+ * Describes the groups of a registry.
+ *
+ * @internal
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const makeManifest = (groups: Record<string, RpcGroup.RpcGroup<any>>): RegistryManifest => ({
+  groups: Object.fromEntries(
+    Object.entries(groups).map(([tag, group]) => [
+      tag,
+      {
+        procedures: Object.fromEntries(
+          Array.from(group.requests.values(), (rpc) => [
+            rpc._tag,
+            describeProcedure(rpc as Rpc.AnyWithProps),
+          ]),
+        ),
+      },
+    ]),
+  ),
+});
+
+/**
+ * Creates the introspection route of a registry.
+ *
+ * @internal
+ */
+export const createIntrospectionHandler = (
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  groups: Record<string, RpcGroup.RpcGroup<any>>,
+  config: IntrospectionConfig,
+): ((request: globalThis.Request) => Promise<Response>) => {
+  // The groups of a registry can't change, so the manifest is only built once
+  let manifest: RegistryManifest | undefined;
+  return async (request) => {
+    if (!(await config.authorize(request))) {
+      return Response.json({ error: 'Not found' }, { status: 404 });
+    }
+    manifest ??= makeManifest(groups);
+    return Response.json(manifest, { headers: { 'cache-control': 'no-store' } });
+  };
+};
+
+/**
+ * @internal
+ */
+const describeProcedure = (rpc: Rpc.AnyWithProps): ProcedureManifest => {
+  const ast = rpc.payloadSchema.ast;
+  const title = SchemaAST.getTitleAnnotation(ast);
+  const description = SchemaAST.getDescriptionAnnotation(ast);
+  return {
+    payload: toJsonSchema(rpc.payloadSchema),
+    success: toJsonSchema(rpc.successSchema),
+    failure: toJsonSchema(rpc.errorSchema),
+    metadata: {
+      ...(Option.isSome(title) ? { title: title.value } : {}),
+      ...(Option.isSome(description) ? { description: description.value } : {}),
+      middleware: Array.from(rpc.middlewares, (middleware) => middleware.key),
+      annotations: Object.fromEntries(
+        Array.from(rpc.annotations.unsafeMap, ([key, value]) => [key, toJson(value)]).filter(
+          ([, value]) => value !== undefined,
+        ),
+      ),
+    },
+  };
+};
+
+/**
+ * The JSON Schema of a schema, or an empty schema (allowing any value) if it has no JSON Schema representation,
+ * e.g. a `Schema.declare` without a `jsonSchema` annotation.
+ *
+ * @internal
+ */
+export const toJsonSchema = (schema: Schema.Schema.All): unknown => {
+  try {
+    return JSONSchema.make(schema as Schema.Schema<unknown, unknown>);
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Keeps the parts of a value that can be represented as JSON, dropping functions and symbols.
+ *
+ * @internal
+ */
+const toJson = (value: unknown): unknown => {
+  if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) return value;
+  if (Array.isArray(value)) return value.map(toJson).filter((item) => item !== undefined);
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .map(([key, field]) => [key, toJson(field)] as const)
+        .filter(([, field]) => field !== undefined),
+    );
+  }
+  return undefined;
+};
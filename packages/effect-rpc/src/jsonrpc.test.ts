@@ -0,0 +1,113 @@
+import { FetchHttpClient } from '@effect/platform';
+import { Rpc, RpcGroup } from '@effect/rpc';
+import { Chunk, Effect, Layer, Schema, Stream } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { useRPCRequest } from './client';
+import { createEffectRPC } from './runtime';
+import { createRPCHandler, type RPCHandler } from './server';
+
+class TooMany extends Schema.TaggedError<TooMany>()('TooMany', { max: Schema.Number }) {}
+
+const router = RpcGroup.make(
+  Rpc.make('Count', {
+    payload: { n: Schema.Number },
+    success: Schema.Number,
+    error: TooMany,
+    stream: true,
+  }),
+  Rpc.make('Echo', { payload: { text: Schema.String }, success: Schema.String }),
+);
+
+const handler = createRPCHandler(
+  router,
+  {
+    Count: ({ n }) => (n > 10 ? Stream.fail(new TooMany({ max: 10 })) : Stream.range(1, n)),
+    Echo: ({ text }) => Effect.succeed(text),
+  },
+  { serviceLayers: Layer.empty, protocol: 'json-rpc' },
+);
+
+/**
+ * Runs an effect with a JSON-RPC client whose requests are served by the handler.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const runClient = <A, E>(handler: RPCHandler, effect: Effect.Effect<A, E, any>) =>
+  Effect.runPromise(
+    effect.pipe(
+      Effect.provide(createEffectRPC({ url: 'http://localhost/rpc', protocol: 'json-rpc' })),
+      Effect.provideService(FetchHttpClient.Fetch, (input, init) =>
+        handler(new Request(input, init)),
+      ),
+    ) as Effect.Effect<A, E>,
+  );
+
+/**
+ * Sends a JSON-RPC body to the handler as it is.
+ */
+const post = (body: unknown) =>
+  handler(
+    new Request('http://localhost/rpc', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    }),
+  );
+
+describe('json-rpc protocol', () => {
+  it('passes the elements of a stream to the client', async () => {
+    const count = useRPCRequest(router, 'Count');
+    expect(Chunk.toArray(await runClient(handler, Stream.runCollect(count({ n: 3 }))))).toEqual([
+      1, 2, 3,
+    ]);
+    expect(Chunk.toArray(await runClient(handler, Stream.runCollect(count({ n: 0 }))))).toEqual([]);
+  });
+
+  it('fails a stream with its typed failure', async () => {
+    const count = useRPCRequest(router, 'Count');
+    const result = await runClient(handler, Effect.either(Stream.runCollect(count({ n: 11 }))));
+    expect(result).toMatchObject({ _tag: 'Left', left: { _tag: 'TooMany', max: 10 } });
+  });
+
+  it('answers the streams of a body with all of their elements', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 1, method: 'Count', params: { n: 2 } });
+    expect(await response.json()).toEqual({ jsonrpc: '2.0', id: 1, result: [1, 2] });
+  });
+
+  it('answers a batch in order, without the notifications', async () => {
+    const response = await post([
+      { jsonrpc: '2.0', id: 'a', method: 'Echo', params: { text: 'hi' } },
+      { jsonrpc: '2.0', method: 'Echo', params: { text: 'ignored' } },
+      { jsonrpc: '2.0', id: 'b', method: 'Missing' },
+      { jsonrpc: '2.0', id: 'c', method: 'Echo', params: { text: 1 } },
+      { id: 'd' },
+    ]);
+    expect(await response.json()).toEqual([
+      { jsonrpc: '2.0', id: 'a', result: 'hi' },
+      { jsonrpc: '2.0', id: 'b', error: { code: -32601, message: 'Method not found' } },
+      {
+        jsonrpc: '2.0',
+        id: 'c',
+        error: expect.objectContaining({
+          code: -32602,
+          data: expect.objectContaining({ _tag: 'InvalidPayload' }),
+        }),
+      },
+      { jsonrpc: '2.0', id: 'd', error: expect.objectContaining({ code: -32600 }) },
+    ]);
+  });
+
+  it('runs notifications without answering them', async () => {
+    const response = await post([
+      { jsonrpc: '2.0', method: 'Echo', params: { text: 'a' } },
+      { jsonrpc: '2.0', method: 'Missing' },
+    ]);
+    expect(await response.text()).toBe('');
+  });
+
+  it('answers invalid bodies with a parse error or an invalid request', async () => {
+    const parseError = await post('{');
+    expect(await parseError.json()).toMatchObject({ id: null, error: { code: -32700 } });
+    const emptyBatch = await post([]);
+    expect(await emptyBatch.json()).toMatchObject({ id: null, error: { code: -32600 } });
+  });
+});
@@ -0,0 +1,446 @@
+import { HttpBody, HttpClient, HttpClientRequest } from '@effect/platform';
+import {
+  type Rpc,
+  RpcClient,
+  RpcClientError,
+  type RpcGroup,
+  RpcSchema,
+  RpcSerialization,
+} from '@effect/rpc';
+import type { FromServerEncoded, RequestEncoded } from '@effect/rpc/RpcMessage';
+import { Effect, Layer, type Schema } from 'effect';
+import {
+  firstFailure,
+  GROUP_HEADER,
+  hasPayloadTag,
+  type SerializationLayer,
+  STREAM_HEADER,
+  withoutInternalHeaders,
+} from './helpers';
+import { getGroupTag } from './tracing';
+
+/**
+ * The protocol spoken between the client and the handler.
+ *
+ * - `http`: the protocol of `@effect/rpc`, using the configured serialization (NDJSON by default).
+ * - `json-rpc`: [JSON-RPC 2.0](https://www.jsonrpc.org/specification) over HTTP, for clients that aren't written
+ *   with Effect. The `method` of a request is the name of the procedure, optionally prefixed with the tag of
+ *   its group in a registry (e.g. `hello.SayHelloReq`), and its `params` are the encoded payload.
+ *
+ * @since 0.9.0
+ */
+export type RpcProtocol = 'http' | 'json-rpc';
+
+/**
+ * The error codes of the JSON-RPC protocol.
+ *
+ * Typed failures of a procedure are answered with `ServerError`, and an {@link InvalidPayload} with `InvalidParams`.
+ * In both cases, the `data` of the error is the encoded failure, e.g. `{ "_tag": "UserNotFound", ... }`.
+ * Defects are answered with `InternalError`, whose `data` is the encoded defect, or the {@link InternalError}
+ * that replaces it in `production` mode.
+ *
+ * @since 0.9.0
+ */
+export const JsonRpcErrorCode = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  ServerError: -32000,
+} as const;
+
+/**
+ * @internal
+ */
+type JsonRpcId = string | number | null;
+
+/**
+ * @internal
+ */
+type JsonRpcError = { readonly code: number; readonly message: string; readonly data?: unknown };
+
+/**
+ * @internal
+ */
+type JsonRpcResponse =
+  | { readonly jsonrpc: '2.0'; readonly id: JsonRpcId; readonly result: unknown }
+  | { readonly jsonrpc: '2.0'; readonly id: JsonRpcId; readonly error: JsonRpcError };
+
+/**
+ * A request of the body, in the order they were sent. Requests that can't be served are answered right away.
+ *
+ * @internal
+ */
+type Entry =
+  | {
+      readonly _tag: 'Request';
+      readonly id: JsonRpcId;
+      readonly isNotification: boolean;
+      readonly requestId: string;
+      readonly rpc: Rpc.AnyWithProps;
+    }
+  | {
+      readonly _tag: 'Error';
+      readonly id: JsonRpcId;
+      readonly isNotification: boolean;
+      readonly error: JsonRpcError;
+    };
+
+/**
+ * Creates the serialization used by the handler for the `json-rpc` protocol.
+ *
+ * It translates the JSON-RPC requests of a body into messages of the RPC server, and the responses of the
+ * server back into JSON-RPC responses. As the protocol doesn't include framing, the HTTP protocol waits until
+ * every request of the body has completed, and encodes all responses at once.
+ *
+ * @internal
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const makeJsonRpcSerialization = (router: RpcGroup.RpcGroup<any>): SerializationLayer =>
+  Layer.sync(RpcSerialization.RpcSerialization, () => {
+    // Procedures are addressed by their name, or by their name prefixed with the tag of their group
+    const methods = new Map<string, Rpc.AnyWithProps>();
+    for (const rpc of router.requests.values() as Iterable<Rpc.AnyWithProps>) {
+      methods.set(rpc._tag, rpc);
+      const group = getGroupTag(rpc);
+      if (group._tag === 'Some') methods.set(`${group.value}.${rpc._tag}`, rpc);
+    }
+
+    return RpcSerialization.RpcSerialization.of({
+      contentType: 'application/json',
+      includesFraming: false,
+      unsafeMake: () => makeServerParser(methods),
+    });
+  });
+
+/**
+ * @internal
+ */
+const makeServerParser = (methods: ReadonlyMap<string, Rpc.AnyWithProps>) => {
+  const decoder = new TextDecoder();
+  const entries: Array<Entry> = [];
+  let isBatch = false;
+  let isParseError = false;
+
+  return {
+    decode: (data: Uint8Array | string): ReadonlyArray<unknown> => {
+      let body: unknown;
+      try {
+        body = JSON.parse(typeof data === 'string' ? data : decoder.decode(data));
+      } catch (cause) {
+        // The HTTP protocol answers the body with a defect, which is encoded as a parse error
+        isParseError = true;
+        throw cause;
+      }
+
+      isBatch = Array.isArray(body);
+      const elements: ReadonlyArray<unknown> = Array.isArray(body) ? body : [body];
+      if (elements.length === 0) {
+        isBatch = false;
+        entries.push(invalidRequest(null));
+      }
+
+      const messages: Array<RequestEncoded> = [];
+      for (const element of elements) {
+        if (!isRequest(element)) {
+          const id = isRecord(element) && isId(element['id']) ? element['id'] : null;
+          entries.push(invalidRequest(id));
+          continue;
+        }
+        const id = element.id ?? null;
+        const isNotification = !('id' in element);
+        const rpc = methods.get(element.method);
+        if (rpc === undefined) {
+          entries.push({
+            _tag: 'Error',
+            id,
+            isNotification,
+            error: { code: JsonRpcErrorCode.MethodNotFound, message: 'Method not found' },
+          });
+          continue;
+        }
+
+        // The server identifies requests by a sequential ID, the IDs of the client are restored when encoding
+        const requestId = String(messages.length);
+        entries.push({ _tag: 'Request', id, isNotification, requestId, rpc });
+        messages.push({
+          _tag: 'Request',
+          id: requestId,
+          tag: rpc._tag,
+          payload: toPayload(rpc, element.params),
+          headers: [],
+        });
+      }
+      return messages;
+    },
+
+    encode: (messages: unknown): string | undefined => {
+      if (isParseError) {
+        return JSON.stringify(
+          errorResponse(null, { code: JsonRpcErrorCode.ParseError, message: 'Parse error' }),
+        );
+      }
+
+      const chunks = new Map<string, Array<unknown>>();
+      const exits = new Map<string, Schema.ExitEncoded<unknown, unknown, unknown>>();
+      let defect: unknown;
+      for (const message of messages as ReadonlyArray<FromServerEncoded>) {
+        if (message._tag === 'Chunk') {
+          chunks.set(message.requestId, [
+            ...(chunks.get(message.requestId) ?? []),
+            ...message.values,
+          ]);
+        } else if (message._tag === 'Exit') {
+          exits.set(message.requestId, message.exit);
+        } else if (message._tag === 'Defect') {
+          defect = message.defect;
+        }
+      }
+
+      const responses = entries.flatMap((entry): Array<JsonRpcResponse> => {
+        // Notifications are never answered, not even with an error
+        if (entry.isNotification) return [];
+        if (entry._tag === 'Error') return [errorResponse(entry.id, entry.error)];
+        const exit = exits.get(entry.requestId);
+        if (exit === undefined) {
+          return [
+            errorResponse(entry.id, {
+              code: JsonRpcErrorCode.InternalError,
+              message: 'Internal error',
+              data: defect,
+            }),
+          ];
+        }
+        if (exit._tag === 'Success') {
+          // Streams are answered with all of their elements
+          const result = RpcSchema.isStreamSchema(entry.rpc.successSchema)
+            ? (chunks.get(entry.requestId) ?? [])
+            : exit.value;
+          return [{ jsonrpc: '2.0', id: entry.id, result: result ?? null }];
+        }
+        return [errorResponse(entry.id, fromCause(exit.cause))];
+      });
+
+      if (responses.length === 0) return undefined;
+      return JSON.stringify(isBatch ? responses : responses[0]);
+    },
+  };
+};
+
+/**
+ * The JSON-RPC error of a failed request.
+ *
+ * @internal
+ */
+const fromCause = (cause: Schema.CauseEncoded<unknown, unknown>): JsonRpcError => {
+  const failure = firstFailure(cause);
+  if (failure?._tag === 'Fail') {
+    const error = failure.error;
+    const tag = isRecord(error) && typeof error['_tag'] === 'string' ? error['_tag'] : undefined;
+    if (tag === 'InvalidPayload') {
+      return { code: JsonRpcErrorCode.InvalidParams, message: 'Invalid params', data: error };
+    }
+    const message = isRecord(error) && typeof error['message'] === 'string' ? error['message'] : '';
+    return {
+      code: JsonRpcErrorCode.ServerError,
+      message: message || tag || 'Server error',
+      data: error,
+    };
+  }
+  return {
+    code: JsonRpcErrorCode.InternalError,
+    message: 'Internal error',
+    ...(failure?._tag === 'Die' ? { data: failure.defect } : {}),
+  };
+};
+
+/**
+ * The payload of a procedure from the `params` of a request. The `_tag` of a `Schema.TaggedRequest`
+ * is implied by the method, and a missing `params` stands for an empty struct.
+ *
+ * @internal
+ */
+const toPayload = (rpc: Rpc.AnyWithProps, params: unknown): unknown => {
+  const isTagged = hasPayloadTag(rpc);
+  if (params === undefined) return isTagged ? { _tag: rpc._tag } : {};
+  return isTagged && isRecord(params) ? { ...params, _tag: rpc._tag } : params;
+};
+
+/**
+ * @internal
+ */
+const errorResponse = (id: JsonRpcId, error: JsonRpcError): JsonRpcResponse => ({
+  jsonrpc: '2.0',
+  id,
+  error,
+});
+
+/**
+ * @internal
+ */
+const invalidRequest = (id: JsonRpcId): Entry => ({
+  _tag: 'Error',
+  id,
+  isNotification: false,
+  error: { code: JsonRpcErrorCode.InvalidRequest, message: 'Invalid Request' },
+});
+
+/**
+ * @internal
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * @internal
+ */
+const isId = (value: unknown): value is JsonRpcId =>
+  value === null || typeof value === 'string' || typeof value === 'number';
+
+/**
+ * @internal
+ */
+const isRequest = (
+  value: unknown,
+): value is { jsonrpc: '2.0'; method: string; params?: unknown; id?: JsonRpcId } =>
+  isRecord(value) &&
+  value['jsonrpc'] === '2.0' &&
+  typeof value['method'] === 'string' &&
+  (!('id' in value) || isId(value['id'])) &&
+  (value['params'] === undefined || typeof value['params'] === 'object');
+
+/**
+ * Creates the client protocol speaking JSON-RPC to a handler using the `json-rpc` protocol.
+ *
+ * Every request is sent in its own HTTP request, with the headers of the request as HTTP headers.
+ * Typed failures are restored from the `data` of the error, other errors are turned into defects.
+ *
+ * @internal
+ */
+export const layerJsonRpcProtocol = (
+  url: string,
+): Layer.Layer<RpcClient.Protocol, never, HttpClient.HttpClient> =>
+  Layer.scoped(
+    RpcClient.Protocol,
+    Effect.flatMap(HttpClient.HttpClient, (client) =>
+      makeJsonRpcProtocol(HttpClient.mapRequest(client, HttpClientRequest.prependUrl(url))),
+    ),
+  );
+
+/**
+ * @internal
+ */
+const makeJsonRpcProtocol = (client: HttpClient.HttpClient) =>
+  RpcClient.Protocol.make((writeResponse) =>
+    Effect.succeed({
+      send: (request) => {
+        if (request._tag !== 'Request') return Effect.void;
+
+        const group = request.headers.find(([name]) => name === GROUP_HEADER)?.[1];
+        const body = {
+          jsonrpc: '2.0',
+          method: group !== undefined ? `${group}.${request.tag}` : request.tag,
+          params: request.payload,
+          id: request.id,
+        };
+        return client
+          .post('', {
+            body: HttpBody.unsafeJson(body),
+            headers: withoutInternalHeaders(request.headers),
+          })
+          .pipe(
+            Effect.flatMap((response) => response.json),
+            Effect.flatMap((response) =>
+              isRecord(response) && response['jsonrpc'] === '2.0'
+                ? Effect.succeed(
+                    fromJsonRpcResponse(
+                      request.id,
+                      response,
+                      request.headers.some(([name]) => name === STREAM_HEADER),
+                    ),
+                  )
+                : Effect.fail(`Expected a JSON-RPC response, but got: ${JSON.stringify(response)}`),
+            ),
+            Effect.mapError(
+              (cause) =>
+                new RpcClientError.RpcClientError({
+                  reason: 'Protocol',
+                  message: 'Failed to send HTTP request',
+                  cause,
+                }),
+            ),
+            Effect.flatMap((responses) =>
+              Effect.forEach(responses, writeResponse, { discard: true }),
+            ),
+          );
+      },
+      supportsAck: false,
+      supportsTransferables: false,
+    }),
+  );
+
+/**
+ * The responses of the RPC server for a JSON-RPC response. The `result` of a stream holds all of its elements,
+ * which are passed as a chunk before the end of the stream.
+ *
+ * @internal
+ */
+const fromJsonRpcResponse = (
+  requestId: string,
+  response: Record<string, unknown>,
+  isStream: boolean,
+): ReadonlyArray<FromServerEncoded> => {
+  if ('result' in response) {
+    const result = response['result'];
+    if (!isStream) {
+      return [{ _tag: 'Exit', requestId, exit: { _tag: 'Success', value: result } }];
+    }
+    if (!Array.isArray(result)) {
+      return [
+        {
+          _tag: 'Exit',
+          requestId,
+          exit: {
+            _tag: 'Failure',
+            cause: {
+              _tag: 'Die',
+              defect: `Expected the elements of a stream, but got: ${JSON.stringify(result)}`,
+            },
+          },
+        },
+      ];
+    }
+    const end: FromServerEncoded = {
+      _tag: 'Exit',
+      requestId,
+      exit: { _tag: 'Success', value: undefined },
+    };
+    return isNonEmpty(result) ? [{ _tag: 'Chunk', requestId, values: result }, end] : [end];
+  }
+  const error = isRecord(response['error']) ? response['error'] : {};
+  const defect = 'data' in error ? error['data'] : error['message'];
+  // An error without an ID concerns the whole body, e.g. a parse error
+  if (response['id'] === null) return [{ _tag: 'Defect', defect }];
+
+  const isFailure =
+    (error['code'] === JsonRpcErrorCode.ServerError ||
+      error['code'] === JsonRpcErrorCode.InvalidParams) &&
+    isRecord(error['data']) &&
+    typeof error['data']['_tag'] === 'string';
+  return [
+    {
+      _tag: 'Exit',
+      requestId,
+      exit: {
+        _tag: 'Failure',
+        cause: isFailure ? { _tag: 'Fail', error: error['data'] } : { _tag: 'Die', defect },
+      },
+    },
+  ];
+};
+
+/**
+ * @internal
+ */
+const isNonEmpty = <A>(values: Array<A>): values is [A, ...Array<A>] => values.length > 0;
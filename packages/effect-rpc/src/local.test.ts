@@ -0,0 +1,74 @@
+import { Rpc, RpcGroup, RpcMiddleware } from '@effect/rpc';
+import { Effect, Layer, Schema } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { useRPCRequest } from './client';
+import { createLocalRPC } from './local';
+
+class TooLate extends Schema.TaggedError<TooLate>()('TooLate', { deadline: Schema.Date }) {}
+class Unauthorized extends Schema.TaggedError<Unauthorized>()('Unauthorized', {}) {}
+
+class Auth extends RpcMiddleware.Tag<Auth>()('Auth', { failure: Unauthorized }) {}
+
+const router = RpcGroup.make(
+  Rpc.make('Postpone', {
+    payload: { until: Schema.Date },
+    success: Schema.Date,
+    error: TooLate,
+  }),
+  Rpc.make('WhoAmI', { success: Schema.String }).middleware(Auth),
+);
+
+const deadline = new Date('2030-01-01T00:00:00.000Z');
+
+const implementations = {
+  Postpone: ({ until }: { until: Date }) =>
+    until > deadline
+      ? Effect.fail(new TooLate({ deadline }))
+      : Effect.succeed(new Date(until.getTime() + 60_000)),
+  WhoAmI: () => Effect.succeed('alice'),
+};
+
+/**
+ * Runs a request with the local protocol, whose `Auth` middleware rejects the request unless `authenticated`.
+ */
+const run = <A, E>(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  effect: Effect.Effect<A, E, any>,
+  authenticated = true,
+) =>
+  Effect.runPromise(
+    effect.pipe(
+      Effect.either,
+      Effect.provide(
+        createLocalRPC(router, implementations, {
+          serviceLayers: Layer.empty,
+          middleware: Layer.succeed(
+            Auth,
+            Auth.of(() => (authenticated ? Effect.void : Effect.fail(new Unauthorized()))),
+          ),
+        }),
+      ),
+    ) as Effect.Effect<unknown>,
+  );
+
+describe('createLocalRPC', () => {
+  it('encodes and decodes payloads, successes and failures with the schemas of the group', async () => {
+    const postpone = useRPCRequest(router, 'Postpone');
+    const success = await run(postpone({ until: new Date('2029-12-31T23:59:00.000Z') }));
+    expect(success).toMatchObject({ _tag: 'Right', right: deadline });
+    expect((success as { right: unknown }).right).toBeInstanceOf(Date);
+
+    const failure = await run(postpone({ until: new Date('2030-01-02T00:00:00.000Z') }));
+    expect(failure).toMatchObject({ _tag: 'Left', left: { _tag: 'TooLate', deadline } });
+    expect((failure as { left: unknown }).left).toBeInstanceOf(TooLate);
+  });
+
+  it('applies the middleware of the procedures', async () => {
+    const whoAmI = useRPCRequest(router, 'WhoAmI')();
+    expect(await run(whoAmI)).toMatchObject({ _tag: 'Right', right: 'alice' });
+    expect(await run(whoAmI, false)).toMatchObject({
+      _tag: 'Left',
+      left: { _tag: 'Unauthorized' },
+    });
+  });
+});
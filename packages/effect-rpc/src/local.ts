@@ -0,0 +1,181 @@
+import { Rpc, RpcClient, RpcGroup, RpcServer } from '@effect/rpc';
+import type { FromClientEncoded, FromServerEncoded } from '@effect/rpc/RpcMessage';
+import { Effect, Layer, Mailbox, Option } from 'effect';
+import { makePayloadValidator } from './errors';
+import { type InferClient, withoutInternalHeaders } from './helpers';
+import { measureMiddleware } from './metrics';
+import {
+  createRouteHandler,
+  type HandlerContext,
+  type MiddlewareConfig,
+  type RequestImplementations,
+  type RPCHandlerConfig,
+} from './server';
+import { currentTraceparent } from './tracing';
+
+/**
+ * Configuration object for the local (in-process) RPC protocol.
+ * It takes the same service, middleware and additional layers as the {@link RPCHandlerConfig}
+ * of the route handler serving the same group.
+ *
+ * @template R - The type of the environment required by the handlers.
+ * @template Rpcs - The procedures of the group, used to require the middleware of the group.
+ *
+ * @since 0.9.0
+ */
+export type LocalRPCConfig<R, Rpcs extends Rpc.Any = never> = Pick<
+  RPCHandlerConfig<R, Rpcs>,
+  'serviceLayers' | 'additionalLayers' | 'authorization'
+> &
+  MiddlewareConfig<Rpcs>;
+
+/**
+ * Creates an RPC client protocol layer that runs the request implementations in the same process.
+ *
+ * Instead of sending an HTTP request, every call is handed directly to an in-memory RPC server
+ * that serves the given group with the given implementations. Payloads, successes and failures
+ * still go through the schema encoding and decoding of the group, and `@effect/rpc` middleware
+ * is applied the same way as on the route handler, so the behavior matches the HTTP transport
+ * while skipping the network.
+ *
+ * This is useful for server components, server actions or any other code running on the server:
+ * the call sites (`makeServerRequest`, `TaggedRPCGroup.getRequest`, ...) stay the same, only the
+ * runtime they are run with changes.
+ *
+ * The service layers are built once, when the layer is built, and released with it.
+ * Client middleware of the group (`requiredForClient`) still has to be provided to the runtime,
+ * just like with {@link createEffectRPC}.
+ *
+ * @param router - The RPC router group defining all available endpoints.
+ * @param reqImplementations - An object mapping every endpoint name to its implementation. All endpoints are required.
+ * @param config - Configuration object
+ * @param config.serviceLayers - A Layer providing all dependencies required by the handlers (e.g., service implementations).
+ * @param config.middleware - A Layer providing the `RpcMiddleware` implementations of the group. Required if the group uses middleware.
+ * @param config.additionalLayers - (Optional) Additional Layer instances to merge into the environment.
+ * @param config.authorization - (Optional) How the authorization policies of the procedures are checked.
+ * @returns A Layer that provides the `RpcClient.Protocol`, to be used in place of {@link createEffectRPC}.
+ *
+ * @example
+ * ```typescript
+ * // src/lib/server-runtime.ts
+ * export const ServerRuntime = ManagedRuntime.make(
+ *   createLocalRPC(
+ *     helloRouter,
+ *     {
+ *       SayHelloReq: ({ name }) => HelloService.sayHello(name),
+ *       SayByeReq: ({ name }) => HelloService.sayBye(name),
+ *     },
+ *     { serviceLayers: HelloService.Default },
+ *   ),
+ * );
+ *
+ * // src/lib/actions.ts
+ * export async function greetUserServerSide(name: string): Promise<string> {
+ *   const request = makeServerRequest(helloRouter, 'SayHelloReq', { name });
+ *   return ServerRuntime.runPromise(request); // no HTTP request involved
+ * }
+ * ```
+ *
+ * @since 0.9.0
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function createLocalRPC<T extends RpcGroup.RpcGroup<any>, V extends InferClient<T>, R>(
+  router: T,
+  reqImplementations: RequestImplementations<T, V, HandlerContext<R, RpcGroup.Rpcs<T>>>,
+  config: LocalRPCConfig<R, RpcGroup.Rpcs<T>>,
+): Layer.Layer<RpcClient.Protocol, never, never> {
+  const middleware: Layer.Layer<never, unknown> = config.middleware ?? Layer.empty;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const additionalLayers: Layer.Layer<any, any, never>[] = config.additionalLayers ?? [];
+  const handlers = Layer.mergeAll(
+    createRouteHandler(router, reqImplementations, config.serviceLayers, {
+      authorization: config.authorization,
+      transport: 'local',
+    }),
+    middleware,
+    ...additionalLayers,
+  ).pipe(measureMiddleware(router));
+
+  return Layer.scoped(
+    RpcClient.Protocol,
+    Effect.gen(function* () {
+      const context = yield* Effect.orDie(Layer.build(handlers));
+      const { clientProtocol, serverProtocol } = yield* makeLocalProtocols(router);
+
+      // The implementations are traced by `createRouteHandler`
+      yield* RpcServer.make(router, { disableTracing: true }).pipe(
+        Effect.provideService(RpcServer.Protocol, serverProtocol),
+        Effect.provide(context),
+        Effect.interruptible,
+        Effect.forkScoped,
+      );
+
+      return clientProtocol;
+    }),
+  );
+}
+
+/**
+ * The id of the single client connected to the local server.
+ *
+ * @internal
+ */
+const LOCAL_CLIENT_ID = 0;
+
+/**
+ * Creates a pair of client and server protocols that are connected in memory.
+ * Messages are passed as their encoded representation, without any serialization to bytes.
+ * Like over HTTP, requests with an invalid payload fail with an {@link InvalidPayload}.
+ *
+ * @internal
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const makeLocalProtocols = (router: RpcGroup.RpcGroup<any>) =>
+  Effect.gen(function* () {
+    const validatePayload = makePayloadValidator(router);
+    let writeRequest!: (clientId: number, data: FromClientEncoded) => Effect.Effect<void>;
+    let writeResponse!: (data: FromServerEncoded) => Effect.Effect<void>;
+
+    const disconnects = yield* Mailbox.make<number>();
+    yield* Effect.addFinalizer(() => disconnects.offer(LOCAL_CLIENT_ID));
+
+    const serverProtocol = yield* RpcServer.Protocol.make((write) => {
+      writeRequest = write;
+      return Effect.succeed({
+        disconnects,
+        send: (_clientId, response) => writeResponse(response),
+        end: () => Effect.void,
+        clientIds: Effect.succeed([LOCAL_CLIENT_ID]),
+        initialMessage: Effect.succeedNone,
+        supportsAck: true,
+        supportsTransferables: false,
+        supportsSpanPropagation: true,
+      });
+    });
+
+    const clientProtocol = yield* RpcClient.Protocol.make((write) => {
+      writeResponse = write;
+      return Effect.succeed({
+        send: (request) => {
+          if (request._tag !== 'Request') return writeRequest(LOCAL_CLIENT_ID, request);
+          const invalid = validatePayload(request);
+          if (Option.isSome(invalid)) return writeResponse(invalid.value);
+          const headers = withoutInternalHeaders(request.headers);
+          // Like over HTTP, the server continues the trace of the client from the `traceparent` header
+          return Effect.flatMap(currentTraceparent, (traceparent) =>
+            writeRequest(LOCAL_CLIENT_ID, {
+              ...request,
+              headers:
+                Option.isSome(traceparent) && !headers.some(([name]) => name === 'traceparent')
+                  ? [...headers, ['traceparent', traceparent.value]]
+                  : headers,
+            }),
+          );
+        },
+        supportsAck: true,
+        supportsTransferables: false,
+      });
+    });
+
+    return { clientProtocol, serverProtocol };
+  });
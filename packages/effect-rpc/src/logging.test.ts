@@ -0,0 +1,143 @@
+import { Rpc, RpcGroup } from '@effect/rpc';
+import { Effect, Layer, Logger, LogLevel, Schema } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { useRPCRequest } from './client';
+import { createLocalRPC } from './local';
+import { RequestLogging, type LoggingPolicy } from './logging';
+
+class WrongPassword extends Schema.TaggedError<WrongPassword>()('WrongPassword', {
+  attempts: Schema.Number,
+}) {}
+
+const router = RpcGroup.make(
+  Rpc.make('SignIn', {
+    payload: {
+      email: Schema.String,
+      user: Schema.Struct({ email: Schema.String, password: Schema.String }),
+    },
+    success: Schema.Struct({
+      id: Schema.String,
+      session: Schema.Struct({ password: Schema.String }),
+    }),
+    error: WrongPassword,
+  }),
+);
+
+const rpc = createLocalRPC(
+  router,
+  {
+    SignIn: ({ user }) =>
+      user.password === 'secret'
+        ? Effect.succeed({ id: '1', session: { password: 'hashed' } })
+        : Effect.fail(new WrongPassword({ attempts: 1 })),
+  },
+  { serviceLayers: Layer.empty },
+);
+
+type Log = {
+  readonly level: string;
+  readonly message: unknown;
+  readonly annotations: Record<string, unknown>;
+};
+
+const signIn = (password: string) =>
+  useRPCRequest(
+    router,
+    'SignIn',
+  )({ email: 'ada@example.com', user: { email: 'ada@example.com', password } });
+
+/**
+ * Runs a request with the given logging policy, and returns what was logged.
+ */
+const logsOf = async (password: string, policy?: LoggingPolicy): Promise<ReadonlyArray<Log>> => {
+  const logs: Array<Log> = [];
+  const logger = Logger.make<unknown, void>(({ logLevel, message, annotations }) => {
+    logs.push({ level: logLevel.label, message, annotations: Object.fromEntries(annotations) });
+  });
+  await Effect.runPromise(
+    signIn(password).pipe(
+      Effect.either,
+      Effect.provide(rpc),
+      Effect.provide(policy !== undefined ? Layer.succeed(RequestLogging, policy) : Layer.empty),
+      Effect.provide(Logger.replace(Logger.defaultLogger, logger)),
+      Logger.withMinimumLogLevel(LogLevel.All),
+    ),
+  );
+  return logs;
+};
+
+describe('request logging', () => {
+  it('logs nothing by default', async () => {
+    expect(await logsOf('secret')).toEqual([]);
+    expect(await logsOf('secret', 'off')).toEqual([]);
+  });
+
+  it('logs the outcome of a request, but never its payload, in summary detail', async () => {
+    const [success] = await logsOf('secret', 'summary');
+    expect(success?.level).toBe('INFO');
+    expect(success?.message).toEqual([expect.stringMatching(/^"SignIn" succeeded in \d+ms$/)]);
+    expect(Object.keys(success?.annotations ?? {}).sort()).toEqual([
+      'durationMs',
+      'outcome',
+      'procedure',
+    ]);
+
+    const [failure] = await logsOf('wrong', 'summary');
+    expect(failure?.level).toBe('WARN');
+    expect(failure?.message).toEqual([
+      expect.stringMatching(/^"SignIn" failed with WrongPassword in \d+ms$/),
+    ]);
+    expect(failure?.annotations).toMatchObject({ outcome: 'failure', error: 'WrongPassword' });
+    expect(failure?.annotations).not.toHaveProperty('payload');
+    expect(failure?.annotations).not.toHaveProperty('failure');
+    expect(JSON.stringify(failure)).not.toContain('wrong');
+  });
+
+  it('logs the payload and the response or the failure in full detail', async () => {
+    const [success] = await logsOf('secret', 'full');
+    expect(success?.annotations).toMatchObject({
+      payload: { email: 'ada@example.com', user: { password: 'secret' } },
+      response: { id: '1', session: { password: 'hashed' } },
+    });
+
+    const [failure] = await logsOf('wrong', 'full');
+    expect(failure?.annotations).toMatchObject({ failure: { attempts: 1 } });
+  });
+
+  it('redacts fields by name at any depth, and by dotted path at that path only', async () => {
+    const [log] = await logsOf('secret', { detail: 'full', redact: ['password', 'user.email'] });
+    expect(log?.annotations['payload']).toEqual({
+      email: 'ada@example.com',
+      user: { email: '<redacted>', password: '<redacted>' },
+    });
+    expect(log?.annotations['response']).toEqual({
+      id: '1',
+      session: { password: '<redacted>' },
+    });
+  });
+
+  it('logs at the configured log levels', async () => {
+    const policy: LoggingPolicy = {
+      detail: 'summary',
+      logLevel: 'Debug',
+      failureLogLevel: 'Error',
+    };
+    expect((await logsOf('secret', policy))[0]?.level).toBe('DEBUG');
+    expect((await logsOf('wrong', policy))[0]?.level).toBe('ERROR');
+  });
+
+  it('uses the policy provided to a single request', async () => {
+    const logs: Array<unknown> = [];
+    const logger = Logger.make(({ message }) => {
+      logs.push(message);
+    });
+    await Effect.runPromise(
+      signIn('secret').pipe(
+        Effect.provideService(RequestLogging, 'summary'),
+        Effect.provide(rpc),
+        Effect.provide(Logger.replace(Logger.defaultLogger, logger)),
+      ),
+    );
+    expect(logs).toHaveLength(1);
+  });
+});
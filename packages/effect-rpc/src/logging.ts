@@ -0,0 +1,209 @@
+import { Cause, Clock, Context, Effect, Exit, LogLevel, Option } from 'effect';
+
+/**
+ * How much is logged about every request made through the library.
+ *
+ * - `off`: nothing is logged.
+ * - `summary`: the procedure, the duration and the outcome (`success`, `failure`, `defect` or `interrupted`),
+ *   together with the `_tag` of a failure. No payloads or responses are logged.
+ * - `full`: the summary, together with the payload and the response, or the failure.
+ *
+ * @since 0.9.0
+ */
+export type LogDetail = 'off' | 'summary' | 'full';
+
+/**
+ * Decides what is logged about the requests made with `useRPCRequest`, `makeServerRequest`
+ * and `TaggedRPCGroup.getRequest`.
+ *
+ * A {@link LogDetail} is a shorthand for `{ detail }`.
+ *
+ * @example
+ * ```typescript
+ * const runtime = createRuntime({
+ *   url: 'https://api.example.com',
+ *   logging: {
+ *     detail: 'full',
+ *     logLevel: 'Debug',
+ *     // `password` at any depth, `email` only inside `user`
+ *     redact: ['password', 'user.email'],
+ *   },
+ * });
+ * ```
+ *
+ * @since 0.9.0
+ */
+export type LoggingPolicy =
+  | LogDetail
+  | {
+      readonly detail: LogDetail;
+      /**
+       * The log level of successful requests. Defaults to `Info`.
+       */
+      readonly logLevel?: LogLevel.Literal;
+      /**
+       * The log level of requests that failed, died or were interrupted. Defaults to `Warning`.
+       */
+      readonly failureLogLevel?: LogLevel.Literal;
+      /**
+       * The fields replaced with `<redacted>` in the logged payloads, responses and failures.
+       * A name (e.g. `password`) matches the field at any depth,
+       * a dotted path (e.g. `user.email`) matches the field at that path only.
+       * Array items have the path of their array.
+       */
+      readonly redact?: ReadonlyArray<string>;
+    };
+
+/**
+ * The {@link LoggingPolicy} of the requests run with the current runtime. Defaults to `off`.
+ *
+ * It is provided by the `logging` option of {@link createEffectRPC} and {@link createRuntime},
+ * and can be provided to a single request as well.
+ *
+ * @example
+ * ```typescript
+ * sayHello({ name: 'Ben' }).pipe(Effect.provideService(RequestLogging, 'summary'));
+ * ```
+ *
+ * @since 0.9.0
+ */
+export class RequestLogging extends Context.Reference<RequestLogging>()(
+  'effect-rpc/RequestLogging',
+  { defaultValue: (): LoggingPolicy => 'off' },
+) {}
+
+/**
+ * Logs a request according to a {@link LoggingPolicy}, or the one of the runtime if none is given.
+ *
+ * @internal
+ */
+export const logRequest =
+  (
+    request: { readonly procedure: string; readonly group?: string; readonly payload: unknown },
+    policy: LoggingPolicy | undefined,
+  ) =>
+  <A, E, R>(effect: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+    Effect.gen(function* () {
+      const options = normalizePolicy(policy ?? (yield* RequestLogging));
+      if (options.detail === 'off') return yield* effect;
+
+      const start = yield* Clock.currentTimeMillis;
+      return yield* Effect.onExit(effect, (exit) =>
+        Effect.gen(function* () {
+          const durationMs = (yield* Clock.currentTimeMillis) - start;
+          const name = request.group ? `${request.group}.${request.procedure}` : request.procedure;
+          const outcome = exitOutcome(exit);
+          const failure = Exit.isFailure(exit) ? Cause.failureOption(exit.cause) : Option.none();
+          const errorTag = Option.flatMap(failure, failureTag);
+
+          const annotations: Record<string, unknown> = {
+            procedure: request.procedure,
+            outcome,
+            durationMs,
+          };
+          if (request.group) annotations['group'] = request.group;
+          if (Option.isSome(errorTag)) annotations['error'] = errorTag.value;
+          if (options.detail === 'full') {
+            annotations['payload'] = redactFields(request.payload, options.redact);
+            if (Exit.isSuccess(exit)) {
+              annotations['response'] = redactFields(exit.value, options.redact);
+            } else if (Option.isSome(failure)) {
+              annotations['failure'] = redactFields(failure.value, options.redact);
+            }
+          }
+
+          const message = `"${name}" ${describeOutcome(outcome, errorTag)} in ${durationMs}ms`;
+          // Defects are only logged with their cause in full detail, as they may contain any data
+          const cause =
+            options.detail === 'full' && Exit.isFailure(exit) && outcome === 'defect'
+              ? [exit.cause]
+              : [];
+          return yield* Effect.logWithLevel(
+            LogLevel.fromLiteral(Exit.isSuccess(exit) ? options.logLevel : options.failureLogLevel),
+            message,
+            ...cause,
+          ).pipe(Effect.annotateLogs(annotations));
+        }),
+      );
+    });
+
+/**
+ * @internal
+ */
+const normalizePolicy = (policy: LoggingPolicy) => {
+  const options = typeof policy === 'string' ? { detail: policy } : policy;
+  return {
+    detail: options.detail,
+    logLevel: options.logLevel ?? 'Info',
+    failureLogLevel: options.failureLogLevel ?? 'Warning',
+    redact: options.redact ?? [],
+  } satisfies LoggingPolicy;
+};
+
+/**
+ * How a request ended.
+ *
+ * @internal
+ */
+export type Outcome = 'success' | 'failure' | 'defect' | 'interrupted';
+
+/**
+ * @internal
+ */
+export const exitOutcome = (exit: Exit.Exit<unknown, unknown>): Outcome => {
+  if (Exit.isSuccess(exit)) return 'success';
+  if (Option.isSome(Cause.failureOption(exit.cause))) return 'failure';
+  return Cause.isInterruptedOnly(exit.cause) ? 'interrupted' : 'defect';
+};
+
+/**
+ * @internal
+ */
+const describeOutcome = (outcome: Outcome, errorTag: Option.Option<string>): string => {
+  switch (outcome) {
+    case 'success':
+      return 'succeeded';
+    case 'failure':
+      return Option.match(errorTag, {
+        onNone: () => 'failed',
+        onSome: (tag) => `failed with ${tag}`,
+      });
+    case 'defect':
+      return 'died';
+    case 'interrupted':
+      return 'was interrupted';
+  }
+};
+
+/**
+ * The `_tag` of a typed failure, if it has one.
+ *
+ * @internal
+ */
+export const failureTag = (error: unknown): Option.Option<string> =>
+  typeof error === 'object' && error !== null && '_tag' in error && typeof error._tag === 'string'
+    ? Option.some(error._tag)
+    : Option.none();
+
+/**
+ * Replaces the given fields of a value with `<redacted>`, see {@link LoggingPolicy}.
+ *
+ * @internal
+ */
+const redactFields = (
+  value: unknown,
+  fields: ReadonlyArray<string>,
+  path: ReadonlyArray<string> = [],
+): unknown => {
+  if (fields.length === 0 || typeof value !== 'object' || value === null) return value;
+  if (Array.isArray(value)) return value.map((item) => redactFields(item, fields, path));
+  if (value instanceof Date) return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => {
+      const fieldPath = [...path, key];
+      return fields.includes(key) || fields.includes(fieldPath.join('.'))
+        ? [key, '<redacted>']
+        : [key, redactFields(field, fields, fieldPath)];
+    }),
+  );
+};
@@ -0,0 +1,80 @@
+import { FetchHttpClient } from '@effect/platform';
+import { Rpc, RpcGroup, RpcMiddleware } from '@effect/rpc';
+import { Effect, Layer, Metric, MetricLabel, Schema } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { Unauthorized } from './auth';
+import { useRPCRequest } from './client';
+import { RpcMetrics } from './metrics';
+import { createEffectRPC } from './runtime';
+import { createRPCHandler } from './server';
+
+class Auth extends RpcMiddleware.Tag<Auth>()('Auth', { failure: Unauthorized }) {}
+
+const router = RpcGroup.make(
+  Rpc.make('Secret', { success: Schema.String }).middleware(Auth),
+  Rpc.make('Double', { payload: { n: Schema.Number }, success: Schema.Number }),
+);
+
+const handler = createRPCHandler(
+  router,
+  {
+    Secret: () => Effect.succeed('secret'),
+    Double: ({ n }) => Effect.succeed(n * 2),
+  },
+  {
+    serviceLayers: Layer.empty,
+    middleware: Layer.succeed(
+      Auth,
+      Auth.of(() => Effect.fail(new Unauthorized({ message: 'Missing token' }))),
+    ),
+  },
+);
+
+/**
+ * Runs a request of the router with a client whose requests are served by the handler.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const run = <A, E>(effect: Effect.Effect<A, E, any>) =>
+  Effect.runPromiseExit(
+    effect.pipe(
+      Effect.provide(createEffectRPC({ url: 'http://localhost/rpc' })),
+      Effect.provideService(FetchHttpClient.Fetch, (input, init) =>
+        handler(new Request(input, init)),
+      ),
+    ) as Effect.Effect<A, E>,
+  );
+
+const count = (metric: Metric.Metric.Counter<number>, labels: Record<string, string>) =>
+  Effect.runSync(
+    Metric.value(
+      Metric.taggedWithLabels(
+        metric,
+        Object.entries(labels).map(([key, value]) => MetricLabel.make(key, value)),
+      ),
+    ),
+  ).count;
+
+describe('RpcMetrics', () => {
+  it('counts the requests rejected by a middleware', async () => {
+    const labels = { group: '', procedure: 'Secret' };
+    await run(useRPCRequest(router, 'Secret')());
+    expect(count(RpcMetrics.requests, labels)).toBe(1);
+    expect(count(RpcMetrics.errors, { ...labels, error: 'Unauthorized' })).toBe(1);
+  });
+
+  it('counts the requests rejected because of an invalid payload', async () => {
+    const labels = { group: '', procedure: 'Double' };
+    // The client checks the payload before sending it, so the invalid one is sent as it is
+    const response = await handler(
+      new Request('http://localhost/rpc', {
+        method: 'POST',
+        headers: { 'content-type': 'application/ndjson' },
+        body: `${JSON.stringify({ _tag: 'Request', id: '1', tag: 'Double', payload: { n: 'two' }, headers: [] })}\n`,
+      }),
+    );
+    expect(await response.text()).toContain('InvalidPayload');
+    await run(useRPCRequest(router, 'Double')({ n: 2 }));
+    expect(count(RpcMetrics.requests, labels)).toBe(2);
+    expect(count(RpcMetrics.errors, { ...labels, error: 'InvalidPayload' })).toBe(1);
+  });
+});
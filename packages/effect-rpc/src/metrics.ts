@@ -0,0 +1,335 @@
+import type { Rpc, RpcGroup, RpcMiddleware } from '@effect/rpc';
+import {
+  Cause,
+  Clock,
+  Context,
+  Effect,
+  Exit,
+  Layer,
+  Metric,
+  MetricBoundaries,
+  MetricKeyType,
+  MetricLabel,
+  MetricState,
+  Option,
+} from 'effect';
+import type { MetricPair } from 'effect/MetricPair';
+import { exitOutcome, failureTag } from './logging';
+import { getGroupTag } from './tracing';
+
+/**
+ * The metrics recorded for every procedure served by {@link createRPCHandler} or {@link createLocalRPC},
+ * labeled with `group` (the tag of the group in a registry, or an empty string) and `procedure`.
+ *
+ * - `requests`: the number of requests that completed, whatever their outcome, including the requests rejected
+ *   by an `RpcMiddleware` or because of an invalid payload.
+ * - `errors`: the number of requests that failed, additionally labeled with `error`:
+ *   the `_tag` of the typed failure, or `Die` for defects.
+ * - `duration`: the duration of the requests in seconds.
+ * - `inFlight`: the number of requests currently running.
+ *
+ * They are regular Effect metrics, so they can also be read with `Metric.value`
+ * or exported with `@effect/opentelemetry`. See {@link createMetricsHandler} to expose them to Prometheus.
+ *
+ * @since 0.9.0
+ */
+export const RpcMetrics = {
+  requests: Metric.counter('rpc_server_requests_total', {
+    description: 'The number of RPC requests that completed.',
+    incremental: true,
+  }),
+  errors: Metric.counter('rpc_server_errors_total', {
+    description: 'The number of RPC requests that failed, by error tag.',
+    incremental: true,
+  }),
+  duration: Metric.histogram(
+    'rpc_server_request_duration_seconds',
+    // The default buckets of the Prometheus clients
+    MetricBoundaries.fromIterable([0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]),
+    'The duration of RPC requests in seconds.',
+  ),
+  inFlight: Metric.gauge('rpc_server_requests_in_flight', {
+    description: 'The number of RPC requests currently running.',
+  }),
+};
+
+/**
+ * The procedure a request was made for, by which its {@link RpcMetrics} are labeled.
+ *
+ * @internal
+ */
+type MeasuredRequest = { readonly procedure: string; readonly group: string | undefined };
+
+/**
+ * The labels of the {@link RpcMetrics} of a request.
+ *
+ * @internal
+ */
+const requestLabels = (request: MeasuredRequest) => [
+  MetricLabel.make('group', request.group ?? ''),
+  MetricLabel.make('procedure', request.procedure),
+];
+
+/**
+ * Records the {@link RpcMetrics} of a completed request, except for `inFlight`.
+ *
+ * @internal
+ */
+const recordExit = (
+  request: MeasuredRequest,
+  exit: Exit.Exit<unknown, unknown>,
+  seconds: number,
+): Effect.Effect<void> =>
+  Effect.gen(function* () {
+    const labels = requestLabels(request);
+    yield* Metric.increment(Metric.taggedWithLabels(RpcMetrics.requests, labels));
+    yield* Metric.update(Metric.taggedWithLabels(RpcMetrics.duration, labels), seconds);
+
+    const outcome = exitOutcome(exit);
+    if (outcome === 'failure' || outcome === 'defect') {
+      const failure = Exit.isFailure(exit) ? Cause.failureOption(exit.cause) : Option.none();
+      const error = Option.getOrElse(Option.flatMap(failure, failureTag), () =>
+        outcome === 'defect' ? 'Die' : 'Fail',
+      );
+      yield* Metric.increment(
+        Metric.taggedWithLabels(RpcMetrics.errors, [...labels, MetricLabel.make('error', error)]),
+      );
+    }
+  });
+
+/**
+ * Records the {@link RpcMetrics} of a request.
+ *
+ * @internal
+ */
+export const measureRequest =
+  (request: MeasuredRequest) =>
+  <A, E, R>(effect: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> => {
+    const inFlight = Metric.taggedWithLabels(RpcMetrics.inFlight, requestLabels(request));
+
+    return Effect.uninterruptibleMask((restore) =>
+      Effect.gen(function* () {
+        yield* Metric.increment(inFlight);
+        const start = yield* Clock.currentTimeMillis;
+        return yield* Effect.onExit(restore(effect), (exit) =>
+          Effect.gen(function* () {
+            const end = yield* Clock.currentTimeMillis;
+            yield* Metric.modify(inFlight, -1);
+            yield* recordExit(request, exit, (end - start) / 1000);
+          }),
+        );
+      }),
+    );
+  };
+
+/**
+ * Records the {@link RpcMetrics} of a request the protocol answered with a failure without running it,
+ * such as a request with an invalid payload.
+ *
+ * @internal
+ */
+export const recordRejection = (rpc: Rpc.AnyWithProps, error: unknown): Effect.Effect<void> =>
+  recordExit(
+    { procedure: rpc._tag, group: Option.getOrUndefined(getGroupTag(rpc)) },
+    Exit.fail(error),
+    0,
+  );
+
+/**
+ * Records the {@link RpcMetrics} of the requests rejected by the `RpcMiddleware` of a group, which run before
+ * the implementations measured by {@link measureRequest}: the implementations of the middleware in the context
+ * built by the layer are replaced with ones recording the requests they fail.
+ * Failures of optional middleware don't reject the request, so they aren't recorded.
+ *
+ * @internal
+ */
+export const measureMiddleware =
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (router: RpcGroup.RpcGroup<any>) =>
+    <A, E, R>(layer: Layer.Layer<A, E, R>): Layer.Layer<A, E, R> =>
+      Layer.map(layer, (context) => {
+        const tags = new Set<RpcMiddleware.TagClassAnyWithProps>();
+        for (const rpc of router.requests.values() as Iterable<Rpc.AnyWithProps>) {
+          for (const tag of rpc.middlewares) {
+            if (!tag.optional) tags.add(tag);
+          }
+        }
+
+        let measured = context;
+        for (const tag of tags) {
+          const middleware = Context.getOption(context as Context.Context<unknown>, tag);
+          if (Option.isNone(middleware)) continue;
+          const run = middleware.value as RpcMiddleware.RpcMiddlewareWrap<unknown, unknown>;
+          measured = Context.add(measured, tag, (options: Parameters<typeof run>[0]) => {
+            // Wrapping middleware only rejects the request if it fails before running it
+            let ran = false;
+            const next = Effect.suspend(() => {
+              ran = true;
+              return options.next;
+            });
+            return Effect.flatMap(Clock.currentTimeMillis, (start) =>
+              Effect.onExit(tag.wrap ? run({ ...options, next }) : run(options), (exit) =>
+                Exit.isSuccess(exit) || ran
+                  ? Effect.void
+                  : Effect.flatMap(Clock.currentTimeMillis, (end) =>
+                      recordExit(
+                        {
+                          procedure: options.rpc._tag,
+                          group: Option.getOrUndefined(getGroupTag(options.rpc)),
+                        },
+                        exit,
+                        (end - start) / 1000,
+                      ),
+                    ),
+              ),
+            );
+          }) as Context.Context<A>;
+        }
+        return measured;
+      });
+
+/**
+ * Creates a route handler that serves the current values of all Effect metrics
+ * (including the {@link RpcMetrics}) in the Prometheus text exposition format.
+ *
+ * The metrics are not protected in any way, so the route should only be reachable by the scraper,
+ * e.g. by checking a token in the `authorize` option or in the route itself.
+ *
+ * @param options - (Optional) Options of the handler.
+ * @param options.authorize - (Optional) Decides whether a request may read the metrics.
+ * Requests that may not are answered with `401`.
+ * @returns A function that takes a `globalThis.Request` and returns a `Promise<Response>`.
+ *
+ * @example
+ * ```typescript
+ * // src/app/api/metrics/route.ts
+ * export const GET = createMetricsHandler({
+ *   authorize: (request) =>
+ *     request.headers.get('authorization') === `Bearer ${process.env.METRICS_TOKEN}`,
+ * });
+ * ```
+ *
+ * @since 0.9.0
+ */
+export function createMetricsHandler(
+  options: {
+    authorize?: (request: globalThis.Request) => boolean | Promise<boolean>;
+  } = {},
+): (request: globalThis.Request) => Promise<Response> {
+  return async (request) => {
+    if (options.authorize && !(await options.authorize(request))) {
+      return new Response(null, { status: 401 });
+    }
+    const snapshot = await Effect.runPromise(Metric.snapshot);
+    return new Response(formatPrometheus(snapshot), {
+      headers: { 'content-type': 'text/plain; version=0.0.4; charset=utf-8' },
+    });
+  };
+}
+
+/**
+ * Formats metrics in the Prometheus text exposition format.
+ *
+ * @internal
+ */
+const formatPrometheus = (snapshot: ReadonlyArray<MetricPair.Untyped>): string => {
+  const families = new Map<string, Array<MetricPair.Untyped>>();
+  for (const pair of snapshot) {
+    const name = sanitizeName(pair.metricKey.name);
+    families.set(name, [...(families.get(name) ?? []), pair]);
+  }
+
+  const lines: Array<string> = [];
+  for (const [name, pairs] of families) {
+    const { keyType, description } = pairs[0]!.metricKey;
+    if (Option.isSome(description)) {
+      lines.push(
+        `# HELP ${name} ${description.value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+      );
+    }
+    lines.push(`# TYPE ${name} ${prometheusType(keyType)}`);
+
+    for (const { metricKey, metricState } of pairs) {
+      const labels = metricKey.tags.map(({ key, value }) => [key, value] as const);
+      if (MetricState.isCounterState(metricState) || MetricState.isGaugeState(metricState)) {
+        const value = MetricState.isCounterState(metricState)
+          ? metricState.count
+          : metricState.value;
+        lines.push(sample(name, labels, value));
+      } else if (MetricState.isHistogramState(metricState)) {
+        for (const [boundary, count] of metricState.buckets) {
+          // The boundaries are stored with single precision, e.g. 0.005 as 0.004999999888241291
+          const le = Number.isFinite(boundary) ? Number(boundary.toPrecision(7)) : boundary;
+          lines.push(sample(`${name}_bucket`, [...labels, ['le', formatNumber(le)]], count));
+        }
+        lines.push(sample(`${name}_sum`, labels, metricState.sum));
+        lines.push(sample(`${name}_count`, labels, metricState.count));
+      } else if (MetricState.isSummaryState(metricState)) {
+        for (const [quantile, value] of metricState.quantiles) {
+          lines.push(
+            sample(
+              name,
+              [...labels, ['quantile', formatNumber(quantile)]],
+              Option.getOrElse(value, () => NaN),
+            ),
+          );
+        }
+        lines.push(sample(`${name}_sum`, labels, metricState.sum));
+        lines.push(sample(`${name}_count`, labels, metricState.count));
+      } else if (MetricState.isFrequencyState(metricState)) {
+        for (const [key, count] of metricState.occurrences) {
+          lines.push(sample(name, [...labels, ['key', key]], count));
+        }
+      }
+    }
+  }
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+};
+
+/**
+ * @internal
+ */
+const prometheusType = (keyType: MetricKeyType.MetricKeyType<unknown, unknown>): string => {
+  if (MetricKeyType.isCounterKey(keyType) || MetricKeyType.isFrequencyKey(keyType)) {
+    return 'counter';
+  }
+  if (MetricKeyType.isHistogramKey(keyType)) return 'histogram';
+  if (MetricKeyType.isSummaryKey(keyType)) return 'summary';
+  return 'gauge';
+};
+
+/**
+ * @internal
+ */
+const sample = (
+  name: string,
+  labels: ReadonlyArray<readonly [string, string]>,
+  value: number | bigint,
+): string => {
+  const formatted = labels
+    .map(([key, value]) => `${sanitizeName(key)}="${escapeLabelValue(value)}"`)
+    .join(',');
+  return `${name}${formatted ? `{${formatted}}` : ''} ${formatNumber(value)}`;
+};
+
+/**
+ * @internal
+ */
+const formatNumber = (value: number | bigint): string => {
+  if (typeof value === 'bigint') return value.toString();
+  if (value === Number.POSITIVE_INFINITY) return '+Inf';
+  if (value === Number.NEGATIVE_INFINITY) return '-Inf';
+  return String(value);
+};
+
+/**
+ * @internal
+ */
+const sanitizeName = (name: string): string =>
+  name.replace(/[^a-zA-Z0-9_:]/g, '_').replace(/^([0-9])/, '_$1');
+
+/**
+ * @internal
+ */
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
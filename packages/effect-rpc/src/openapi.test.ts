@@ -0,0 +1,41 @@
+import { Rpc, RpcGroup, RpcMiddleware } from '@effect/rpc';
+import { Schema } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { Unauthorized } from './auth';
+import { Policy, withPolicy } from './policy';
+import { createRpcGroupRegistry } from './registry';
+import { withRoute } from './rest';
+
+class Auth extends RpcMiddleware.Tag<Auth>()('Auth', { failure: Unauthorized }) {}
+
+const usersRouter = RpcGroup.make(
+  withPolicy(
+    withRoute(
+      Rpc.make('GetUser', { payload: { id: Schema.String }, success: Schema.String }),
+      'GET /users/:id',
+    ),
+    Policy.roles('admin'),
+  ),
+  Rpc.make('DeleteUser', { payload: { id: Schema.String } }),
+  Rpc.make('WatchUsers', { success: Schema.String, stream: true }),
+).middleware(Auth);
+
+const document = createRpcGroupRegistry()
+  .registerGroup('users', usersRouter)
+  .toOpenAPI({ errorMapping: { tags: { Unauthorized: 401, Forbidden: 403 } } });
+
+describe('RpcGroupRegistry.toOpenAPI', () => {
+  it('documents the failures of the middleware and of the policy', () => {
+    const responses = document.paths['/users/{id}']?.get?.responses ?? {};
+    expect(Object.keys(responses).sort()).toEqual(['200', '400', '401', '403', '500']);
+    expect(responses[401]?.description).toBe('Unauthorized');
+    expect(responses[403]?.description).toBe('Forbidden');
+  });
+
+  it('documents the routes served by the REST handler', () => {
+    expect(Object.keys(document.paths).sort()).toEqual(['/users/DeleteUser', '/users/{id}']);
+    expect(Object.keys(document.paths['/users/DeleteUser']?.post?.responses ?? {})).toContain(
+      '204',
+    );
+  });
+});
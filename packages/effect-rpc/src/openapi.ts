@@ -0,0 +1,288 @@
+import { HttpMethod, type OpenApi, OpenApiJsonSchema } from '@effect/platform';
+import { type Rpc, type RpcGroup, RpcSchema } from '@effect/rpc';
+import { Option, Schema, SchemaAST } from 'effect';
+import { type ErrorMapping, type ErrorMappingConfig, InvalidPayload } from './errors';
+import { getRoute, pathParams } from './rest';
+
+/**
+ * Options of the OpenAPI document of a registry, see {@link RpcGroupRegistry.toOpenAPI}.
+ *
+ * @template Rpcs - The procedures of the registry, used to check the `_tag`s of the error mapping.
+ *
+ * @since 0.9.0
+ */
+export type OpenAPIOptions<Rpcs extends Rpc.Any = Rpc.Any> = {
+  /**
+   * The `info` object of the document. Defaults to the title `API` and the version `1.0.0`.
+   */
+  readonly info?: {
+    readonly title?: string;
+    readonly version?: string;
+    readonly description?: string;
+  };
+  /**
+   * The servers the API is available at, i.e. the URL the REST handler is mounted at
+   * (the origin and its `basePath`), e.g. `[{ url: 'https://api.example.com/api' }]`.
+   */
+  readonly servers?: ReadonlyArray<{ readonly url: string; readonly description?: string }>;
+  /**
+   * The status codes of the failures, usually the `errorMapping` passed to the handler.
+   * Failures without a mapping are documented with the status `400`.
+   */
+  readonly errorMapping?: ErrorMappingConfig<Rpcs>;
+};
+
+/**
+ * Creates the OpenAPI 3.1 document of a registry.
+ *
+ * @internal
+ */
+export const makeOpenAPI = (
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  groups: Record<string, RpcGroup.RpcGroup<any>>,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  options: OpenAPIOptions<any>,
+): OpenApi.OpenAPISpec => {
+  const schemas: Record<string, OpenApiJsonSchema.JsonSchema> = {};
+  const paths: OpenApi.OpenAPISpecPaths = {};
+  const tags: Array<OpenApi.OpenAPISpecTag> = [];
+
+  for (const [tag, group] of Object.entries(groups)) {
+    tags.push({ name: tag });
+    for (const rpc of group.requests.values() as Iterable<Rpc.AnyWithProps>) {
+      // Streaming procedures are not served by the REST handler
+      if (RpcSchema.isStreamSchema(rpc.successSchema)) continue;
+      // The same routes as the REST handler of the registry
+      const { method, path } = getRoute(rpc, `/${tag}/${rpc._tag}`);
+      const openApiPath = path.replace(/:([^/]+)/g, '{$1}');
+      paths[openApiPath] = {
+        ...paths[openApiPath],
+        [method.toLowerCase()]: makeOperation(tag, rpc, method, path, schemas, options),
+      };
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: options.info?.title ?? 'API',
+      version: options.info?.version ?? '1.0.0',
+      ...(options.info?.description !== undefined ? { description: options.info.description } : {}),
+    },
+    ...(options.servers !== undefined
+      ? { servers: options.servers.map((server) => ({ ...server })) }
+      : {}),
+    paths,
+    components: { schemas, securitySchemes: {} },
+    security: [],
+    tags,
+  };
+};
+
+/**
+ * Describes a procedure as an operation that takes the payload as its JSON body,
+ * and responds with the success value, or with one of the failures of the procedure or of its middleware.
+ *
+ * @internal
+ */
+const makeOperation = (
+  tag: string,
+  rpc: Rpc.AnyWithProps,
+  method: HttpMethod.HttpMethod,
+  path: string,
+  schemas: Record<string, OpenApiJsonSchema.JsonSchema>,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  options: OpenAPIOptions<any>,
+): OpenApi.OpenAPISpecOperation => {
+  const summary = getAnnotation(rpc.payloadSchema.ast, SchemaAST.getTitleAnnotation);
+  const description = getAnnotation(rpc.payloadSchema.ast, SchemaAST.getDescriptionAnnotation);
+
+  // Failures are grouped by their status code, as an operation has one response per status code
+  const failures = new Map<number, Array<Schema.Schema.Any>>();
+  const members = [
+    ...failureMembers(rpc.errorSchema),
+    ...[...rpc.middlewares].flatMap((middleware) => failureMembers(middleware.failure)),
+    InvalidPayload,
+  ].filter((member, index, all) => all.findIndex(({ ast }) => ast === member.ast) === index);
+  for (const failure of members) {
+    const failureTag = getFailureTag(failure.ast);
+    const mapping =
+      failure === InvalidPayload
+        ? options.errorMapping?.decodeFailure
+        : Option.isSome(failureTag)
+          ? (options.errorMapping?.tags as Record<string, ErrorMapping> | undefined)?.[
+              failureTag.value
+            ]
+          : undefined;
+    const status =
+      mapping === undefined ? 400 : typeof mapping === 'number' ? mapping : mapping.status;
+    failures.set(status, [...(failures.get(status) ?? []), failure]);
+  }
+
+  const successDescription = Option.getOrElse(
+    getAnnotation(rpc.successSchema.ast, SchemaAST.getDescriptionAnnotation),
+    () => 'Success',
+  );
+  // Successes without a value are answered with 204 and no body
+  const responses: OpenApi.OpenAPISpecResponses = SchemaAST.isVoidKeyword(rpc.successSchema.ast)
+    ? { 204: { description: successDescription } }
+    : {
+        200: {
+          description: successDescription,
+          content: { 'application/json': { schema: toJsonSchema(rpc.successSchema, schemas) } },
+        },
+      };
+  for (const [status, members] of failures) {
+    const memberSchemas = members.map((member) => toJsonSchema(member, schemas));
+    responses[status] = {
+      description: members
+        .map((member) => {
+          const name = Option.getOrElse(getFailureTag(member.ast), () => 'Failure');
+          return Option.match(getAnnotation(member.ast, SchemaAST.getDescriptionAnnotation), {
+            onNone: () => name,
+            onSome: (description) => `${name}: ${description}`,
+          });
+        })
+        .join('\n'),
+      content: {
+        'application/json': {
+          schema: memberSchemas.length === 1 ? memberSchemas[0]! : { anyOf: memberSchemas },
+        },
+      },
+    };
+  }
+
+  const defect = options.errorMapping?.defect ?? 500;
+  responses[typeof defect === 'number' ? defect : defect.status] ??= {
+    description: 'Internal server error',
+  };
+
+  // Path parameters are taken from the payload, the other fields are sent as the body,
+  // or in the query string for methods without a body
+  const params = pathParams(path);
+  const fields = payloadStruct(rpc.payloadSchema);
+  const parameters: Array<OpenApi.OpenAPISpecParameter> = [];
+  let body: Option.Option<Schema.Schema.Any> = Option.some(rpc.payloadSchema);
+  if (Option.isSome(fields)) {
+    const inBody = HttpMethod.hasBody(method);
+    for (const property of SchemaAST.getPropertySignatures(fields.value.ast)) {
+      const name = String(property.name);
+      const isPath = params.includes(name);
+      if (!isPath && inBody) continue;
+      parameters.push({
+        name,
+        in: isPath ? 'path' : 'query',
+        schema: toJsonSchema(Schema.make(withoutUndefined(property.type)), schemas),
+        required: isPath || !property.isOptional,
+      });
+    }
+    const bodyFields = Object.keys(fields.value.fields).filter((name) => !params.includes(name));
+    body =
+      inBody && bodyFields.length > 0
+        ? Option.some(fields.value.pipe(Schema.pick(...bodyFields)) as Schema.Schema.Any)
+        : Option.none();
+  } else if (!HttpMethod.hasBody(method)) {
+    body = Option.none();
+  }
+
+  return {
+    operationId: `${tag}.${rpc._tag}`,
+    tags: [tag],
+    parameters,
+    security: [],
+    ...Option.match(body, {
+      onNone: () => ({}),
+      onSome: (body) => ({
+        requestBody: {
+          content: { 'application/json': { schema: toJsonSchema(body, schemas) } },
+          required: true as const,
+        },
+      }),
+    }),
+    responses,
+    ...(Option.isSome(summary) ? { summary: summary.value } : {}),
+    ...(Option.isSome(description) ? { description: description.value } : {}),
+  };
+};
+
+/**
+ * The fields of the payload of a procedure as a struct, without the `_tag` of a `Schema.TaggedRequest`,
+ * which is implied by the path. `None` if the payload is not a struct.
+ *
+ * @internal
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const payloadStruct = (payload: Schema.Schema.Any): Option.Option<Schema.Struct<any>> => {
+  const fields = (payload as { readonly fields?: Schema.Struct.Fields }).fields;
+  if (fields === undefined) return Option.none();
+  const { _tag, ...rest } = fields;
+  return Option.some(Schema.Struct(rest));
+};
+
+/**
+ * The type of an optional field without `undefined`, which has no JSON representation.
+ *
+ * @internal
+ */
+const withoutUndefined = (ast: SchemaAST.AST): SchemaAST.AST =>
+  SchemaAST.isUnion(ast)
+    ? SchemaAST.Union.make(ast.types.filter((member) => !SchemaAST.isUndefinedKeyword(member)))
+    : ast;
+
+/**
+ * The JSON Schema of a schema, with its definitions added to the components of the document.
+ * Schemas without a JSON Schema representation are documented as any value.
+ *
+ * @internal
+ */
+const toJsonSchema = (
+  schema: Schema.Schema.All,
+  defs: Record<string, OpenApiJsonSchema.JsonSchema>,
+): OpenApiJsonSchema.JsonSchema => {
+  try {
+    return OpenApiJsonSchema.makeWithDefs(schema as Schema.Schema<unknown, unknown>, { defs });
+  } catch {
+    return {} as OpenApiJsonSchema.JsonSchema;
+  }
+};
+
+/**
+ * The members of the failure schema of a procedure, e.g. the members of a `Schema.Union`.
+ *
+ * @internal
+ */
+const failureMembers = (schema: Schema.Schema.All): Array<Schema.Schema.Any> => {
+  const collect = (ast: SchemaAST.AST): Array<SchemaAST.AST> =>
+    SchemaAST.isUnion(ast)
+      ? ast.types.flatMap(collect)
+      : SchemaAST.isNeverKeyword(ast)
+        ? []
+        : [ast];
+  return collect(schema.ast).map((ast) => Schema.make(ast));
+};
+
+/**
+ * The `_tag` of a failure schema, e.g. a `Schema.TaggedError`.
+ *
+ * @internal
+ */
+export const getFailureTag = (ast: SchemaAST.AST): Option.Option<string> => {
+  const encoded = SchemaAST.encodedAST(ast);
+  if (!SchemaAST.isTypeLiteral(encoded)) return Option.none();
+  const property = encoded.propertySignatures.find((property) => property.name === '_tag');
+  return property !== undefined &&
+    SchemaAST.isLiteral(property.type) &&
+    typeof property.type.literal === 'string'
+    ? Option.some(property.type.literal)
+    : Option.none();
+};
+
+/**
+ * Reads an annotation of a schema, or of the class it declares.
+ *
+ * @internal
+ */
+const getAnnotation = (
+  ast: SchemaAST.AST,
+  get: (annotated: SchemaAST.Annotated) => Option.Option<string>,
+): Option.Option<string> => Option.orElse(get(ast), () => get(SchemaAST.typeAST(ast)));
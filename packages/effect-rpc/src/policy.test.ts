@@ -0,0 +1,142 @@
+import { Rpc, RpcGroup } from '@effect/rpc';
+import { Context, Effect, Either, Layer, Schema } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { useRPCRequest } from './client';
+import { createLocalRPC } from './local';
+import { Policy, withPolicy } from './policy';
+
+type User = { readonly id: string; readonly roles: ReadonlyArray<string> };
+
+class Session extends Context.Tag('Session')<Session, User>() {}
+
+const isOwner = Policy.predicate((user: User, { id }: { id: string }) =>
+  Effect.succeed(user.id === id),
+);
+
+const router = RpcGroup.make(
+  withPolicy(Rpc.make('Stats', { success: Schema.String }), Policy.roles('admin')),
+  withPolicy(
+    Rpc.make('GetUser', { payload: { id: Schema.String }, success: Schema.String }),
+    Policy.any(Policy.roles('admin'), isOwner),
+  ),
+  withPolicy(
+    Rpc.make('UpdateUser', { payload: { id: Schema.String }, success: Schema.String }),
+    Policy.all(Policy.roles('editor'), isOwner),
+  ),
+  withPolicy(Rpc.make('Health', { success: Schema.String }), Policy.public),
+  Rpc.make('Version', { success: Schema.String }),
+);
+
+const implementations = {
+  Stats: () => Effect.succeed('stats'),
+  GetUser: ({ id }: { id: string }) => Effect.succeed(`user ${id}`),
+  UpdateUser: ({ id }: { id: string }) => Effect.succeed(`updated ${id}`),
+  Health: () => Effect.succeed('ok'),
+  Version: () => Effect.succeed('1.0.0'),
+};
+
+/**
+ * Runs a request as the given user, and returns its result or the `_tag` of its failure.
+ */
+const runAs = <A, E extends { readonly _tag: string }>(
+  user: User,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  effect: Effect.Effect<A, E, any>,
+) =>
+  Effect.runPromise(
+    effect.pipe(
+      Effect.either,
+      Effect.map(Either.match({ onLeft: (error) => error._tag, onRight: (value) => value })),
+      Effect.provide(
+        createLocalRPC(router, implementations, {
+          serviceLayers: Layer.succeed(Session, user),
+          authorization: {
+            user: Session,
+            roles: Effect.map(Session, (user) => user.roles),
+          },
+        }),
+      ),
+    ) as Effect.Effect<unknown>,
+  );
+
+const admin: User = { id: 'admin', roles: ['admin'] };
+const editor: User = { id: '1', roles: ['editor'] };
+const guest: User = { id: '2', roles: [] };
+
+describe('authorization policies', () => {
+  it('allows users with one of the roles', async () => {
+    const stats = useRPCRequest(router, 'Stats')();
+    expect(await runAs(admin, stats)).toBe('stats');
+    expect(await runAs(editor, stats)).toBe('Forbidden');
+  });
+
+  it('allows requests that one of the policies of `any` allows', async () => {
+    const getUser = useRPCRequest(router, 'GetUser');
+    expect(await runAs(admin, getUser({ id: '1' }))).toBe('user 1');
+    expect(await runAs(guest, getUser({ id: '2' }))).toBe('user 2');
+    expect(await runAs(guest, getUser({ id: '1' }))).toBe('Forbidden');
+  });
+
+  it('allows requests that all of the policies of `all` allow', async () => {
+    const updateUser = useRPCRequest(router, 'UpdateUser');
+    expect(await runAs(editor, updateUser({ id: '1' }))).toBe('updated 1');
+    expect(await runAs(editor, updateUser({ id: '2' }))).toBe('Forbidden');
+    expect(await runAs(guest, updateUser({ id: '2' }))).toBe('Forbidden');
+  });
+
+  it('allows everyone to call public procedures and procedures without a policy', async () => {
+    expect(await runAs(guest, useRPCRequest(router, 'Health')())).toBe('ok');
+    expect(await runAs(guest, useRPCRequest(router, 'Version')())).toBe('1.0.0');
+  });
+
+  it('stops evaluating `all` at the first policy that denies the request', async () => {
+    let evaluated = 0;
+    const group = RpcGroup.make(
+      withPolicy(
+        Rpc.make('Delete', { success: Schema.String }),
+        Policy.all(
+          Policy.roles('admin'),
+          Policy.predicate(() => Effect.sync(() => ++evaluated > 0)),
+        ),
+      ),
+    );
+    const result = await Effect.runPromise(
+      useRPCRequest(group, 'Delete')().pipe(
+        Effect.flip,
+        Effect.provide(
+          createLocalRPC(
+            group,
+            { Delete: () => Effect.succeed('deleted') },
+            {
+              serviceLayers: Layer.empty,
+              authorization: { user: Effect.succeed(guest), roles: Effect.succeed([]) },
+            },
+          ),
+        ),
+      ),
+    );
+    expect(result._tag).toBe('Forbidden');
+    expect(evaluated).toBe(0);
+  });
+
+  it('checks the policies when the handler is created', () => {
+    expect(() =>
+      createLocalRPC(router, implementations, {
+        serviceLayers: Layer.succeed(Session, admin),
+        authorization: { user: Session },
+      }),
+    ).toThrow(
+      'The policy of "Stats" checks roles, but the handler has no `authorization.roles` option.',
+    );
+    expect(() =>
+      createLocalRPC(router, implementations, {
+        serviceLayers: Layer.succeed(Session, admin),
+        authorization: {
+          user: Session,
+          roles: Effect.map(Session, (user) => user.roles),
+          strict: true,
+        },
+      }),
+    ).toThrow('Procedures without an authorization policy are not allowed in strict mode: Version');
+  });
+});
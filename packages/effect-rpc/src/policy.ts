@@ -0,0 +1,287 @@
+import type { Rpc, RpcGroup } from '@effect/rpc';
+import { Context, Effect, Option, Schema } from 'effect';
+
+/**
+ * The error returned to the client when the {@link Policy} of a procedure denies the request.
+ *
+ * It is added to the failure type of every procedure with a policy (see {@link withPolicy}),
+ * so it can be handled on the client with `Effect.catchTag('Forbidden', ...)`.
+ *
+ * @since 0.9.0
+ */
+export class Forbidden extends Schema.TaggedError<Forbidden>()('Forbidden', {
+  message: Schema.String,
+}) {}
+
+/**
+ * An authorization policy, deciding whether the current user may call a procedure.
+ * Create policies with the constructors of {@link Policy} and attach them with {@link withPolicy}.
+ *
+ * - `Public`: everyone may call the procedure, even without a user.
+ * - `Roles`: the user must have at least one of the roles.
+ * - `Predicate`: the Effect must succeed with `true` for the user and payload of the request.
+ * - `All` / `Any`: all, or at least one, of the policies must allow the request.
+ *
+ * @template User - The type of the current user, see {@link AuthorizationConfig.user}.
+ * @template Payload - The payload of the procedure.
+ *
+ * @since 0.9.0
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type Policy<User = any, Payload = any> =
+  | { readonly _tag: 'Public' }
+  | { readonly _tag: 'Roles'; readonly roles: ReadonlyArray<string> }
+  | {
+      readonly _tag: 'Predicate';
+      readonly predicate: (user: User, payload: Payload) => Effect.Effect<boolean>;
+    }
+  | { readonly _tag: 'All'; readonly policies: ReadonlyArray<Policy<User, Payload>> }
+  | { readonly _tag: 'Any'; readonly policies: ReadonlyArray<Policy<User, Payload>> };
+
+/**
+ * Constructors for {@link Policy}.
+ *
+ * @example
+ * ```typescript
+ * // Admins, or the user the request is about
+ * Policy.any(
+ *   Policy.roles('admin'),
+ *   Policy.predicate((user: User, { id }: { id: string }) => Effect.succeed(user.sub === id)),
+ * );
+ * ```
+ *
+ * @since 0.9.0
+ */
+export const Policy = {
+  /**
+   * Allows everyone to call the procedure, even without a user.
+   * Useful to mark procedures as intentionally public in strict mode.
+   */
+  public: { _tag: 'Public' } as Policy,
+
+  /**
+   * Allows users that have at least one of the roles.
+   * The roles of the user are read with the {@link AuthorizationConfig.roles | roles} option of the handler.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  roles: <User = any, Payload = any>(...roles: ReadonlyArray<string>): Policy<User, Payload> => ({
+    _tag: 'Roles',
+    roles,
+  }),
+
+  /**
+   * Allows requests for which the predicate succeeds with `true`.
+   * The user is read with the {@link AuthorizationConfig.user | user} option of the handler.
+   */
+  predicate: <User, Payload>(
+    predicate: (user: User, payload: Payload) => Effect.Effect<boolean>,
+  ): Policy<User, Payload> => ({ _tag: 'Predicate', predicate }),
+
+  /**
+   * Allows requests that all of the policies allow.
+   */
+  all: <User, Payload>(
+    ...policies: ReadonlyArray<Policy<User, Payload>>
+  ): Policy<User, Payload> => ({
+    _tag: 'All',
+    policies,
+  }),
+
+  /**
+   * Allows requests that at least one of the policies allows.
+   */
+  any: <User, Payload>(
+    ...policies: ReadonlyArray<Policy<User, Payload>>
+  ): Policy<User, Payload> => ({
+    _tag: 'Any',
+    policies,
+  }),
+};
+
+/**
+ * The annotation holding the {@link Policy} of a procedure.
+ * Use {@link withPolicy} to set it, which also adds {@link Forbidden} to the failures of the procedure.
+ *
+ * @since 0.9.0
+ */
+export class AuthorizationPolicy extends Context.Tag('effect-rpc/AuthorizationPolicy')<
+  AuthorizationPolicy,
+  Policy
+>() {}
+
+/**
+ * A procedure with a {@link Policy}, which can fail with {@link Forbidden}.
+ *
+ * @internal
+ */
+type WithForbidden<R extends Rpc.Any> =
+  R extends Rpc.Rpc<infer Tag, infer Payload, infer Success, infer Error, infer Middleware>
+    ? Rpc.Rpc<Tag, Payload, Success, Schema.Union<[Error, typeof Forbidden]>, Middleware>
+    : never;
+
+/**
+ * Attaches an authorization {@link Policy} to a procedure.
+ *
+ * The policy is checked by the server handler before the implementation runs, after the middleware of
+ * the procedure (so services like the `CurrentUser` of {@link createJwtAuth} are available).
+ * If the policy denies the request, it fails with {@link Forbidden}, which is added to the failures
+ * of the procedure so the client can handle it.
+ *
+ * @param rpc - The procedure, e.g. created with `Rpc.fromTaggedRequest`.
+ * @param policy - The policy of the procedure.
+ * @returns The procedure with the policy.
+ *
+ * @example
+ * ```typescript
+ * export const usersRouter = RpcGroup.make(
+ *   withPolicy(Rpc.fromTaggedRequest(GetUserReq), Policy.roles('user', 'admin')),
+ *   withPolicy(Rpc.fromTaggedRequest(DeleteUserReq), Policy.roles('admin')),
+ * ).middleware(Auth.Middleware);
+ * ```
+ *
+ * @since 0.9.0
+ */
+export function withPolicy<R extends Rpc.Any>(
+  rpc: R,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  policy: Policy<any, Rpc.Payload<R>>,
+): WithForbidden<R> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const withProps = rpc as unknown as Rpc.Rpc<string, Rpc.AnySchema, Schema.Schema.Any, any>;
+  return withProps
+    .setError(Schema.Union(withProps.errorSchema, Forbidden))
+    .annotate(AuthorizationPolicy, policy) as unknown as WithForbidden<R>;
+}
+
+/**
+ * Configuration of the authorization of a handler, see {@link withPolicy}.
+ *
+ * @template R - The services available to the handler, i.e. the services the `user` and `roles` Effects may use.
+ *
+ * @since 0.9.0
+ */
+export type AuthorizationConfig<R = never> = {
+  /**
+   * The current user, passed to the predicates of {@link Policy.predicate}.
+   * Typically the `CurrentUser` service provided by an authentication middleware, e.g. `Auth.CurrentUser`.
+   * Required if a procedure uses a predicate policy.
+   */
+  readonly user?: Effect.Effect<unknown, never, R>;
+  /**
+   * The roles of the current user, checked by {@link Policy.roles}.
+   * E.g. `Effect.map(Auth.CurrentUser, (user) => user.roles)`.
+   * Required if a procedure uses a role policy.
+   */
+  readonly roles?: Effect.Effect<Iterable<string>, never, R>;
+  /**
+   * If `true`, every procedure must have a policy, otherwise creating the handler throws.
+   * Use {@link Policy.public} for procedures that everyone may call.
+   * Defaults to `false`, where procedures without a policy can be called by everyone.
+   */
+  readonly strict?: boolean;
+};
+
+/**
+ * Returns the {@link Policy} of a procedure, if it has one.
+ *
+ * @internal
+ */
+export const getPolicy = (rpc: Rpc.AnyWithProps): Option.Option<Policy> =>
+  Context.getOption(rpc.annotations, AuthorizationPolicy);
+
+/**
+ * Checks that the policies of a group can be evaluated with the given configuration,
+ * and, in strict mode, that every procedure has a policy.
+ *
+ * @throws {Error} If a procedure can't be authorized.
+ *
+ * @internal
+ */
+export const validatePolicies = (
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  router: RpcGroup.RpcGroup<any>,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  config: AuthorizationConfig<any> | undefined,
+): void => {
+  const missing: Array<string> = [];
+  const uses = (policy: Policy, tag: Policy['_tag']): boolean =>
+    policy._tag === tag ||
+    ((policy._tag === 'All' || policy._tag === 'Any') &&
+      policy.policies.some((policy) => uses(policy, tag)));
+
+  for (const [name, rpc] of router.requests as ReadonlyMap<string, Rpc.AnyWithProps>) {
+    const policy = getPolicy(rpc);
+    if (Option.isNone(policy)) {
+      missing.push(name);
+      continue;
+    }
+    if (uses(policy.value, 'Roles') && config?.roles === undefined) {
+      throw new Error(
+        `The policy of "${name}" checks roles, but the handler has no \`authorization.roles\` option.`,
+      );
+    }
+    if (uses(policy.value, 'Predicate') && config?.user === undefined) {
+      throw new Error(
+        `The policy of "${name}" has a predicate, but the handler has no \`authorization.user\` option.`,
+      );
+    }
+  }
+
+  if (config?.strict && missing.length > 0) {
+    throw new Error(
+      `Procedures without an authorization policy are not allowed in strict mode: ${missing.join(', ')}`,
+    );
+  }
+};
+
+/**
+ * Fails with {@link Forbidden} if the {@link Policy} denies the request.
+ *
+ * @internal
+ */
+export const authorize = (
+  name: string,
+  policy: Policy,
+  payload: unknown,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  config: AuthorizationConfig<any> | undefined,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Effect.Effect<void, Forbidden, any> =>
+  Effect.flatMap(evaluate(policy, payload, config), (allowed) =>
+    allowed
+      ? Effect.void
+      : Effect.fail(new Forbidden({ message: `Not allowed to call "${name}"` })),
+  );
+
+/**
+ * Evaluates a {@link Policy}. `All` and `Any` stop at the first policy that decides the result.
+ *
+ * @internal
+ */
+const evaluate = (
+  policy: Policy,
+  payload: unknown,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  config: AuthorizationConfig<any> | undefined,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Effect.Effect<boolean, never, any> => {
+  switch (policy._tag) {
+    case 'Public':
+      return Effect.succeed(true);
+    case 'Roles':
+      return Effect.map(config!.roles!, (roles) => {
+        const userRoles = new Set(roles);
+        return policy.roles.some((role) => userRoles.has(role));
+      });
+    case 'Predicate':
+      return Effect.flatMap(config!.user!, (user) => policy.predicate(user, payload));
+    case 'All':
+      return Effect.reduce(policy.policies, true, (allowed, policy) =>
+        allowed ? evaluate(policy, payload, config) : Effect.succeed(false),
+      );
+    case 'Any':
+      return Effect.reduce(policy.policies, false, (allowed, policy) =>
+        allowed ? Effect.succeed(true) : evaluate(policy, payload, config),
+      );
+  }
+};
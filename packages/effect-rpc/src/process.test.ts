@@ -0,0 +1,98 @@
+import { Rpc, RpcGroup } from '@effect/rpc';
+import { Chunk, Effect, Layer, Schedule, Schema, Stream } from 'effect';
+import { EventEmitter } from 'node:events';
+import { describe, expect, it } from 'vitest';
+import { useRPCRequest } from './client';
+import {
+  createProcessHandler,
+  createProcessRPC,
+  type ProcessHandler,
+  type ProcessRPCConfig,
+  type ProcessSocket,
+} from './process';
+
+const router = RpcGroup.make(
+  Rpc.make('Count', { payload: { n: Schema.Number }, success: Schema.Number, stream: true }),
+);
+
+const makeHandler = () =>
+  createProcessHandler(
+    router,
+    { Count: ({ n }) => Stream.range(1, n).pipe(Stream.rechunk(1)) },
+    { serviceLayers: Layer.empty },
+  );
+
+/**
+ * A socket connected in memory to a handler. With `crash`, the connection is closed once the handler
+ * answered its first message, i.e. the ping sent when it opens.
+ */
+const connect = (
+  handler: ProcessHandler,
+  connections: Array<() => void>,
+  crash = false,
+): ProcessSocket => {
+  const client = new EventEmitter();
+  const input = new EventEmitter();
+  let closed = false;
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    setTimeout(() => {
+      client.emit('close');
+      input.emit('end');
+    });
+  };
+  const output = Object.assign(new EventEmitter(), {
+    write: (data: string | Uint8Array) => {
+      setTimeout(() => client.emit('data', data));
+      if (crash) close();
+    },
+    end: close,
+  });
+  connections.push(close);
+  void handler.accept(input, output);
+  return Object.assign(client, {
+    write: (data: string | Uint8Array) => setTimeout(() => input.emit('data', data)),
+    destroy: close,
+  });
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const runClient = <A, E>(effect: Effect.Effect<A, E, any>, config: ProcessRPCConfig) =>
+  Effect.runPromise(effect.pipe(Effect.provide(createProcessRPC(config))) as Effect.Effect<A, E>);
+
+describe('process protocol', () => {
+  it('resubscribes a stream after a restart without repeating its elements', async () => {
+    const handler = makeHandler();
+    const connections: Array<() => void> = [];
+    const count = useRPCRequest(router, 'Count');
+    const elements = await runClient(
+      count({ n: 5 }).pipe(
+        // The connection is lost once the client received the second element
+        Stream.tap((n) =>
+          Effect.sync(() => (n === 2 && connections.length === 1 ? connections[0]!() : undefined)),
+        ),
+        Stream.runCollect,
+      ),
+      {
+        connect: () => connect(handler, connections),
+        restartSchedule: Schedule.spaced('10 millis'),
+      },
+    );
+    expect(Chunk.toArray(elements)).toEqual([1, 2, 3, 4, 5]);
+    expect(connections.length).toBe(2);
+    await handler.dispose();
+  });
+
+  it('waits for the schedule before restarting a process that answered', async () => {
+    const handler = makeHandler();
+    const connections: Array<() => void> = [];
+    await runClient(Effect.sleep('300 millis'), {
+      connect: () => connect(handler, connections, true),
+      restartSchedule: Schedule.spaced('100 millis'),
+    });
+    expect(connections.length).toBeGreaterThanOrEqual(2);
+    expect(connections.length).toBeLessThanOrEqual(4);
+    await handler.dispose();
+  });
+});
@@ -0,0 +1,743 @@
+import {
+  RpcClient,
+  RpcClientError,
+  type Rpc,
+  type RpcGroup,
+  type RpcMiddleware,
+  RpcSerialization,
+} from '@effect/rpc';
+import {
+  constPing,
+  type FromClientEncoded,
+  type FromServerEncoded,
+  type RequestEncoded,
+} from '@effect/rpc/RpcMessage';
+import {
+  Duration,
+  Effect,
+  FiberRef,
+  Layer,
+  Logger,
+  Mailbox,
+  Option,
+  Schedule,
+  type Tracer,
+} from 'effect';
+import {
+  currentClientId,
+  type InferClient,
+  QUERY_HEADER,
+  type SerializationLayer,
+  STREAM_HEADER,
+  withoutInternalHeaders,
+} from './helpers';
+import { RequestLogging, type LoggingPolicy } from './logging';
+import {
+  makeConnectionHandler,
+  type HandlerContext,
+  type RequestImplementations,
+  type WebSocketHandlerConfig,
+} from './server';
+import { currentTraceparent } from './tracing';
+import { skipDelivered, type ResubscribedStream } from './websocket';
+
+/**
+ * A stream the messages of a process are read from: `process.stdin` in the process serving the procedures,
+ * the `stdout` of a child process, or a `Socket` of `node:net`.
+ *
+ * @since 0.9.0
+ */
+export interface ProcessReadable {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  on(event: string, listener: (...args: any[]) => void): unknown;
+}
+
+/**
+ * A stream the messages of a process are written to: `process.stdout` in the process serving the procedures,
+ * the `stdin` of a child process, or a `Socket` of `node:net`.
+ *
+ * @since 0.9.0
+ */
+export interface ProcessWritable {
+  write(chunk: string | Uint8Array): unknown;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  on(event: string, listener: (...args: any[]) => void): unknown;
+  end?(): unknown;
+}
+
+/**
+ * A child process serving the procedures over its standard streams, such as a `ChildProcess`
+ * of `node:child_process`. Its `stdin` and `stdout` must be pipes.
+ *
+ * @since 0.9.0
+ */
+export interface ChildProcessLike {
+  readonly stdin: ProcessWritable | null;
+  readonly stdout: ProcessReadable | null;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  on(event: string, listener: (...args: any[]) => void): unknown;
+  kill(): unknown;
+}
+
+/**
+ * A connection to a process serving the procedures on a Unix domain socket (or a named pipe on Windows),
+ * such as a `Socket` of `node:net`.
+ *
+ * @since 0.9.0
+ */
+export interface ProcessSocket extends ProcessReadable, ProcessWritable {
+  destroy(): unknown;
+}
+
+/**
+ * Configuration of the client created with {@link createProcessRPC}.
+ *
+ * @template M - The client middleware provided by the `middleware` layer.
+ *
+ * @since 0.9.0
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type ProcessRPCConfig<M extends RpcMiddleware.ForClient<any> = never> = (
+  | {
+      /**
+       * Spawns the process serving the procedures with {@link createProcessHandler}, e.g.
+       * `() => spawn('node', ['sidecar.js'], { stdio: ['pipe', 'pipe', 'inherit'] })`.
+       * The requests are sent to its standard input, and the responses read from its standard output.
+       */
+      readonly spawn: () => ChildProcessLike;
+    }
+  | {
+      /**
+       * Connects to a process serving the procedures on a socket, e.g. `() => connect('/tmp/sidecar.sock')`
+       * with `connect` of `node:net`.
+       */
+      readonly connect: () => ProcessSocket;
+    }
+) & {
+  /**
+   * The serialization of the messages, which must be the one of the process. It must include framing,
+   * like the default `RpcSerialization.layerNdjson` or `RpcSerialization.layerMsgPack`.
+   */
+  readonly serialization?: SerializationLayer;
+  /**
+   * The delays between the attempts to start the process (or to connect to it), whenever it exits or fails to start.
+   * Defaults to an exponential backoff starting at 200 milliseconds, with jitter, up to 10 seconds between attempts.
+   * If the schedule ends, the requests waiting for the process fail with an `RpcClientError`,
+   * and the schedule starts over.
+   */
+  readonly restartSchedule?: Schedule.Schedule<unknown, unknown>;
+  /**
+   * How long the process must run after it answers before the `restartSchedule` starts over, so a process that
+   * keeps exiting right after it starts isn't restarted in a loop. Defaults to 30 seconds.
+   */
+  readonly healthyAfter?: Duration.DurationInput;
+  /** (Optional) A Layer providing the client implementations of `RpcMiddleware`. */
+  readonly middleware?: Layer.Layer<M>;
+  /** (Optional) What is logged about the requests run with the layer, see {@link LoggingPolicy}. */
+  readonly logging?: LoggingPolicy;
+  /**
+   * (Optional) The tracer the spans of the requests are sent to. The trace is continued in the process
+   * through the `traceparent` header.
+   */
+  readonly tracer?: Tracer.Tracer;
+};
+
+/**
+ * Configuration of a process handler. It is the same as the configuration of {@link createWebSocketHandler},
+ * except that the serialization must include framing, like the default `RpcSerialization.layerNdjson`
+ * or `RpcSerialization.layerMsgPack`.
+ *
+ * @template R - The type of the environment provided by the `serviceLayers` to the handlers.
+ * @template Rpcs - The procedures of the group.
+ *
+ * @since 0.9.0
+ */
+export type ProcessHandlerConfig<R, Rpcs extends Rpc.Any = never> = WebSocketHandlerConfig<R, Rpcs>;
+
+/**
+ * A handler serving an RPC router over the standard streams of a process or over sockets,
+ * see {@link createProcessHandler}.
+ *
+ * @since 0.9.0
+ */
+export type ProcessHandler = {
+  /**
+   * Serves the requests read from `input`, writing the responses to `output`: `process.stdin` and `process.stdout`,
+   * or a `Socket` accepted by a server of `node:net` for both. The returned `Promise` resolves when the input ends,
+   * after which the requests still running on it are interrupted.
+   */
+  readonly accept: (input: ProcessReadable, output: ProcessWritable) => Promise<void>;
+  /**
+   * Stops accepting connections, waits for running requests to complete (at most for the grace period),
+   * ends the outputs and releases all resources held by the handler.
+   * Calling it more than once returns the same `Promise`.
+   */
+  readonly dispose: () => Promise<void>;
+  /**
+   * Same as {@link ProcessHandler.dispose}, but as an `Effect`.
+   */
+  readonly disposeEffect: Effect.Effect<void>;
+};
+
+/**
+ * The default delays between the attempts to start a process.
+ *
+ * @internal
+ */
+const DEFAULT_RESTART_SCHEDULE: Schedule.Schedule<unknown, unknown> = Schedule.exponential(
+  '200 millis',
+).pipe(Schedule.union(Schedule.spaced('10 seconds')), Schedule.jittered);
+
+/**
+ * The default duration after which a process that answered is considered healthy.
+ *
+ * @internal
+ */
+const DEFAULT_HEALTHY_AFTER: Duration.DurationInput = '30 seconds';
+
+/**
+ * The logger of a process serving the procedures: its standard output carries the responses,
+ * so the logs are written to its standard error.
+ *
+ * @internal
+ */
+const StderrLogger = Logger.replace(
+  Logger.defaultLogger,
+  Logger.withConsoleError(Logger.logfmtLogger),
+);
+
+/**
+ * Returns the serialization of a layer, which must include framing: the messages of a process are read
+ * from a stream of bytes, so the serialization must tell where they end.
+ *
+ * @throws {Error} If the serialization doesn't include framing, like `RpcSerialization.layerJson`.
+ * @internal
+ */
+const getFramedSerialization = (layer: SerializationLayer) => {
+  const serialization = Effect.runSync(Effect.provide(RpcSerialization.RpcSerialization, layer));
+  if (!serialization.includesFraming) {
+    throw new Error(
+      `The serialization "${serialization.contentType}" doesn't include framing, use RpcSerialization.layerNdjson or RpcSerialization.layerMsgPack`,
+    );
+  }
+  return serialization;
+};
+
+/**
+ * Creates a decoder of the chunks read from a stream. The chunks of a text serialization (such as NDJSON) are
+ * decoded as UTF-8 here, so a character split between two chunks is decoded once both are received.
+ * Binary serializations get the chunks as they are.
+ *
+ * @internal
+ */
+const makeChunkDecoder = (serialization: RpcSerialization.RpcSerialization['Type']) => {
+  if (serialization.contentType.includes('msgpack')) {
+    return (chunk: string | Uint8Array) => chunk;
+  }
+  const decoder = new TextDecoder();
+  return (chunk: string | Uint8Array) =>
+    typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+};
+
+/**
+ * Creates a handler serving the procedures of a router to another process, for clients created with
+ * {@link createProcessRPC}: over the standard streams of a child process, or over the connections of a
+ * Unix domain socket.
+ *
+ * Like over WebSocket connections, every connection can run any number of requests and streams at the same time,
+ * which are run through the same pipeline as {@link createRPCHandler}: the middleware, authorization policies,
+ * logging, tracing and metrics apply to them as well. The standard output carries the responses,
+ * so the logs of the handler are written to the standard error.
+ *
+ * The layers are built when the first connection is accepted, and are shared by all connections.
+ *
+ * @param router - The RPC router group defining all available endpoints.
+ * @param reqImplementations - An object mapping every endpoint name to its implementation. All endpoints are required.
+ * @param config - Configuration object, see {@link ProcessHandlerConfig}.
+ * @returns A {@link ProcessHandler}, accepting the standard streams of the process or the connections of a socket.
+ * @throws {Error} If the serialization doesn't include framing.
+ *
+ * @example
+ * ```typescript
+ * // sidecar.ts, spawned by the host
+ * const handler = createProcessHandler(router, { ... }, { serviceLayers: HelloService.Default });
+ * handler.accept(process.stdin, process.stdout).then(handler.dispose);
+ *
+ * // or on a Unix domain socket
+ * net.createServer((socket) => handler.accept(socket, socket)).listen('/tmp/sidecar.sock');
+ * ```
+ *
+ * @since 0.9.0
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function createProcessHandler<T extends RpcGroup.RpcGroup<any>, V extends InferClient<T>, R>(
+  router: T,
+  reqImplementations: RequestImplementations<T, V, HandlerContext<R, RpcGroup.Rpcs<T>>>,
+  config: ProcessHandlerConfig<R, RpcGroup.Rpcs<T>>,
+): ProcessHandler {
+  const serialization = getFramedSerialization(
+    config.serialization ?? RpcSerialization.layerNdjson,
+  );
+  const { connect, dispose, disposeEffect } = makeConnectionHandler(
+    router,
+    reqImplementations,
+    {
+      ...config,
+      serialization: Layer.succeed(RpcSerialization.RpcSerialization, serialization),
+      additionalLayers: [...(config.additionalLayers ?? []), StderrLogger],
+    },
+    'process',
+  );
+
+  return {
+    accept: (input, output) =>
+      new Promise((resolve) => {
+        const connection = connect(
+          {
+            send: (data) => output.write(data),
+            close: () => {
+              try {
+                output.end?.();
+              } catch {
+                // The output may not be closable, like the standard output of some platforms
+              }
+            },
+          },
+          undefined,
+          undefined,
+        );
+        const decode = makeChunkDecoder(serialization);
+        let ended = false;
+        const end = () => {
+          if (ended) return;
+          ended = true;
+          connection.close();
+          resolve();
+        };
+        input.on('data', (chunk: string | Uint8Array) => connection.receive(decode(chunk)));
+        input.on('end', end);
+        input.on('close', end);
+        input.on('error', end);
+        output.on('error', end);
+      }),
+    dispose,
+    disposeEffect,
+  };
+}
+
+/**
+ * Creates an RPC client protocol layer that sends the requests to another process serving the group with
+ * {@link createProcessHandler}: a child process it spawns, or a process listening on a Unix domain socket.
+ *
+ * The process is spawned (or the socket connected) when the layer is built, and killed (or disconnected) when
+ * the layer is released. The requests are sent over a single connection, like with the `websocket` protocol
+ * of {@link createEffectRPC}: they run concurrently, and streams are acknowledged element by element.
+ *
+ * If the process exits (or the socket is closed), it is restarted according to the `restartSchedule`. Active streams
+ * are resubscribed, skipping the elements they already received, and queries are sent again, while other requests
+ * that were running fail with an `RpcClientError`, as they may or may not have completed. New requests wait for
+ * the process to be restarted.
+ *
+ * @param config - Configuration object, see {@link ProcessRPCConfig}.
+ * @returns A Layer that provides the `RpcClient.Protocol`, to be used in place of {@link createEffectRPC}.
+ * @throws {Error} If the serialization doesn't include framing.
+ *
+ * @example
+ * ```typescript
+ * import { spawn } from 'node:child_process';
+ *
+ * export const SidecarRuntime = ManagedRuntime.make(
+ *   createProcessRPC({
+ *     spawn: () => spawn('node', ['dist/sidecar.js'], { stdio: ['pipe', 'pipe', 'inherit'] }),
+ *   }),
+ * );
+ *
+ * const greeting = await SidecarRuntime.runPromise(
+ *   useRPCRequest(helloRouter, 'SayHelloReq')({ name: 'World' }),
+ * );
+ * ```
+ *
+ * @since 0.9.0
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function createProcessRPC<M extends RpcMiddleware.ForClient<any> = never>(
+  config: ProcessRPCConfig<M>,
+): Layer.Layer<RpcClient.Protocol | M, never, never> {
+  const serialization = getFramedSerialization(
+    config.serialization ?? RpcSerialization.layerNdjson,
+  );
+  return layerProcessProtocol(
+    'spawn' in config ? openChildProcess(config.spawn) : openSocket(config.connect),
+    config.restartSchedule ?? DEFAULT_RESTART_SCHEDULE,
+    config.healthyAfter ?? DEFAULT_HEALTHY_AFTER,
+  ).pipe(
+    Layer.provide(Layer.succeed(RpcSerialization.RpcSerialization, serialization)),
+    // without middleware, `M` is inferred as `never`
+    Layer.merge(config.middleware ?? (Layer.empty as Layer.Layer<M>)),
+    Layer.merge(
+      config.logging !== undefined ? Layer.succeed(RequestLogging, config.logging) : Layer.empty,
+    ),
+    Layer.merge(config.tracer ? Layer.setTracer(config.tracer) : Layer.empty),
+  );
+}
+
+/**
+ * A connection to a process, opened by the client protocol.
+ *
+ * @internal
+ */
+type ProcessConnection = {
+  readonly write: (data: string | Uint8Array) => void;
+  readonly close: () => void;
+};
+
+/**
+ * Opens a connection to a process, which reports the data it receives and its end to the given listeners.
+ *
+ * @internal
+ */
+type OpenConnection = (listeners: {
+  readonly onData: (chunk: string | Uint8Array) => void;
+  readonly onClose: (cause: unknown) => void;
+}) => ProcessConnection;
+
+/**
+ * Opens a connection to a child process, over its standard streams.
+ *
+ * @internal
+ */
+const openChildProcess =
+  (spawn: () => ChildProcessLike): OpenConnection =>
+  ({ onData, onClose }) => {
+    const child = spawn();
+    const { stdin, stdout } = child;
+    if (stdin === null || stdout === null) {
+      child.kill();
+      throw new Error('The standard input and output of the process must be pipes');
+    }
+    stdout.on('data', onData);
+    // `close` is emitted once the standard output is read to its end, after the exit of the process
+    child.on('close', (code: number | null, signal: string | null) =>
+      onClose(`The process exited with ${signal !== null ? `signal ${signal}` : `code ${code}`}`),
+    );
+    child.on('error', onClose);
+    // Writing to a process that exited fails with `EPIPE`, which is reported by its exit
+    stdin.on('error', () => {});
+    return { write: (data) => stdin.write(data), close: () => child.kill() };
+  };
+
+/**
+ * Opens a connection to a process listening on a socket.
+ *
+ * @internal
+ */
+const openSocket =
+  (connect: () => ProcessSocket): OpenConnection =>
+  ({ onData, onClose }) => {
+    const socket = connect();
+    socket.on('data', onData);
+    socket.on('error', onClose);
+    socket.on('close', () => onClose('The socket was closed'));
+    return { write: (data) => socket.write(data), close: () => socket.destroy() };
+  };
+
+/**
+ * An event of a connection to a process. Every connection has a new generation, so the events of a connection
+ * that was already replaced are ignored.
+ *
+ * @internal
+ */
+type ProcessEvent =
+  | {
+      readonly _tag: 'Open';
+      readonly generation: number;
+      readonly connection: ProcessConnection;
+    }
+  | { readonly _tag: 'Data'; readonly generation: number; readonly chunk: string | Uint8Array }
+  | { readonly _tag: 'Close'; readonly generation: number; readonly cause: unknown }
+  | { readonly _tag: 'GiveUp'; readonly cause: unknown };
+
+/**
+ * A request sent to a process that hasn't completed yet.
+ *
+ * @internal
+ */
+type PendingRequest = {
+  readonly request: RequestEncoded;
+  /** The client that sent the request, see {@link currentClientId}. */
+  readonly clientId: number | undefined;
+  /** Streams are resubscribed after a restart, and queries, which have no side effects, are sent again. */
+  readonly resumable: boolean;
+  /** The generation of the connection the request was sent on, if it was sent. */
+  generation: number | undefined;
+} & ResubscribedStream;
+
+/**
+ * Creates the client protocol sending the requests to a process.
+ *
+ * Like the WebSocket protocol, it is shared by all requests run with the layer, and passes the responses of a request
+ * to the client that sent it (see {@link currentClientId}). The events of the connections are handled one at a time,
+ * in the order they are received. The requests are only sent once the process answers the ping sent when the
+ * connection opens, so a process that fails to start doesn't receive any.
+ *
+ * @internal
+ */
+const layerProcessProtocol = (
+  open: OpenConnection,
+  restartSchedule: Schedule.Schedule<unknown, unknown>,
+  healthyAfter: Duration.DurationInput,
+): Layer.Layer<RpcClient.Protocol, never, RpcSerialization.RpcSerialization> =>
+  Layer.scoped(
+    RpcClient.Protocol,
+    Effect.gen(function* () {
+      const serialization = yield* RpcSerialization.RpcSerialization;
+      const clients = new Set<{
+        readonly id: number | undefined;
+        readonly write: (response: FromServerEncoded) => Effect.Effect<void>;
+      }>();
+      const requests = new Map<string, PendingRequest>();
+      const events = yield* Mailbox.make<ProcessEvent>();
+      let parser = serialization.unsafeMake();
+      let decode = makeChunkDecoder(serialization);
+      let current:
+        | { readonly generation: number; readonly connection: ProcessConnection }
+        | undefined;
+      let generation = 0;
+      // When the process of the current connection answered, if it did
+      let establishedAt: number | undefined;
+      const clock = yield* Effect.clock;
+      const schedule = yield* Schedule.driver(restartSchedule);
+
+      const writeTo = (clientId: number | undefined, response: FromServerEncoded) =>
+        Effect.forEach(
+          clients,
+          (client) => (client.id === clientId ? client.write(response) : Effect.void),
+          { discard: true },
+        );
+      const broadcast = (response: FromServerEncoded) =>
+        Effect.forEach(clients, (client) => client.write(response), { discard: true });
+      const protocolError = (message: string, cause?: unknown): FromServerEncoded => ({
+        _tag: 'ClientProtocolError',
+        error: new RpcClientError.RpcClientError({ reason: 'Protocol', message, cause }),
+      });
+
+      const transmit = (message: FromClientEncoded) => {
+        const encoded = parser.encode(message);
+        if (current !== undefined && encoded !== undefined) {
+          current.connection.write(encoded);
+        }
+      };
+
+      // The requests waiting for the process are sent once it answers
+      const flush = () => {
+        for (const pending of requests.values()) {
+          if (pending.generation === undefined) {
+            pending.generation = current?.generation;
+            transmit(pending.request);
+          }
+        }
+      };
+
+      const receive = (chunk: string | Uint8Array) => {
+        let responses: ReadonlyArray<FromServerEncoded>;
+        try {
+          responses = parser.decode(decode(chunk)) as ReadonlyArray<FromServerEncoded>;
+        } catch (cause) {
+          return broadcast(protocolError('Error decoding message', cause));
+        }
+        return Effect.forEach(
+          responses,
+          (response) => {
+            if (response._tag === 'Pong') {
+              if (establishedAt === undefined) {
+                establishedAt = clock.unsafeCurrentTimeMillis();
+                flush();
+              }
+              return Effect.void;
+            }
+            if ('requestId' in response) {
+              const pending = requests.get(response.requestId);
+              if (pending === undefined) return Effect.void;
+              if (response._tag === 'Exit') requests.delete(response.requestId);
+              const remaining = skipDelivered(pending, response);
+              if (remaining === undefined) {
+                transmit({ _tag: 'Ack', requestId: response.requestId });
+                return Effect.void;
+              }
+              return writeTo(pending.clientId, remaining);
+            }
+            if (response._tag === 'Defect') requests.clear();
+            return broadcast(response);
+          },
+          { discard: true },
+        );
+      };
+
+      const handle = (event: ProcessEvent): Effect.Effect<void> => {
+        switch (event._tag) {
+          case 'Open': {
+            current = event;
+            parser = serialization.unsafeMake();
+            decode = makeChunkDecoder(serialization);
+            transmit(constPing);
+            return Effect.void;
+          }
+          case 'Data':
+            return current?.generation === event.generation ? receive(event.chunk) : Effect.void;
+          case 'Close': {
+            if (current?.generation === event.generation) current = undefined;
+            const lost: Array<PendingRequest> = [];
+            for (const [requestId, pending] of requests) {
+              if (pending.generation !== event.generation) continue;
+              pending.generation = undefined;
+              pending.skip = pending.delivered;
+              if (!pending.resumable) {
+                requests.delete(requestId);
+                lost.push(pending);
+              }
+            }
+            return Effect.forEach(
+              lost,
+              (pending) =>
+                writeTo(
+                  pending.clientId,
+                  protocolError('The connection to the process was lost', event.cause),
+                ),
+              { discard: true },
+            );
+          }
+          case 'GiveUp': {
+            const waiting: Array<PendingRequest> = [];
+            for (const [requestId, pending] of requests) {
+              if (pending.generation === undefined) {
+                requests.delete(requestId);
+                waiting.push(pending);
+              }
+            }
+            return Effect.forEach(
+              waiting,
+              (pending) =>
+                writeTo(
+                  pending.clientId,
+                  protocolError('Failed to start the process', event.cause),
+                ),
+              { discard: true },
+            );
+          }
+        }
+      };
+      yield* events.take.pipe(
+        Effect.flatMap(handle),
+        Effect.forever,
+        Effect.interruptible,
+        Effect.forkScoped,
+      );
+
+      // Runs a connection until it is closed, and closes it when interrupted
+      const connection = Effect.async<never, unknown>((resume) => {
+        const id = ++generation;
+        let closed = false;
+        establishedAt = undefined;
+        const onClose = (cause: unknown) => {
+          if (closed) return;
+          closed = true;
+          events.unsafeOffer({ _tag: 'Close', generation: id, cause });
+          resume(Effect.fail(cause));
+        };
+        let opened: ProcessConnection;
+        try {
+          opened = open({
+            onData: (chunk) => events.unsafeOffer({ _tag: 'Data', generation: id, chunk }),
+            onClose,
+          });
+        } catch (cause) {
+          onClose(cause);
+          return;
+        }
+        if (closed) return;
+        events.unsafeOffer({ _tag: 'Open', generation: id, connection: opened });
+        return Effect.sync(() => {
+          closed = true;
+          opened.close();
+        });
+      });
+
+      // Every restart waits for the schedule, which starts over once a process ran long enough after it answered
+      const restart = (cause: unknown) =>
+        Effect.suspend(() =>
+          establishedAt !== undefined &&
+          clock.unsafeCurrentTimeMillis() - establishedAt >= Duration.toMillis(healthyAfter)
+            ? schedule.reset
+            : Effect.void,
+        ).pipe(
+          Effect.zipRight(schedule.next(cause)),
+          Effect.catchAll(() =>
+            events.offer({ _tag: 'GiveUp', cause }).pipe(Effect.zipRight(schedule.reset)),
+          ),
+        );
+
+      yield* connection.pipe(
+        Effect.catchAll(restart),
+        Effect.forever,
+        Effect.interruptible,
+        Effect.forkScoped,
+      );
+
+      return RpcClient.Protocol.of({
+        run: (write) =>
+          Effect.flatMap(FiberRef.get(currentClientId), (id) => {
+            const client = { id, write };
+            clients.add(client);
+            return Effect.onExit(Effect.never, () => Effect.sync(() => clients.delete(client)));
+          }),
+        send: (message) =>
+          Effect.flatMap(FiberRef.get(currentClientId), (clientId) => {
+            switch (message._tag) {
+              case 'Request': {
+                const headers = withoutInternalHeaders(message.headers);
+                // Like the worker protocol, the process continues the trace from the `traceparent` header
+                return Effect.flatMap(currentTraceparent, (traceparent) =>
+                  Effect.sync(() => {
+                    const pending: PendingRequest = {
+                      request: {
+                        ...message,
+                        headers:
+                          Option.isSome(traceparent) &&
+                          !headers.some(([name]) => name === 'traceparent')
+                            ? [...headers, ['traceparent', traceparent.value]]
+                            : headers,
+                      },
+                      clientId,
+                      resumable: message.headers.some(
+                        ([name]) => name === STREAM_HEADER || name === QUERY_HEADER,
+                      ),
+                      generation: establishedAt !== undefined ? current?.generation : undefined,
+                      delivered: 0,
+                      skip: 0,
+                    };
+                    requests.set(message.id, pending);
+                    if (pending.generation !== undefined) transmit(pending.request);
+                  }),
+                );
+              }
+              case 'Interrupt':
+              case 'Ack':
+                return Effect.sync(() => {
+                  const pending = requests.get(message.requestId);
+                  if (message._tag === 'Interrupt') requests.delete(message.requestId);
+                  if (
+                    pending?.generation !== undefined &&
+                    pending.generation === current?.generation
+                  ) {
+                    transmit(message);
+                  }
+                });
+              default:
+                return Effect.void;
+            }
+          }),
+        supportsAck: true,
+        supportsTransferables: false,
+      });
+    }),
+  );
@@ -0,0 +1,99 @@
+import { FetchHttpClient } from '@effect/platform';
+import { Rpc, RpcClientError, RpcGroup } from '@effect/rpc';
+import { Effect, Layer, Schema } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { useRPCRequest } from './client';
+import { ResponseContext } from './context';
+import { withQuery } from './query';
+import { createEffectRPC } from './runtime';
+import { createRPCHandler } from './server';
+
+class NotFound extends Schema.TaggedError<NotFound>()('NotFound', {}) {}
+
+const router = RpcGroup.make(
+  withQuery(
+    Rpc.make('GetUser', {
+      payload: { id: Schema.String },
+      success: Schema.String,
+      error: NotFound,
+    }),
+    { cacheControl: 'public, max-age=60' },
+  ),
+);
+
+const handler = createRPCHandler(
+  router,
+  {
+    GetUser: ({ id }) =>
+      Effect.gen(function* () {
+        if (id === 'missing') return yield* new NotFound();
+        const response = yield* ResponseContext;
+        yield* response.setStatus(201);
+        return `user ${id}`;
+      }),
+  },
+  { serviceLayers: Layer.empty, errorMapping: { tags: { NotFound: 404 } } },
+);
+
+const get = (payload: string, headers: Record<string, string> = {}) =>
+  handler(
+    new Request(`http://localhost/rpc?procedure=GetUser&payload=${encodeURIComponent(payload)}`, {
+      headers,
+    }),
+  );
+
+describe('query procedures', () => {
+  it('answers a GET request with the cache headers of the query', async () => {
+    const response = await get('{"id":"1"}');
+    expect(response.status).toBe(201);
+    expect(response.headers.get('cache-control')).toBe('public, max-age=60');
+    expect(response.headers.get('etag')).toMatch(/^"[0-9a-f]{32}"$/);
+    expect(await response.text()).toContain('user 1');
+  });
+
+  it('answers with 304 if the ETag matches, even if the implementation sets a status', async () => {
+    const etag = (await get('{"id":"1"}')).headers.get('etag')!;
+    const notModified = await get('{"id":"1"}', { 'if-none-match': `W/${etag}, "other"` });
+    expect(notModified.status).toBe(304);
+    expect(notModified.headers.get('etag')).toBe(etag);
+    expect(await notModified.text()).toBe('');
+
+    const modified = await get('{"id":"2"}', { 'if-none-match': etag });
+    expect(modified.status).toBe(201);
+  });
+
+  it('answers a payload that is not valid JSON with an InvalidPayload', async () => {
+    const response = await get('{"id":');
+    expect(response.status).toBe(400);
+    expect(response.headers.get('etag')).toBeNull();
+    expect(await response.text()).toContain('Invalid JSON payload for \\"GetUser\\"');
+  });
+
+  it('fails a query answered with a status that is not an RPC response', async () => {
+    const query = (id: string, fetch: (request: Request) => Promise<Response>) =>
+      Effect.runPromise(
+        useRPCRequest(
+          router,
+          'GetUser',
+        )({ id }).pipe(
+          Effect.flip,
+          Effect.provide(createEffectRPC({ url: 'http://localhost/rpc' })),
+          Effect.provideService(FetchHttpClient.Fetch, (input, init) =>
+            fetch(new Request(input, init)),
+          ),
+        ),
+      );
+
+    expect(await query('missing', handler)).toBeInstanceOf(NotFound);
+    const error = await query(
+      '1',
+      async () =>
+        new Response('<h1>Bad Gateway</h1>', {
+          status: 502,
+          headers: { 'content-type': 'text/html' },
+        }),
+    );
+    expect(error).toBeInstanceOf(RpcClientError.RpcClientError);
+    expect(error.message).toBe('The query was answered with status 502');
+  });
+});
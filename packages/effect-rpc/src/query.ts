@@ -0,0 +1,148 @@
+import type { Rpc, RpcGroup } from '@effect/rpc';
+import type { RequestEncoded } from '@effect/rpc/RpcMessage';
+import { Context, Effect, Either, Option, type Schema } from 'effect';
+import { InvalidPayload } from './errors';
+
+/**
+ * Options of a query procedure, see {@link withQuery}.
+ *
+ * @since 0.9.0
+ */
+export type QueryOptions = {
+  /**
+   * The `Cache-Control` header of successful responses, e.g. `public, max-age=60` to let CDNs cache them for a minute.
+   * Defaults to `no-cache`, which lets browsers and CDNs store the response, but revalidate it with its `ETag`
+   * on every use. Implementations can still override it with the {@link ResponseContext}.
+   */
+  readonly cacheControl?: string;
+};
+
+/**
+ * The annotation marking a procedure as a query. Use {@link withQuery} to set it.
+ *
+ * @since 0.9.0
+ */
+export class QueryProcedure extends Context.Tag('effect-rpc/QueryProcedure')<
+  QueryProcedure,
+  { readonly cacheControl: string }
+>() {}
+
+/**
+ * Marks a procedure as a query: a read without side effects, whose responses can be cached.
+ *
+ * The client created with {@link createEffectRPC} sends queries with `GET`, with the procedure and the encoded
+ * payload in the query string (`?procedure=GetUserReq&payload={"id":"1"}`), so browsers and CDNs can cache them.
+ * The handler accepts `GET` for queries only (and for streaming procedures read as event streams), and answers them
+ * with the `Cache-Control` of the query and an `ETag` of the response, or with `304 Not Modified` if the
+ * `If-None-Match` header of the request matches it.
+ * Queries can still be sent with `POST`, e.g. by older clients.
+ *
+ * This only applies to the `http` protocol, JSON-RPC requests are always sent with `POST`.
+ *
+ * @param rpc - The procedure, e.g. created with `Rpc.fromTaggedRequest`.
+ * @param options - (Optional) The caching of the responses, see {@link QueryOptions}.
+ * @returns The procedure marked as a query.
+ *
+ * @example
+ * ```typescript
+ * export const helloRouter = RpcGroup.make(
+ *   withQuery(Rpc.fromTaggedRequest(SayHelloReq), { cacheControl: 'public, max-age=60' }),
+ *   Rpc.fromTaggedRequest(SayByeReq),
+ * );
+ * ```
+ *
+ * @since 0.9.0
+ */
+export function withQuery<R extends Rpc.Any>(rpc: R, options: QueryOptions = {}): R {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const withProps = rpc as unknown as Rpc.Rpc<string, Rpc.AnySchema, Schema.Schema.Any, any>;
+  return withProps.annotate(QueryProcedure, {
+    cacheControl: options.cacheControl ?? 'no-cache',
+  }) as unknown as R;
+}
+
+/**
+ * Returns the query options of a procedure, if it is a query.
+ *
+ * @internal
+ */
+export const getQuery = (rpc: Rpc.AnyWithProps): Option.Option<QueryProcedure['Type']> =>
+  Context.getOption(rpc.annotations, QueryProcedure);
+
+/**
+ * The names of the query parameters of a query sent with `GET`.
+ *
+ * @internal
+ */
+export const QUERY_PARAMS = { procedure: 'procedure', payload: 'payload' } as const;
+
+/**
+ * Returns the query addressed by the query string of a `GET` request, if the procedure is a query of the group.
+ *
+ * @internal
+ */
+export const findQuery = (
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  router: RpcGroup.RpcGroup<any>,
+  url: string,
+): Option.Option<{ readonly rpc: Rpc.AnyWithProps; readonly params: URLSearchParams }> => {
+  const params = new URL(url, 'http://localhost').searchParams;
+  const rpc = router.requests.get(params.get(QUERY_PARAMS.procedure) ?? '') as
+    | Rpc.AnyWithProps
+    | undefined;
+  return rpc !== undefined && Option.isSome(getQuery(rpc))
+    ? Option.some({ rpc, params })
+    : Option.none();
+};
+
+/**
+ * The message of the RPC server for a query sent with `GET`, or an {@link InvalidPayload}
+ * if the payload is not valid JSON.
+ *
+ * @internal
+ */
+export const makeQueryRequest = (
+  rpc: Rpc.AnyWithProps,
+  params: URLSearchParams,
+): Either.Either<RequestEncoded, InvalidPayload> => {
+  const payload = params.get(QUERY_PARAMS.payload);
+  let decoded: unknown = undefined;
+  if (payload !== null) {
+    try {
+      decoded = JSON.parse(payload);
+    } catch {
+      return Either.left(
+        new InvalidPayload({ message: `Invalid JSON payload for "${rpc._tag}"`, issues: [] }),
+      );
+    }
+  }
+  return Either.right({ _tag: 'Request', id: '0', tag: rpc._tag, payload: decoded, headers: [] });
+};
+
+/**
+ * The strong `ETag` of a response body, derived from its SHA-256 digest.
+ *
+ * @internal
+ */
+export const makeETag = (body: Uint8Array): Effect.Effect<string> =>
+  Effect.map(
+    // Web Crypto only takes bytes backed by an `ArrayBuffer`, so the body is copied
+    Effect.promise(() => crypto.subtle.digest('SHA-256', new Uint8Array(body))),
+    (digest) =>
+      `"${Array.from(new Uint8Array(digest).subarray(0, 16), (byte) =>
+        byte.toString(16).padStart(2, '0'),
+      ).join('')}"`,
+  );
+
+/**
+ * Checks whether the `If-None-Match` header of a request matches an `ETag`, using the weak comparison
+ * required for `GET` requests.
+ *
+ * @internal
+ */
+export const matchesETag = (ifNoneMatch: string | undefined, etag: string): boolean =>
+  ifNoneMatch !== undefined &&
+  ifNoneMatch
+    .split(',')
+    .map((tag) => tag.trim())
+    .some((tag) => tag === '*' || tag.replace(/^W\//, '') === etag);
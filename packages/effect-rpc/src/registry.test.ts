@@ -0,0 +1,80 @@
+import { FetchHttpClient } from '@effect/platform';
+import { Rpc, RpcGroup } from '@effect/rpc';
+import { Effect, Exit, Layer, Schema } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { useRPCRequest } from './client';
+import { createRpcGroupRegistry } from './registry';
+import { createEffectRPC } from './runtime';
+import type { RPCHandler } from './server';
+
+const rpcRouter = RpcGroup.make(Rpc.make('Ping', { success: Schema.String }));
+const usersRouter = RpcGroup.make(
+  Rpc.make('GetUser', { payload: { id: Schema.String }, success: Schema.String }),
+);
+
+const registry = createRpcGroupRegistry()
+  .registerGroup('rpc', rpcRouter)
+  .registerGroup('users', usersRouter);
+
+const implementations = {
+  rpc: { Ping: () => Effect.succeed('pong') },
+  users: { GetUser: ({ id }: { id: string }) => Effect.succeed(`user ${id}`) },
+};
+
+/**
+ * Runs an effect with a client sending its requests to the given URL, served by the handler.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const runAt = <A, E>(handler: RPCHandler, url: string, effect: Effect.Effect<A, E, any>) =>
+  Effect.runPromiseExit(
+    effect.pipe(
+      Effect.provide(createEffectRPC({ url })),
+      Effect.provideService(FetchHttpClient.Fetch, (input, init) =>
+        handler(new Request(input, init)),
+      ),
+    ) as Effect.Effect<A, E>,
+  );
+
+const ping = useRPCRequest(rpcRouter, 'Ping')();
+const getUser = useRPCRequest(usersRouter, 'GetUser')({ id: '1' });
+
+describe('RpcGroupRegistry.createServerHandler', () => {
+  it('dispatches by the last segment of the path by default', async () => {
+    const handler = registry.createServerHandler(implementations, { serviceLayers: Layer.empty });
+    expect(await runAt(handler, 'http://localhost/api/users', getUser)).toEqual(
+      Exit.succeed('user 1'),
+    );
+    expect(await runAt(handler, 'http://localhost/api/all', ping)).toEqual(Exit.succeed('pong'));
+  });
+
+  it('dispatches by the segment following the base path', async () => {
+    const handler = registry.createServerHandler(implementations, {
+      serviceLayers: Layer.empty,
+      basePath: '/api/rpc',
+    });
+    // `rpc` is both a tag and the last segment of the base path
+    expect(await runAt(handler, 'http://localhost/api/rpc', getUser)).toEqual(
+      Exit.succeed('user 1'),
+    );
+    expect(await runAt(handler, 'http://localhost/api/rpc/rpc', ping)).toEqual(
+      Exit.succeed('pong'),
+    );
+    expect(Exit.isFailure(await runAt(handler, 'http://localhost/api/rpc/rpc', getUser))).toBe(
+      true,
+    );
+
+    const post = (path: string) =>
+      handler(new Request(`http://localhost${path}`, { method: 'POST', body: '' }));
+    expect((await post('/api/rpc/unknown')).status).toBe(404);
+    expect((await post('/api/rpcx')).status).toBe(404);
+    expect((await post('/api/rpc/users/more')).status).toBe(404);
+  });
+
+  it('answers a malformed path with 400', async () => {
+    const handler = registry.createServerHandler(implementations, { serviceLayers: Layer.empty });
+    const response = await handler(
+      new Request('http://localhost/api/%E0%A4%A', { method: 'POST', body: '' }),
+    );
+    expect(response.status).toBe(400);
+  });
+});
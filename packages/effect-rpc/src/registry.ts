@@ -1,10 +1,77 @@
-import { RpcGroup } from '@effect/rpc';
+import type { OpenApi } from '@effect/platform';
+import { type Rpc, RpcGroup, RpcSerialization } from '@effect/rpc';
 import type { Context } from '@effect/rpc/Rpc';
-import { type InferClient, makeRPCRequest } from './helpers';
-import { createRPCHandler, type RequestImplementations, type RPCHandlerConfig } from './server';
+import { Effect, Layer } from 'effect';
+import { type InferClient, makeRPCRequest, type RPCRequest } from './helpers';
+import { createIntrospectionHandler, type IntrospectionConfig } from './introspection';
+import type { LoggingPolicy } from './logging';
+import { makeOpenAPI, type OpenAPIOptions } from './openapi';
+import { createProcessHandler, type ProcessHandler, type ProcessHandlerConfig } from './process';
+import { makeRestHandler, type RestHandlerConfig } from './rest';
+import {
+  createRPCHandler,
+  type HandlerContext,
+  type RequestImplementations,
+  type RPCHandler,
+  type RPCHandlerConfig,
+} from './server';
+import { GroupTag } from './tracing';
 
 type RegistryKey = string;
 
+/**
+ * Options of a registry created with {@link createRpcGroupRegistry}.
+ *
+ * @since 0.9.0
+ */
+export type RpcGroupRegistryOptions = {
+  /**
+   * What is logged about the requests made with `getRequest`, in place of the {@link LoggingPolicy}
+   * of the runtime they are run with. The logs include the tag of the group.
+   */
+  readonly logging?: LoggingPolicy;
+};
+
+/**
+ * Configuration of the server handler of a registry, see {@link RpcGroupRegistry.createServerHandler}.
+ * It is the configuration of {@link createRPCHandler}, shared by all groups, and the path the handler is mounted at.
+ *
+ * @template R - The type of the environment provided by the `serviceLayers` to the handlers.
+ * @template Rpcs - The procedures of all groups.
+ *
+ * @since 0.9.0
+ */
+export type RegistryHandlerConfig<R, Rpcs extends Rpc.Any = never> = RPCHandlerConfig<R, Rpcs> & {
+  /**
+   * The path the handler is mounted at, e.g. `/api/rpc`. If set, a request to the path itself is served by the merged
+   * endpoint, and a request to `/api/rpc/{tag}` by the group of the tag, so a tag can't be mistaken for a segment of
+   * the path. Other paths are answered with `404`.
+   * By default, the last segment of the path is matched against the tags.
+   */
+  readonly basePath?: string;
+};
+
+/**
+ * The procedures of all groups in a registry.
+ * @internal
+ */
+type RegistryRpcs<T extends Record<RegistryKey, RpcGroup.RpcGroup<any>>> = RpcGroup.Rpcs<
+  T[keyof T]
+>;
+
+/**
+ * Maps every tag of a registry to the {@link RequestImplementations} of its group.
+ * This type is used to ensure that every procedure of every registered group is implemented.
+ *
+ * @template T - A record mapping registry keys to their corresponding {@link RpcGroup.RpcGroup} instances.
+ * @template R - The environment type required by the request implementations.
+ *
+ * @since 0.9.0
+ */
+export type RegistryImplementations<T extends Record<RegistryKey, RpcGroup.RpcGroup<any>>, R> = {
+  readonly [K in keyof T]: RequestImplementations<T[K], InferClient<T[K]>, R>;
+};
+
 /**
  * Type representing a tagged handler with methods to access requests and perform RPC calls.
  *
@@ -54,7 +121,7 @@ export type TaggedRPCGroup<K extends RegistryKey, V extends RpcGroup.RpcGroup<an
   getRequest: <N extends keyof InferClient<V>>(
     name: N,
     payload: Parameters<InferClient<V>[N]>[0],
-  ) => ReturnType<InferClient<V>[N]>;
+  ) => RPCRequest<V, N>;
 
   /**
    * Creates a server handler for this RPC group.
@@ -68,7 +135,7 @@ export type TaggedRPCGroup<K extends RegistryKey, V extends RpcGroup.RpcGroup<an
    *   Each implementation should match the signature expected by the corresponding request.
    * @param config - Configuration options for the RPC handler, such as environment injection,
    *   error handling, or custom response formatting.
-   * @returns A function that takes a `globalThis.Request` and an optional `Context`, and returns a `Promise<Response>`.
+   * @returns An {@link RPCHandler}: a function that takes a `globalThis.Request` and an optional `Context`, and returns a `Promise<Response>`.
    *
    * @example
    * ```typescript
@@ -94,9 +161,13 @@ export type TaggedRPCGroup<K extends RegistryKey, V extends RpcGroup.RpcGroup<an
    * @since 0.8.0
    */
   createServerHandler: <R>(
-    requestImplementations: RequestImplementations<V, InferClient<V>, R>,
-    config: RPCHandlerConfig<R>,
-  ) => (request: globalThis.Request, context?: Context<never> | undefined) => Promise<Response>;
+    requestImplementations: RequestImplementations<
+      V,
+      InferClient<V>,
+      HandlerContext<R, RpcGroup.Rpcs<V>>
+    >,
+    config: RPCHandlerConfig<R, RpcGroup.Rpcs<V>>,
+  ) => RPCHandler;
 };
 
 /**
@@ -106,6 +177,7 @@ export type TaggedRPCGroup<K extends RegistryKey, V extends RpcGroup.RpcGroup<an
 function createTaggedRPCGroup<K extends RegistryKey, V extends RpcGroup.RpcGroup<any>>(
   tag: K,
   groups: V,
+  options: RpcGroupRegistryOptions,
 ): TaggedRPCGroup<K, V> {
   const taggedGroup = {
     tag,
@@ -120,17 +192,13 @@ function createTaggedRPCGroup<K extends RegistryKey, V extends RpcGroup.RpcGroup
       name: N,
       payload: Parameters<InferClient<V>[N]>[0],
     ) => {
-      const request = makeRPCRequest(groups, name);
+      const request = makeRPCRequest(groups, name, { group: tag, logging: options.logging });
       return request(payload);
     },
     createServerHandler(requestImplementations, config) {
-      return (request: globalThis.Request, context?: Context<never> | undefined) => {
-        return createRPCHandler(
-          groups,
-          requestImplementations,
-          config,
-        )(request, context) as Promise<Response>;
-      };
+      // Build the handler once, so the layer graph is shared by all requests.
+      // The procedures are annotated with the tag, so their spans are named after it.
+      return createRPCHandler(groups.annotateRpcs(GroupTag, tag), requestImplementations, config);
     },
   } as TaggedRPCGroup<K, V>;
 
@@ -227,8 +295,288 @@ export type RpcGroupRegistry<T extends Record<RegistryKey, RpcGroup.RpcGroup<any
    * @returns An array of all tags currently registered.
    */
   getTags(): (keyof T)[];
+
+  /**
+   * Creates a single server handler for all groups in this registry.
+   *
+   * Incoming requests are dispatched by the segment following the `basePath`, or by the last segment of the
+   * request path without one: if it matches a registered tag, the request is served by that group only.
+   * This allows mounting the handler on a catch-all route such as `/api/rpc/[tag]`.
+   * Any other path is served by a merged endpoint containing the procedures of all groups,
+   * so a single runtime created with {@link createEffectRPC} can reach every group through one URL.
+   *
+   * The merged endpoint requires procedure names to be unique across groups. If two groups
+   * share a procedure name, only the per-tag routes are served and other paths respond with `404`.
+   *
+   * @typeParam R - The environment type required by the request implementations.
+   * @param implementations - An object mapping every registered tag to the implementations of its group.
+   *   All groups and all of their procedures are required.
+   * @param config - Configuration options for the RPC handler, shared by all groups, see {@link RegistryHandlerConfig}.
+   *   The `middleware` option must provide the middleware used by any of the groups.
+   * @returns An {@link RPCHandler}: a function that takes a `globalThis.Request` and an optional `Context`, and returns a `Promise<Response>`.
+   *
+   * @example
+   * ```typescript
+   * // src/lib/rpc/registry.ts
+   * export const registry = createRpcGroupRegistry()
+   *   .registerGroup('hello', helloRouter)
+   *   .registerGroup('users', usersRouter);
+   *
+   * // src/app/api/rpc/[tag]/route.ts (or src/app/api/rpc/route.ts for the merged endpoint)
+   * const handler = registry.createServerHandler(
+   *   {
+   *     hello: {
+   *       SayHelloReq: ({ name }) => HelloService.sayHello(name),
+   *       SayByeReq: ({ name }) => HelloService.sayBye(name),
+   *     },
+   *     users: {
+   *       GetUserReq: ({ id }) => UserService.getUser(id),
+   *     },
+   *   },
+   *   { serviceLayers: Layer.mergeAll(HelloService.Default, UserService.Default), basePath: '/api/rpc' },
+   * );
+   *
+   * export const POST = handler;
+   * ```
+   *
+   * @since 0.9.0
+   */
+  createServerHandler<R>(
+    implementations: RegistryImplementations<T, HandlerContext<R, RegistryRpcs<T>>>,
+    config: RegistryHandlerConfig<R, RegistryRpcs<T>>,
+  ): RPCHandler;
+
+  /**
+   * Creates a route that describes the registry as JSON: for every tag, the procedures of its group with
+   * the JSON Schema of their payload, success and failure, and their metadata (title, description,
+   * middleware and annotations such as the authorization policy). See {@link RegistryManifest}.
+   *
+   * The manifest exposes the whole API surface, so the route is gated by a required `authorize` predicate.
+   * Requests that are not authorized are answered with `404`.
+   *
+   * @param config - Configuration of the route, see {@link IntrospectionConfig}.
+   * @returns A function that takes a `globalThis.Request` and returns a `Promise<Response>`.
+   *
+   * @example
+   * ```typescript
+   * // src/app/api/rpc/manifest/route.ts
+   * export const GET = registry.createIntrospectionHandler({
+   *   authorize: () => process.env.APP_ENV === 'staging',
+   * });
+   * ```
+   *
+   * @since 0.9.0
+   */
+  createIntrospectionHandler(
+    config: IntrospectionConfig,
+  ): (request: globalThis.Request) => Promise<Response>;
+
+  /**
+   * Creates an OpenAPI 3.1 document describing the procedures of all groups in this registry,
+   * for consumers that don't use TypeScript.
+   *
+   * The document describes the routes served by the REST handler of the registry
+   * (see {@link RpcGroupRegistry.createRestHandler}), not the RPC endpoint: the `servers` are the URL
+   * the REST handler is mounted at. Every procedure is described as an operation at its
+   * {@link withRoute | route} if it has one, `POST /{tag}/{procedure}` otherwise, and streaming procedures,
+   * which the REST handler doesn't serve, are left out. The payload (without the `_tag` of a
+   * `Schema.TaggedRequest`) is taken from the path parameters and the JSON body, or the query string for
+   * methods without a body. The success value is documented with the status `200` (`204` without a value),
+   * and the failures of the procedure and of its middleware (e.g. {@link Unauthorized}, or {@link Forbidden}
+   * with a policy) with the status of their `_tag` in the error mapping, `400` otherwise. Summaries and
+   * descriptions are read from the `title` and `description` annotations of the schemas.
+   *
+   * @param options - (Optional) Options of the document, see {@link OpenAPIOptions}.
+   * @returns The OpenAPI document, which can be served as JSON or written to a file.
+   *
+   * @example
+   * ```typescript
+   * // src/app/api/openapi.json/route.ts
+   * const document = registry.toOpenAPI({
+   *   info: { title: 'Users API', version: '2.1.0' },
+   *   servers: [{ url: 'https://api.example.com/api' }],
+   *   errorMapping: { tags: { UserNotFound: 404, Unauthorized: 401, Forbidden: 403 } },
+   * });
+   *
+   * export const GET = () => Response.json(document);
+   * ```
+   *
+   * @since 0.9.0
+   */
+  toOpenAPI(options?: OpenAPIOptions<RegistryRpcs<T>>): OpenApi.OpenAPISpec;
+
+  /**
+   * Creates a handler serving the procedures of all groups in this registry as conventional HTTP routes,
+   * see {@link createRestHandler}.
+   *
+   * Procedures with a route (see {@link withRoute}) are served at that route, the others at
+   * `POST /{tag}/{procedure}`, as described by {@link RpcGroupRegistry.toOpenAPI}.
+   *
+   * @typeParam R - The environment type required by the request implementations.
+   * @param implementations - An object mapping every registered tag to the implementations of its group.
+   * @param config - Configuration options for the handler, shared by all groups, see {@link RestHandlerConfig}.
+   * @returns An {@link RPCHandler}, mounted on a catch-all route.
+   * @throws {Error} If two procedures share a route, or a path parameter is not a field of the payload.
+   *
+   * @example
+   * ```typescript
+   * // src/app/api/[...path]/route.ts
+   * const handler = registry.createRestHandler(implementations, {
+   *   serviceLayers: Layer.mergeAll(HelloService.Default, UserService.Default),
+   *   basePath: '/api',
+   * });
+   *
+   * export { handler as GET, handler as POST, handler as PUT, handler as DELETE };
+   * ```
+   *
+   * @since 0.9.0
+   */
+  createRestHandler<R>(
+    implementations: RegistryImplementations<T, HandlerContext<R, RegistryRpcs<T>>>,
+    config: RestHandlerConfig<R, RegistryRpcs<T>>,
+  ): RPCHandler;
+
+  /**
+   * Creates a handler serving the procedures of all groups in this registry to another process,
+   * see {@link createProcessHandler}. The procedures of all groups are served together, so a single layer
+   * created with {@link createProcessRPC} reaches every group.
+   *
+   * @typeParam R - The environment type required by the request implementations.
+   * @param implementations - An object mapping every registered tag to the implementations of its group.
+   * @param config - Configuration options for the handler, shared by all groups, see {@link ProcessHandlerConfig}.
+   * @returns A {@link ProcessHandler}, accepting the standard streams of the process or the connections of a socket.
+   * @throws {Error} If two groups share a procedure name, or the serialization doesn't include framing.
+   *
+   * @example
+   * ```typescript
+   * // sidecar.ts
+   * const handler = registry.createProcessHandler(implementations, {
+   *   serviceLayers: Layer.mergeAll(HelloService.Default, UserService.Default),
+   * });
+   * handler.accept(process.stdin, process.stdout).then(handler.dispose);
+   * ```
+   *
+   * @since 0.9.0
+   */
+  createProcessHandler<R>(
+    implementations: RegistryImplementations<T, HandlerContext<R, RegistryRpcs<T>>>,
+    config: ProcessHandlerConfig<R, RegistryRpcs<T>>,
+  ): ProcessHandler;
 };
 
+/**
+ * Creates an RPC handler for every group of a registry.
+ * @internal
+ */
+function createGroupHandlers<T extends Record<RegistryKey, RpcGroup.RpcGroup<any>>, R>(
+  groups: T,
+  implementations: RegistryImplementations<T, HandlerContext<R, RegistryRpcs<T>>>,
+  config: RPCHandlerConfig<R, RegistryRpcs<T>>,
+) {
+  const tags = Object.keys(groups) as Array<keyof T & string>;
+  // Annotate the procedures with the tag of their group, so their spans are named after it
+  const annotated = Object.fromEntries(
+    tags.map((tag) => [tag, groups[tag]!.annotateRpcs(GroupTag, tag)]),
+  ) as T;
+  // Share one MemoMap between all handlers, so common service layers are only built once.
+  // Every handler gets the middleware of all groups, which covers the middleware of its own group.
+  const handlerConfig = {
+    ...config,
+    memoMap: config.memoMap ?? Effect.runSync(Layer.makeMemoMap),
+  } as RPCHandlerConfig<R, any>;
+
+  const handlers = new Map<string, RPCHandler>();
+  for (const tag of tags) {
+    handlers.set(tag, createRPCHandler(annotated[tag]!, implementations[tag], handlerConfig));
+  }
+  return { tags, annotated, handlerConfig, handlers };
+}
+
+/**
+ * Creates the server handler for a whole registry.
+ * @internal
+ */
+function createRegistryServerHandler<T extends Record<RegistryKey, RpcGroup.RpcGroup<any>>, R>(
+  groups: T,
+  implementations: RegistryImplementations<T, HandlerContext<R, RegistryRpcs<T>>>,
+  config: RegistryHandlerConfig<R, RegistryRpcs<T>>,
+): RPCHandler {
+  const { basePath: configBasePath, ...groupConfig } = config;
+  const { tags, annotated, handlerConfig, handlers } = createGroupHandlers(
+    groups,
+    implementations,
+    groupConfig as RPCHandlerConfig<R, RegistryRpcs<T>>,
+  );
+  const basePath =
+    configBasePath !== undefined ? configBasePath.split('/').filter(Boolean) : undefined;
+
+  // The merged endpoint is only available if no procedure name is used by more than one group
+  const procedureNames = tags.flatMap((tag) => Array.from(groups[tag]!.requests.keys()));
+  const isMergeable = new Set(procedureNames).size === procedureNames.length;
+  const mergedHandler = isMergeable
+    ? createRPCHandler(
+        RpcGroup.make().merge(...tags.map((tag) => annotated[tag]!)),
+        Object.assign({}, ...tags.map((tag) => implementations[tag])),
+        handlerConfig,
+      )
+    : undefined;
+
+  const handler = (request: globalThis.Request, context?: Context<never> | undefined) => {
+    const pathname = new URL(request.url).pathname;
+    let segments: Array<string>;
+    try {
+      segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    } catch {
+      return Promise.resolve(
+        Response.json({ error: `Invalid path "${pathname}"` }, { status: 400 }),
+      );
+    }
+
+    let groupHandler: RPCHandler | undefined;
+    if (basePath === undefined) {
+      const segment = segments.pop();
+      groupHandler = (segment !== undefined ? handlers.get(segment) : undefined) ?? mergedHandler;
+    } else {
+      // Only the path itself and the paths of the tags right below it are served
+      const rest = segments.slice(basePath.length);
+      const isMounted = basePath.every((segment, index) => segments[index] === segment);
+      if (!isMounted || rest.length > 1 || (rest.length === 1 && !handlers.has(rest[0]!))) {
+        return Promise.resolve(
+          Response.json({ error: `No RPC group found for path "${pathname}"` }, { status: 404 }),
+        );
+      }
+      groupHandler = rest.length === 0 ? mergedHandler : handlers.get(rest[0]!);
+    }
+
+    if (!groupHandler) {
+      return Promise.resolve(
+        Response.json(
+          {
+            error: `No RPC group found for path "${new URL(request.url).pathname}". Procedure names are not unique across groups, so each group must be addressed by its tag.`,
+          },
+          { status: 404 },
+        ),
+      );
+    }
+
+    return groupHandler(request, context);
+  };
+
+  // Disposing the registry handler disposes the handlers of all groups
+  const disposeEffect = Effect.forEach(
+    [...handlers.values(), ...(mergedHandler ? [mergedHandler] : [])],
+    (handler) => handler.disposeEffect,
+    { concurrency: 'unbounded', discard: true },
+  );
+  let disposed: Promise<void> | undefined;
+  const dispose = () => {
+    disposed ??= Effect.runPromise(disposeEffect);
+    return disposed;
+  };
+
+  return Object.assign(handler, { dispose, disposeEffect: Effect.promise(dispose) });
+}
+
 /**
  * Creates a type-safe handler registry that maintains exact type relationships.
  *
@@ -238,6 +586,7 @@ export type RpcGroupRegistry<T extends Record<RegistryKey, RpcGroup.RpcGroup<any
  * You can use it to manage all requests and handlers in a type-safe manner,
  * and access the requests directly without needing to know all request names or the router.
  *
+ * @param options - (Optional) Options shared by all groups of the registry, see {@link RpcGroupRegistryOptions}.
  * @returns A registry object with methods to register and retrieve groups with full type safety
  *
 
@@ -255,9 +604,9 @@ export type RpcGroupRegistry<T extends Record<RegistryKey, RpcGroup.RpcGroup<any
  *
  * @since 0.8.0
  */
-export function createRpcGroupRegistry<
-  T extends Record<RegistryKey, RpcGroup.RpcGroup<any>> = {},
->() {
+export function createRpcGroupRegistry<T extends Record<RegistryKey, RpcGroup.RpcGroup<any>> = {}>(
+  options: RpcGroupRegistryOptions = {},
+) {
   function createRegistryWithRpcGroups<T extends Record<RegistryKey, RpcGroup.RpcGroup<any>>>(
     groups: T,
   ): RpcGroupRegistry<T> {
@@ -292,7 +641,7 @@ export function createRpcGroupRegistry<
         if (!group) {
           throw new Error(`RPC group with tag "${String(tag)}" not found`);
         }
-        return createTaggedRPCGroup(tag, group) as TaggedRPCGroup<K, T[K]>;
+        return createTaggedRPCGroup(tag, group, options) as TaggedRPCGroup<K, T[K]>;
       },
 
       has<K extends string>(tag: K): tag is K & keyof T {
@@ -302,6 +651,66 @@ export function createRpcGroupRegistry<
       getTags(): (keyof T)[] {
         return Object.keys(groups) as (keyof T)[];
       },
+
+      createServerHandler<R>(
+        implementations: RegistryImplementations<T, HandlerContext<R, RegistryRpcs<T>>>,
+        config: RegistryHandlerConfig<R, RegistryRpcs<T>>,
+      ) {
+        return createRegistryServerHandler(groups, implementations, config);
+      },
+
+      createIntrospectionHandler(config: IntrospectionConfig) {
+        return createIntrospectionHandler(groups, config);
+      },
+
+      toOpenAPI(options: OpenAPIOptions<RegistryRpcs<T>> = {}) {
+        return makeOpenAPI(groups, options);
+      },
+
+      createRestHandler<R>(
+        implementations: RegistryImplementations<T, HandlerContext<R, RegistryRpcs<T>>>,
+        config: RestHandlerConfig<R, RegistryRpcs<T>>,
+      ) {
+        const { basePath, ...handlerConfig } = config;
+        const { tags, annotated, handlers } = createGroupHandlers(groups, implementations, {
+          ...handlerConfig,
+          serialization: RpcSerialization.layerJson,
+          protocol: 'http',
+        } as RPCHandlerConfig<R, RegistryRpcs<T>>);
+        return makeRestHandler(
+          tags.map((tag) => ({
+            group: annotated[tag]!,
+            handler: handlers.get(tag)!,
+            defaultPath: (procedure: string) => `/${tag}/${procedure}`,
+          })),
+          { basePath },
+        );
+      },
+
+      createProcessHandler<R>(
+        implementations: RegistryImplementations<T, HandlerContext<R, RegistryRpcs<T>>>,
+        config: ProcessHandlerConfig<R, RegistryRpcs<T>>,
+      ) {
+        const tags = Object.keys(groups) as Array<keyof T & string>;
+        const procedureNames = tags.flatMap((tag) => Array.from(groups[tag]!.requests.keys()));
+        const duplicate = procedureNames.find(
+          (name, index) => procedureNames.indexOf(name) !== index,
+        );
+        if (duplicate !== undefined) {
+          throw new Error(
+            `Procedure "${duplicate}" is registered by more than one group, so the groups can't be served by one process`,
+          );
+        }
+        // Annotate the procedures with the tag of their group, so their spans are named after it
+        const annotated = Object.fromEntries(
+          tags.map((tag) => [tag, groups[tag]!.annotateRpcs(GroupTag, tag)]),
+        ) as T;
+        return createProcessHandler(
+          RpcGroup.make().merge(...tags.map((tag) => annotated[tag]!)),
+          Object.assign({}, ...tags.map((tag) => implementations[tag])),
+          config as ProcessHandlerConfig<R, any>,
+        );
+      },
     };
 
     return registry;
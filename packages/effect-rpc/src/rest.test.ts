@@ -0,0 +1,141 @@
+import { Rpc, RpcGroup } from '@effect/rpc';
+import { Effect, Layer, Schema, Stream } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { createRestHandler, withRoute } from './rest';
+
+class UserNotFound extends Schema.TaggedError<UserNotFound>()('UserNotFound', {
+  id: Schema.Number,
+}) {}
+
+const Search = Schema.Struct({
+  id: Schema.Number,
+  name: Schema.optional(Schema.String),
+  active: Schema.optional(Schema.Boolean),
+  tags: Schema.optional(Schema.Array(Schema.String)),
+});
+
+const router = RpcGroup.make(
+  withRoute(
+    Rpc.make('UpdateUser', { payload: Search, success: Search, error: UserNotFound }),
+    'PUT /users/:id',
+  ),
+  withRoute(Rpc.make('Reset', {}), 'POST /reset'),
+  Rpc.make('Watch', { success: Schema.Number, stream: true }),
+);
+
+const handler = createRestHandler(
+  router,
+  {
+    UpdateUser: (payload) =>
+      payload.id === 0 ? Effect.fail(new UserNotFound({ id: 0 })) : Effect.succeed(payload),
+    Reset: () => Effect.void,
+    Watch: () => Stream.make(1, 2),
+  },
+  { serviceLayers: Layer.empty, basePath: '/api', errorMapping: { tags: { UserNotFound: 404 } } },
+);
+
+const request = (method: string, path: string, body?: unknown) =>
+  handler(
+    new Request(`http://localhost${path}`, {
+      method,
+      body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body),
+    }),
+  );
+
+describe('createRestHandler', () => {
+  it('decodes the payload from the path, the query string and the body, in that order of precedence', async () => {
+    const response = await request(
+      'PUT',
+      '/api/users/7?id=8&name=query&active=true&tags=a&tags=b',
+      {
+        id: 9,
+        name: 'body',
+        active: false,
+      },
+    );
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ id: 7, name: 'query', active: true, tags: ['a', 'b'] });
+
+    const fromBody = await request('PUT', '/api/users/7', { name: 'body' });
+    expect(await fromBody.json()).toEqual({ id: 7, name: 'body' });
+  });
+
+  it('answers invalid payloads with 400', async () => {
+    const invalidJson = await request('PUT', '/api/users/7', '{');
+    expect(invalidJson.status).toBe(400);
+    expect(await invalidJson.json()).toMatchObject({ _tag: 'InvalidPayload' });
+
+    const invalidField = await request('PUT', '/api/users/abc');
+    expect(invalidField.status).toBe(400);
+    expect(await invalidField.json()).toMatchObject({ _tag: 'InvalidPayload' });
+  });
+
+  it('answers failures with the status of the error mapping, and empty successes with 204', async () => {
+    const notFound = await request('PUT', '/api/users/0');
+    expect(notFound.status).toBe(404);
+    expect(await notFound.json()).toEqual({ _tag: 'UserNotFound', id: 0 });
+    expect((await request('POST', '/api/reset')).status).toBe(204);
+  });
+
+  it('only serves the paths below the base path', async () => {
+    expect((await request('POST', '/apix/reset')).status).toBe(404);
+    expect((await request('POST', '/reset')).status).toBe(404);
+    expect((await request('GET', '/api/reset')).status).toBe(405);
+  });
+
+  it('answers a malformed path with 400', async () => {
+    expect((await request('PUT', '/api/users/%E0%A4%A')).status).toBe(400);
+  });
+
+  it('prefers static segments over path parameters from the first segment where routes differ', async () => {
+    const profile = createRestHandler(
+      RpcGroup.make(
+        withRoute(
+          Rpc.make('GetUserTab', { payload: { id: Schema.String, tab: Schema.String } }),
+          'GET /users/:id/:tab',
+        ),
+        withRoute(
+          Rpc.make('GetPosts', { payload: { id: Schema.String }, success: Schema.String }),
+          'GET /users/:id/posts',
+        ),
+        withRoute(
+          Rpc.make('GetMyTab', { payload: { tab: Schema.String }, success: Schema.String }),
+          'GET /users/me/:tab',
+        ),
+      ),
+      {
+        GetUserTab: () => Effect.void,
+        GetPosts: ({ id }) => Effect.succeed(`posts of ${id}`),
+        GetMyTab: ({ tab }) => Effect.succeed(`my ${tab}`),
+      },
+      { serviceLayers: Layer.empty },
+    );
+    const get = async (path: string) =>
+      (await profile(new Request(`http://localhost${path}`))).json();
+    expect(await get('/users/me/posts')).toBe('my posts');
+    expect(await get('/users/1/posts')).toBe('posts of 1');
+  });
+
+  it('refuses two routes matching the same paths', () => {
+    expect(() =>
+      createRestHandler(
+        RpcGroup.make(
+          withRoute(Rpc.make('GetUser', { payload: { id: Schema.String } }), 'GET /users/:id'),
+          withRoute(
+            Rpc.make('GetByName', { payload: { name: Schema.String } }),
+            'GET /users/:name',
+          ),
+        ),
+        { GetUser: () => Effect.void, GetByName: () => Effect.void },
+        { serviceLayers: Layer.empty },
+      ),
+    ).toThrow('The route "GET /users/:name" of "GetByName" is already used by "GetUser".');
+  });
+
+  it('refuses streaming procedures', async () => {
+    expect((await request('POST', '/api/Watch')).status).toBe(501);
+    expect(() =>
+      withRoute(Rpc.make('Watch', { success: Schema.Number, stream: true }), 'GET /watch'),
+    ).toThrow('The streaming procedure "Watch" can\'t have a REST route.');
+  });
+});
@@ -0,0 +1,471 @@
+import { HttpMethod } from '@effect/platform';
+import { type Rpc, type RpcGroup, RpcSchema, RpcSerialization } from '@effect/rpc';
+import type { Context as RpcContext } from '@effect/rpc/Rpc';
+import type { FromServerEncoded } from '@effect/rpc/RpcMessage';
+import { Context, Effect, Either, Option, type Schema, SchemaAST } from 'effect';
+import type { InvalidPayload } from './errors';
+import { firstFailure, hasPayloadTag, type InferClient } from './helpers';
+import { recordRejection } from './metrics';
+import {
+  createRPCHandler,
+  type HandlerContext,
+  type RequestImplementations,
+  type RPCHandler,
+  type RPCHandlerConfig,
+} from './server';
+
+/**
+ * The HTTP method and path a procedure is served at by a REST handler, e.g. `GET /users/:id`.
+ * Segments starting with `:` are path parameters, which must be fields of the payload.
+ *
+ * @since 0.9.0
+ */
+export type RestRoute = `${HttpMethod.HttpMethod} /${string}`;
+
+/**
+ * The annotation holding the route of a procedure. Use {@link withRoute} to set it.
+ *
+ * @since 0.9.0
+ */
+export class HttpRoute extends Context.Tag('effect-rpc/HttpRoute')<
+  HttpRoute,
+  { readonly method: HttpMethod.HttpMethod; readonly path: string }
+>() {}
+
+/**
+ * Attaches a REST route to a procedure, so {@link createRestHandler} serves it at that route
+ * in addition to the RPC protocol.
+ *
+ * The payload is decoded from the path parameters, the query string and the JSON body (in that order of
+ * precedence). Query and path parameters are converted to numbers and booleans where the payload schema
+ * expects them, and repeated query parameters fill array fields.
+ *
+ * Streaming procedures can't be served as REST routes, as their elements have no plain JSON response.
+ *
+ * @param rpc - The procedure, e.g. created with `Rpc.fromTaggedRequest`.
+ * @param route - The method and path of the procedure, e.g. `GET /users/:id`.
+ * @returns The procedure with the route.
+ * @throws {Error} If the method of the route is not an HTTP method, or if the procedure is a streaming procedure.
+ *
+ * @example
+ * ```typescript
+ * export const usersRouter = RpcGroup.make(
+ *   withRoute(Rpc.fromTaggedRequest(GetUserReq), 'GET /users/:id'),
+ *   withRoute(Rpc.fromTaggedRequest(CreateUserReq), 'POST /users'),
+ * );
+ * ```
+ *
+ * @since 0.9.0
+ */
+export function withRoute<R extends Rpc.Any>(rpc: R, route: RestRoute): R {
+  const [method, path] = route.split(' ', 2);
+  if (!HttpMethod.isHttpMethod(method) || path === undefined || !path.startsWith('/')) {
+    throw new Error(`Invalid route "${route}", expected e.g. "GET /users/:id".`);
+  }
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const withProps = rpc as unknown as Rpc.Rpc<string, Rpc.AnySchema, Schema.Schema.Any, any>;
+  if (RpcSchema.isStreamSchema(withProps.successSchema)) {
+    throw new Error(`The streaming procedure "${withProps._tag}" can't have a REST route.`);
+  }
+  return withProps.annotate(HttpRoute, { method, path }) as unknown as R;
+}
+
+/**
+ * Returns the route of a procedure, or `POST` to the default path if it has none.
+ *
+ * @internal
+ */
+export const getRoute = (
+  rpc: Rpc.AnyWithProps,
+  defaultPath: string,
+): { readonly method: HttpMethod.HttpMethod; readonly path: string } =>
+  Option.getOrElse(Context.getOption(rpc.annotations, HttpRoute), () => ({
+    method: 'POST' as const,
+    path: defaultPath,
+  }));
+
+/**
+ * The names of the path parameters of a route path, e.g. `['id']` for `/users/:id`.
+ *
+ * @internal
+ */
+export const pathParams = (path: string): Array<string> =>
+  path
+    .split('/')
+    .filter((segment) => segment.startsWith(':'))
+    .map((segment) => segment.slice(1));
+
+/**
+ * The encoded fields of the payload of a procedure, without the `_tag` of a `Schema.TaggedRequest`,
+ * or `None` if the payload is not a struct.
+ *
+ * @internal
+ */
+export const payloadFields = (
+  payload: Schema.Schema.Any,
+): Option.Option<ReadonlyArray<SchemaAST.PropertySignature>> => {
+  const encoded = SchemaAST.encodedAST(payload.ast);
+  return SchemaAST.isTypeLiteral(encoded)
+    ? Option.some(encoded.propertySignatures.filter((property) => property.name !== '_tag'))
+    : Option.none();
+};
+
+/**
+ * Configuration of a REST handler. It is the same as the configuration of {@link createRPCHandler},
+ * except for the serialization and the protocol, as the REST routes always speak plain JSON.
+ *
+ * @template R - The type of the environment provided by the `serviceLayers` to the handlers.
+ * @template Rpcs - The procedures of the group.
+ *
+ * @since 0.9.0
+ */
+export type RestHandlerConfig<R, Rpcs extends Rpc.Any = never> = Omit<
+  RPCHandlerConfig<R, Rpcs>,
+  'serialization' | 'protocol'
+> & {
+  /**
+   * The path the handler is mounted at, which is removed from the path of the requests
+   * before they are matched against the routes, e.g. `/api`. Defaults to the root.
+   */
+  readonly basePath?: string;
+};
+
+/**
+ * Creates a handler serving the procedures of a group as conventional HTTP routes,
+ * for consumers that can't speak the RPC protocol (webhooks, curl scripts, third-party integrations).
+ *
+ * Procedures with a route (see {@link withRoute}) are served at that route, the others at `POST /{procedure}`.
+ * Requests are run through the same pipeline as {@link createRPCHandler}: the middleware, authorization
+ * policies, logging, tracing and metrics apply to them as well.
+ *
+ * Successes are answered with their JSON encoding and the status `200` (`204` if there is no value),
+ * failures with the JSON encoding of the error and the status of the error mapping, `400` if the failure
+ * is not mapped. Invalid payloads are answered with an {@link InvalidPayload} and `400`, unknown routes with `404`,
+ * and known paths with another method with `405`. Streaming procedures are not supported: they are answered
+ * with `501`.
+ *
+ * @param router - The RPC router group defining all available endpoints.
+ * @param reqImplementations - An object mapping every endpoint name to its implementation. All endpoints are required.
+ * @param config - Configuration object, see {@link RestHandlerConfig}.
+ * @returns An {@link RPCHandler}, mounted on a catch-all route.
+ * @throws {Error} If two procedures share a route, or a path parameter is not a field of the payload.
+ *
+ * @example
+ * ```typescript
+ * // src/app/api/[...path]/route.ts
+ * const handler = createRestHandler(usersRouter, {
+ *   GetUserReq: ({ id }) => UserService.getUser(id),
+ *   CreateUserReq: (user) => UserService.createUser(user),
+ * }, {
+ *   serviceLayers: UserService.Default,
+ *   errorMapping: { tags: { UserNotFound: 404 } },
+ *   basePath: '/api',
+ * });
+ *
+ * export { handler as GET, handler as POST };
+ * ```
+ *
+ * @since 0.9.0
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function createRestHandler<T extends RpcGroup.RpcGroup<any>, V extends InferClient<T>, R>(
+  router: T,
+  reqImplementations: RequestImplementations<T, V, HandlerContext<R, RpcGroup.Rpcs<T>>>,
+  config: RestHandlerConfig<R, RpcGroup.Rpcs<T>>,
+): RPCHandler {
+  const { basePath, ...handlerConfig } = config;
+  const handler = createRPCHandler(router, reqImplementations, {
+    ...handlerConfig,
+    serialization: RpcSerialization.layerJson,
+    protocol: 'http',
+  } as RPCHandlerConfig<R, RpcGroup.Rpcs<T>>);
+  return makeRestHandler([{ group: router, handler, defaultPath: (name) => `/${name}` }], {
+    basePath,
+  });
+}
+
+/**
+ * A route of a REST handler.
+ *
+ * @internal
+ */
+type CompiledRoute = {
+  readonly method: HttpMethod.HttpMethod;
+  readonly path: string;
+  readonly segments: ReadonlyArray<string>;
+  readonly rpc: Rpc.AnyWithProps;
+  readonly handler: RPCHandler;
+};
+
+/**
+ * Orders the routes segment by segment: at the first position where one route has a static segment and the other
+ * a path parameter, the static segment comes first. Routes of different lengths never match the same path,
+ * they are only ordered by length so the order is total.
+ */
+const compareRoutes = (a: CompiledRoute, b: CompiledRoute): number => {
+  for (const [index, segment] of a.segments.entries()) {
+    const other = b.segments[index];
+    if (other === undefined) break;
+    const isParam = segment.startsWith(':');
+    if (isParam !== other.startsWith(':')) return isParam ? 1 : -1;
+  }
+  return a.segments.length - b.segments.length;
+};
+
+/**
+ * Creates a REST handler that forwards the requests to RPC handlers using the JSON serialization.
+ *
+ * @throws {Error} If two procedures share a route, or a path parameter is not a field of the payload.
+ *
+ * @internal
+ */
+export const makeRestHandler = (
+  entries: ReadonlyArray<{
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    readonly group: RpcGroup.RpcGroup<any>;
+    readonly handler: RPCHandler;
+    readonly defaultPath: (procedure: string) => string;
+  }>,
+  options: { readonly basePath?: string | undefined },
+): RPCHandler => {
+  const routes: Array<CompiledRoute> = [];
+  for (const { group, handler, defaultPath } of entries) {
+    for (const rpc of group.requests.values() as Iterable<Rpc.AnyWithProps>) {
+      const { method, path } = getRoute(rpc, defaultPath(rpc._tag));
+      const segments = path.split('/').filter(Boolean);
+      const duplicate = routes.find(
+        (route) =>
+          route.method === method &&
+          route.segments.length === segments.length &&
+          route.segments.every(
+            (segment, index) =>
+              segment === segments[index] ||
+              (segment.startsWith(':') && segments[index]!.startsWith(':')),
+          ),
+      );
+      if (duplicate) {
+        throw new Error(
+          `The route "${method} ${path}" of "${rpc._tag}" is already used by "${duplicate.rpc._tag}".`,
+        );
+      }
+      const fields = payloadFields(rpc.payloadSchema);
+      for (const param of pathParams(path)) {
+        if (Option.isNone(fields) || !fields.value.some((field) => field.name === param)) {
+          throw new Error(
+            `The path parameter "${param}" of "${rpc._tag}" is not a field of its payload.`,
+          );
+        }
+      }
+      routes.push({ method, path, segments, rpc, handler });
+    }
+  }
+  // Static segments take precedence over path parameters, e.g. `/users/me` over `/users/:id`,
+  // from the first segment where the routes differ, e.g. `/users/me/:tab` over `/users/:id/posts`
+  routes.sort(compareRoutes);
+
+  const basePath = (options.basePath ?? '').replace(/\/+$/, '');
+
+  const handler = async (request: globalThis.Request, context?: RpcContext<never> | undefined) => {
+    const url = new URL(request.url);
+    const notFound = () =>
+      Response.json({ error: `No route found for "${url.pathname}"` }, { status: 404 });
+    if (url.pathname !== basePath && !url.pathname.startsWith(`${basePath}/`)) {
+      return notFound();
+    }
+    let segments: Array<string>;
+    try {
+      segments = url.pathname
+        .slice(basePath.length)
+        .split('/')
+        .filter(Boolean)
+        .map(decodeURIComponent);
+    } catch {
+      return Response.json({ error: `Invalid path "${url.pathname}"` }, { status: 400 });
+    }
+
+    const matches = routes.flatMap((route) => {
+      if (route.segments.length !== segments.length) return [];
+      const params: Record<string, string> = {};
+      for (const [index, segment] of route.segments.entries()) {
+        if (segment.startsWith(':')) params[segment.slice(1)] = segments[index]!;
+        else if (segment !== segments[index]) return [];
+      }
+      return [{ route, params }];
+    });
+    if (matches.length === 0) return notFound();
+    const match = matches.find(({ route }) => route.method === request.method);
+    if (!match) {
+      const allow = [...new Set(matches.map(({ route }) => route.method))].join(', ');
+      return Response.json(
+        { error: `Method ${request.method} not allowed for "${url.pathname}"` },
+        { status: 405, headers: { allow } },
+      );
+    }
+    if (RpcSchema.isStreamSchema(match.route.rpc.successSchema)) {
+      return Response.json(
+        {
+          error: `The streaming procedure "${match.route.rpc._tag}" is not served as a REST route`,
+        },
+        { status: 501 },
+      );
+    }
+
+    const payload = await decodePayload(request, url, match.route, match.params);
+    if (Either.isLeft(payload)) {
+      Effect.runSync(recordRejection(match.route.rpc, payload.left));
+      return Response.json(payload.left, { status: 400 });
+    }
+
+    const headers = new Headers(request.headers);
+    headers.delete('content-length');
+    headers.set('content-type', 'application/json');
+    const response = await match.route.handler(
+      new Request(request.url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          _tag: 'Request',
+          id: '0',
+          tag: match.route.rpc._tag,
+          payload: payload.right,
+          headers: [],
+        }),
+        signal: request.signal,
+      }),
+      context,
+    );
+    return toRestResponse(response);
+  };
+
+  const handlers = [...new Set(entries.map(({ handler }) => handler))];
+  const disposeEffect = Effect.forEach(handlers, (handler) => handler.disposeEffect, {
+    concurrency: 'unbounded',
+    discard: true,
+  });
+  let disposed: Promise<void> | undefined;
+  const dispose = () => {
+    disposed ??= Effect.runPromise(disposeEffect);
+    return disposed;
+  };
+
+  return Object.assign(handler, { dispose, disposeEffect: Effect.promise(dispose) });
+};
+
+/**
+ * Builds the encoded payload of a procedure from the path parameters, the query string and the JSON body
+ * of a request, or an {@link InvalidPayload} if the body is not valid JSON.
+ *
+ * @internal
+ */
+const decodePayload = async (
+  request: globalThis.Request,
+  url: URL,
+  route: CompiledRoute,
+  params: Record<string, string>,
+): Promise<Either.Either<unknown, typeof InvalidPayload.Encoded>> => {
+  const invalid = (message: string) =>
+    Either.left({ _tag: 'InvalidPayload' as const, message, issues: [] });
+
+  let body: unknown = undefined;
+  const text = HttpMethod.hasBody(route.method) ? await request.text() : '';
+  if (text.trim() !== '') {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return invalid(`Invalid JSON body for "${route.rpc._tag}"`);
+    }
+  }
+
+  const fields = payloadFields(route.rpc.payloadSchema);
+  // A payload that is not a struct can only be sent as the body
+  if (Option.isNone(fields)) return Either.right(body);
+  if (body !== undefined && (typeof body !== 'object' || body === null || Array.isArray(body))) {
+    return invalid(`The JSON body for "${route.rpc._tag}" must be an object`);
+  }
+
+  const payload: Record<string, unknown> = { ...(body as object | undefined) };
+  for (const field of fields.value) {
+    if (typeof field.name !== 'string') continue;
+    const values = url.searchParams.getAll(field.name);
+    if (values.length > 0) payload[field.name] = coerceParam(values, field.type);
+  }
+  for (const field of fields.value) {
+    const param = typeof field.name === 'string' ? params[field.name] : undefined;
+    if (param !== undefined) payload[field.name as string] = coerceParam([param], field.type);
+  }
+
+  // The `_tag` of a `Schema.TaggedRequest` is implied by the route
+  if (hasPayloadTag(route.rpc)) payload['_tag'] = route.rpc._tag;
+  return Either.right(payload);
+};
+
+/**
+ * Converts the values of a path or query parameter to the type the encoded payload expects:
+ * numbers and booleans are parsed, and arrays take all values.
+ *
+ * @internal
+ */
+const coerceParam = (values: ReadonlyArray<string>, type: SchemaAST.AST): unknown => {
+  const members: ReadonlyArray<SchemaAST.AST> = SchemaAST.isUnion(type) ? type.types : [type];
+  const array = members.find((member): member is SchemaAST.TupleType =>
+    SchemaAST.isTupleType(member),
+  );
+  if (array !== undefined) {
+    const item = array.rest[0]?.type;
+    return values.map((value) => (item ? coerceParam([value], item) : value));
+  }
+  const value = values[values.length - 1]!;
+  const accepts = (keyword: 'number' | 'boolean') =>
+    members.some(
+      (member) =>
+        (keyword === 'number'
+          ? SchemaAST.isNumberKeyword(member)
+          : SchemaAST.isBooleanKeyword(member)) ||
+        (SchemaAST.isLiteral(member) && typeof member.literal === keyword),
+    );
+  if (accepts('number') && value.trim() !== '' && !Number.isNaN(Number(value)))
+    return Number(value);
+  if (accepts('boolean') && (value === 'true' || value === 'false')) return value === 'true';
+  return value;
+};
+
+/**
+ * Converts the response of an RPC handler using the JSON serialization to a plain JSON response.
+ *
+ * @internal
+ */
+const toRestResponse = async (response: Response): Promise<Response> => {
+  const headers = new Headers(response.headers);
+  headers.delete('content-length');
+  headers.set('content-type', 'application/json');
+
+  let messages: ReadonlyArray<FromServerEncoded>;
+  try {
+    messages = (await response.json()) as ReadonlyArray<FromServerEncoded>;
+  } catch {
+    // Not an RPC response, e.g. the `503` of a handler that is shutting down
+    return new Response(null, { status: response.status, headers });
+  }
+
+  const json = (body: unknown, status: number) =>
+    new Response(JSON.stringify(body), { status, headers });
+  const defectStatus = response.status === 200 ? 500 : response.status;
+
+  for (const message of messages) {
+    if (message._tag === 'Defect') return json(message.defect, defectStatus);
+    if (message._tag !== 'Exit') continue;
+    if (message.exit._tag === 'Success') {
+      const { value } = message.exit;
+      return value === undefined
+        ? new Response(null, { status: response.status === 200 ? 204 : response.status, headers })
+        : json(value, response.status);
+    }
+    const failure = firstFailure(message.exit.cause);
+    if (failure?._tag === 'Fail') {
+      // Typed failures are sent with `200` by the RPC protocol, unless they are mapped
+      return json(failure.error, response.status === 200 ? 400 : response.status);
+    }
+    return json(failure?._tag === 'Die' ? failure.defect : null, defectStatus);
+  }
+  return json(null, defectStatus);
+};
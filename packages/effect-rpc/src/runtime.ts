@@ -1,9 +1,32 @@
-import { FetchHttpClient, HttpServer } from '@effect/platform';
-import { Rpc, RpcClient, RpcGroup, RpcSerialization } from '@effect/rpc';
+import { FetchHttpClient, HttpClient, HttpClientRequest, HttpServer } from '@effect/platform';
+import {
+  Rpc,
+  RpcClient,
+  RpcClientError,
+  RpcGroup,
+  RpcMiddleware,
+  RpcSerialization,
+} from '@effect/rpc';
+import type { FromServerEncoded, RequestEncoded } from '@effect/rpc/RpcMessage';
 import * as Layer from 'effect/Layer';
 import * as Schema from 'effect/Schema';
-import type { SerializationLayer } from './helpers';
-import { ManagedRuntime } from 'effect';
+import {
+  isReplayableStream,
+  QUERY_HEADER,
+  type SerializationLayer,
+  withoutInternalHeaders,
+} from './helpers';
+import { Effect, Either, ManagedRuntime, Stream, type Tracer } from 'effect';
+import { layerJsonRpcProtocol } from './jsonrpc';
+import { RequestLogging, type LoggingPolicy } from './logging';
+import {
+  acceptsEventStream,
+  DEFAULT_RETRY_MILLIS,
+  EVENT_STREAM_CONTENT_TYPE,
+  makeEventStreamParser,
+  MAX_EVENT_STREAM_RECONNECTS,
+} from './sse';
+import { layerWebSocketProtocol, type ClientProtocol, type WebSocketOptions } from './websocket';
 
 /**
  * Creates an RPC backend layer using HTTP protocol.
@@ -50,8 +73,20 @@ export function makeRPCBackendLayer(config: { url: string; endpoint?: string })
  * @param config.url - The base URL of the RPC server.
  * @param config.endpoint - (Optional) The specific endpoint path to append to the base URL.
  * @param config.serialization - (Optional) Custom serialization layer to use for RPC communication of type `SerializationLayer`.
- *
- * @returns A Layer instance that provides the configured RPC client.
+ * @param config.protocol - (Optional) The protocol spoken with the handler, see {@link ClientProtocol}. Defaults to `http`.
+ * With `json-rpc`, the `serialization` is not used. It must match the `protocol` of the handler, and with `websocket`,
+ * the server must be a {@link createWebSocketHandler | WebSocket handler}. The `sse` protocol is served by handlers
+ * with the `http` protocol.
+ * @param config.websocket - (Optional) The heartbeat and reconnection of the `websocket` protocol, see {@link WebSocketOptions}.
+ * After a reconnection, active streams are resubscribed and start over from their first element.
+ * @param config.middleware - (Optional) A Layer providing the client implementations of `RpcMiddleware`
+ * (created with `RpcMiddleware.layerClient`). Required by requests of groups with middleware declared with `requiredForClient`.
+ * @param config.logging - (Optional) What is logged about the requests run with the layer, see {@link LoggingPolicy}.
+ * Defaults to `off`.
+ * @param config.tracer - (Optional) The tracer the spans of the requests are sent to, e.g. an OpenTelemetry tracer
+ * or one created with {@link createInMemoryTracer}. The trace is continued by the server through the `traceparent` header.
+ *
+ * @returns A Layer instance that provides the configured RPC client, and the client middleware if given.
  *
  * @remarks
  * - The default returned layer is composed with:
@@ -75,24 +110,315 @@ export function makeRPCBackendLayer(config: { url: string; endpoint?: string })
  * });
  * ```
  *
+ * @example
+ * ```typescript
+ * // Speaking JSON-RPC 2.0 to a handler created with `protocol: 'json-rpc'`
+ * const backend = createEffectRPC({ url: "https://api.example.com/rpc", protocol: "json-rpc" });
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Sending all requests over a single WebSocket connection, to `wss://api.example.com/rpc`
+ * const backend = createEffectRPC({ url: "https://api.example.com/rpc", protocol: "websocket" });
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Reading streaming procedures from an event stream, e.g. behind proxies blocking WebSockets
+ * const backend = createEffectRPC({ url: "https://api.example.com/rpc", protocol: "sse" });
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // With a client middleware, e.g. attaching a token to every request
+ * const AuthClientLive = RpcMiddleware.layerClient(AuthMiddleware, ({ request }) =>
+ *   Effect.succeed({ ...request, headers: Headers.set(request.headers, 'authorization', 'Bearer token') }),
+ * );
+ * const backend = createEffectRPC({ url: "https://api.example.com", middleware: AuthClientLive });
+ * ```
+ *
  * @since 0.5.0
  */
-export function createEffectRPC(config: {
+export function createEffectRPC<M extends RpcMiddleware.ForClient<any> = never>(config: {
   url: string;
   endpoint?: string;
   serialization?: SerializationLayer;
-}): Layer.Layer<RpcClient.Protocol, never, never> {
-  return RpcClient.layerProtocolHttp({
-    url: `${config.url}${config.endpoint ?? ''}`,
-  }).pipe(
-    Layer.provide([
-      // use fetch for http requests
-      FetchHttpClient.layer,
-      config.serialization ?? RpcSerialization.layerNdjson,
-    ]),
+  protocol?: ClientProtocol;
+  websocket?: WebSocketOptions;
+  middleware?: Layer.Layer<M>;
+  logging?: LoggingPolicy;
+  tracer?: Tracer.Tracer;
+}): Layer.Layer<RpcClient.Protocol | M, never, never> {
+  const url = `${config.url}${config.endpoint ?? ''}`;
+  const serialization = config.serialization ?? RpcSerialization.layerNdjson;
+  const protocol =
+    config.protocol === 'json-rpc'
+      ? layerJsonRpcProtocol(url)
+      : config.protocol === 'websocket'
+        ? layerWebSocketProtocol(url, config.websocket).pipe(Layer.provide(serialization))
+        : layerProtocolHttp(url, { eventStreams: config.protocol === 'sse' }).pipe(
+            Layer.provide(serialization),
+          );
+  return protocol.pipe(
+    // use fetch for http requests
+    Layer.provide(FetchHttpClient.layer),
+    // without middleware, `M` is inferred as `never`
+    Layer.merge(config.middleware ?? (Layer.empty as Layer.Layer<M>)),
+    Layer.merge(
+      config.logging !== undefined ? Layer.succeed(RequestLogging, config.logging) : Layer.empty,
+    ),
+    Layer.merge(config.tracer ? Layer.setTracer(config.tracer) : Layer.empty),
   );
 }
 
+/**
+ * Creates the client protocol for the `http` and `sse` protocols. It is the protocol of `RpcClient.layerProtocolHttp`,
+ * except that queries (see {@link withQuery}) are sent with `GET`, with their headers as HTTP headers.
+ * If the server doesn't accept queries with `GET`, they are sent with `POST` instead.
+ *
+ * With `eventStreams`, streaming procedures marked with {@link withReplay} are sent with `GET` as well, and their
+ * elements are read from an event stream. If the connection is cut, it is reopened with the `Last-Event-ID` of
+ * the last elements received, like an `EventSource` does, and fails after {@link MAX_EVENT_STREAM_RECONNECTS}
+ * attempts that receive nothing. Other streams are sent with `POST`.
+ *
+ * @internal
+ */
+const layerProtocolHttp = (
+  url: string,
+  options: { readonly eventStreams: boolean },
+): Layer.Layer<
+  RpcClient.Protocol,
+  never,
+  RpcSerialization.RpcSerialization | HttpClient.HttpClient
+> =>
+  Layer.scoped(
+    RpcClient.Protocol,
+    Effect.gen(function* () {
+      const serialization = yield* RpcSerialization.RpcSerialization;
+      const client = HttpClient.mapRequest(
+        yield* HttpClient.HttpClient,
+        HttpClientRequest.prependUrl(url),
+      );
+      const protocol = yield* RpcClient.makeProtocolHttp(client);
+
+      return yield* RpcClient.Protocol.make((writeResponse) =>
+        Effect.gen(function* () {
+          // The responses of the requests sent with `POST` are written by the protocol of `@effect/rpc`
+          yield* Effect.forkScoped(protocol.run(writeResponse));
+
+          const query = (request: RequestEncoded) =>
+            client
+              .get('', {
+                urlParams: {
+                  procedure: request.tag,
+                  ...(request.payload !== undefined
+                    ? { payload: JSON.stringify(request.payload) }
+                    : {}),
+                },
+                headers: request.headers,
+              })
+              .pipe(
+                Effect.flatMap((response): Effect.Effect<Uint8Array | undefined, unknown> => {
+                  // The handler doesn't serve queries with `GET`, so the query is sent with `POST` instead
+                  if (response.status === 405) return Effect.succeed(undefined);
+                  // Besides `200` and `304`, the handler only answers with an RPC response in the serialization
+                  // of the client, e.g. a failure with the status of its error mapping. Other responses,
+                  // such as the error page of a proxy, can't be decoded
+                  if (
+                    response.status !== 200 &&
+                    response.status !== 304 &&
+                    !response.headers['content-type']?.startsWith(serialization.contentType)
+                  ) {
+                    return Effect.fail(
+                      new RpcClientError.RpcClientError({
+                        reason: 'Protocol',
+                        message: `The query was answered with status ${response.status}`,
+                      }),
+                    );
+                  }
+                  return Effect.map(response.arrayBuffer, (body) => new Uint8Array(body));
+                }),
+                Effect.flatMap((body) =>
+                  Effect.try(() =>
+                    body === undefined
+                      ? undefined
+                      : ((serialization.contentType === 'application/json'
+                          ? JSON.parse(new TextDecoder().decode(body))
+                          : serialization
+                              .unsafeMake()
+                              .decode(body)) as ReadonlyArray<FromServerEncoded>),
+                  ),
+                ),
+                Effect.mapError((cause) =>
+                  cause instanceof RpcClientError.RpcClientError
+                    ? cause
+                    : new RpcClientError.RpcClientError({
+                        reason: 'Protocol',
+                        message: 'Failed to send HTTP request',
+                        cause,
+                      }),
+                ),
+                Effect.flatMap((messages) =>
+                  messages === undefined
+                    ? protocol.send(request)
+                    : // The ID of the request is not part of the URL, so the response can be shared by clients
+                      Effect.forEach(
+                        messages,
+                        (message) =>
+                          writeResponse(
+                            'requestId' in message
+                              ? { ...message, requestId: request.id }
+                              : message,
+                          ),
+                        { discard: true },
+                      ),
+                ),
+              );
+
+          const failure = (cause: unknown) =>
+            new RpcClientError.RpcClientError({
+              reason: 'Protocol',
+              message: 'Failed to send HTTP request',
+              cause,
+            });
+
+          // Reads the elements of a stream from an event stream, until the stream ends or the connection is cut
+          const readEventStream = (
+            request: RequestEncoded,
+            lastEventId: string | undefined,
+            retry: number,
+          ) =>
+            Effect.gen(function* () {
+              const response = yield* client
+                .get('', {
+                  urlParams: {
+                    procedure: request.tag,
+                    ...(request.payload !== undefined
+                      ? { payload: JSON.stringify(request.payload) }
+                      : {}),
+                  },
+                  headers: [
+                    ...request.headers,
+                    ['accept', EVENT_STREAM_CONTENT_TYPE],
+                    ...(lastEventId !== undefined
+                      ? [['last-event-id', lastEventId] as [string, string]]
+                      : []),
+                  ],
+                })
+                .pipe(Effect.mapError(failure));
+              if (response.status === 405) {
+                return { _tag: 'Unsupported' } as const;
+              }
+              if (!acceptsEventStream(response.headers['content-type'])) {
+                return yield* Effect.fail(
+                  failure(`Expected an event stream, got status ${response.status}`),
+                );
+              }
+
+              const parser = makeEventStreamParser(retry);
+              const state = { done: false, received: false, lastEventId };
+              const read = Stream.runForEach(Stream.decodeText(response.stream), (text) =>
+                Effect.forEach(
+                  parser.feed(text),
+                  (event) =>
+                    Effect.try({
+                      try: (): FromServerEncoded | undefined => {
+                        switch (event.event) {
+                          case 'message':
+                            return {
+                              _tag: 'Chunk',
+                              requestId: request.id,
+                              values: JSON.parse(event.data),
+                            };
+                          case 'exit':
+                            return {
+                              _tag: 'Exit',
+                              requestId: request.id,
+                              exit: JSON.parse(event.data),
+                            };
+                          case 'defect':
+                            return { _tag: 'Defect', defect: JSON.parse(event.data) };
+                          default:
+                            return undefined;
+                        }
+                      },
+                      catch: failure,
+                    }).pipe(
+                      Effect.flatMap((message) => {
+                        if (message === undefined) return Effect.void;
+                        state.received = true;
+                        state.done = message._tag !== 'Chunk';
+                        state.lastEventId = event.id ?? state.lastEventId;
+                        return writeResponse(message);
+                      }),
+                    ),
+                  { discard: true },
+                ),
+              );
+              // A connection cut while reading is reopened, but a malformed event isn't
+              yield* read.pipe(Effect.catchTag('ResponseError', () => Effect.void));
+              return state.done
+                ? ({ _tag: 'Done' } as const)
+                : ({
+                    _tag: 'Cut',
+                    received: state.received,
+                    lastEventId: state.lastEventId,
+                    retry: parser.retry,
+                  } as const);
+            });
+
+          // Streams are read from an event stream, which is reopened from the last element received if it is cut
+          const eventStream = (request: RequestEncoded) =>
+            Effect.gen(function* () {
+              let lastEventId: string | undefined;
+              let retry = DEFAULT_RETRY_MILLIS;
+              let attempts = 0;
+              while (true) {
+                const result = yield* readEventStream(request, lastEventId, retry).pipe(
+                  Effect.either,
+                );
+                if (Either.isLeft(result)) {
+                  // Only reconnections are retried
+                  if (lastEventId === undefined || ++attempts > MAX_EVENT_STREAM_RECONNECTS) {
+                    return yield* Effect.fail(result.left);
+                  }
+                } else if (result.right._tag === 'Done') {
+                  return;
+                } else if (result.right._tag === 'Unsupported') {
+                  // The server doesn't serve event streams, so the stream is sent with `POST` instead
+                  if (lastEventId === undefined) return yield* protocol.send(request);
+                  return yield* Effect.fail(failure('The event stream is no longer served'));
+                } else {
+                  attempts = result.right.received ? 0 : attempts + 1;
+                  if (attempts > MAX_EVENT_STREAM_RECONNECTS) {
+                    return yield* Effect.fail(failure('The event stream was closed'));
+                  }
+                  lastEventId = result.right.lastEventId ?? '0';
+                  retry = result.right.retry;
+                }
+                yield* Effect.sleep(retry);
+              }
+            });
+
+          return {
+            send: (request) => {
+              if (request._tag !== 'Request') return protocol.send(request);
+              const headers = withoutInternalHeaders(request.headers);
+              if (options.eventStreams && isReplayableStream(request.headers)) {
+                return eventStream({ ...request, headers });
+              }
+              return request.headers.some(([name]) => name === QUERY_HEADER)
+                ? query({ ...request, headers })
+                : protocol.send({ ...request, headers });
+            },
+            supportsAck: false,
+            supportsTransferables: false,
+          };
+        }),
+      );
+    }),
+  );
+
 /**
  * Creates a Effect Runtime for RPC communication with a specified URL and optional serialization.
  * This function is useful for setting up a runtime environment without sticking it together with
@@ -105,6 +431,11 @@ export function createEffectRPC(config: {
  * @param config.url - The base URL of the RPC server.
  * @param config.serialization - (Optional) Custom serialization layer to use for RPC communication of type `SerializationLayer`.
  * Defaults to `RpcSerialization.layerNdjson`.
+ * @param config.protocol - (Optional) The protocol spoken with the handler, `http`, `json-rpc`, `sse` or `websocket`. Defaults to `http`.
+ * @param config.websocket - (Optional) The heartbeat and reconnection of the `websocket` protocol.
+ * @param config.middleware - (Optional) A Layer providing the client implementations of `RpcMiddleware`.
+ * @param config.logging - (Optional) What is logged about the requests run with the runtime, see {@link LoggingPolicy}.
+ * @param config.tracer - (Optional) The tracer the spans of the requests are sent to.
  * @param config.additionalLayers - (Optional) Additional layers to merge with the RPC client layer.
  *
  * @see {@link createEffectRPC}
@@ -115,26 +446,42 @@ export function createEffectRPC(config: {
  * const runtime = createRuntime({
  *   url: "https://my-rpc-server.com",
  *   serialization: MyCustomSerializationLayer,
+ *   middleware: AuthClientLive,
  *   additionalLayers: [MyCustomLayer]
  * });
  * ```
  *
  * @since 0.7.0
  */
-export function createRuntime<R, E>({
+export function createRuntime<R, E, M extends RpcMiddleware.ForClient<any> = never>({
   url,
   serialization,
+  protocol,
+  websocket,
+  middleware,
+  logging,
+  tracer,
   additionalLayers,
 }: {
   url: string;
   serialization?: SerializationLayer;
+  protocol?: ClientProtocol;
+  websocket?: WebSocketOptions;
+  middleware?: Layer.Layer<M>;
+  logging?: LoggingPolicy;
+  tracer?: Tracer.Tracer;
   additionalLayers?: Layer.Layer<R, E, never>[];
-}): ManagedRuntime.ManagedRuntime<RpcClient.Protocol | R, E> {
+}): ManagedRuntime.ManagedRuntime<RpcClient.Protocol | M | R, E> {
   return ManagedRuntime.make(
     Layer.mergeAll(
       createEffectRPC({
         url,
         serialization: serialization ?? RpcSerialization.layerNdjson,
+        protocol,
+        websocket,
+        middleware,
+        logging,
+        tracer,
       }),
       ...(additionalLayers ?? []),
     ),
@@ -0,0 +1,211 @@
+import { FetchHttpClient, Headers } from '@effect/platform';
+import { Rpc, RpcGroup, RpcMiddleware } from '@effect/rpc';
+import {
+  Context,
+  Deferred,
+  type Duration,
+  Effect,
+  Exit,
+  FiberId,
+  Layer,
+  Option,
+  Schema,
+} from 'effect';
+import { describe, expect, it } from 'vitest';
+import { useRPCRequest } from './client';
+import { createEffectRPC } from './runtime';
+import { createRPCHandler } from './server';
+
+const router = RpcGroup.make(Rpc.make('Ping', { success: Schema.String }));
+
+class Greeter extends Context.Tag('Greeter')<Greeter, { readonly greet: () => string }>() {}
+
+/**
+ * Creates a layer of the `Greeter`, and a function returning how often it was built.
+ */
+const makeGreeterLayer = () => {
+  let builds = 0;
+  const layer = Layer.sync(Greeter, () => {
+    builds++;
+    return { greet: () => 'pong' };
+  });
+  return { layer, builds: () => builds };
+};
+
+/**
+ * Sends a `Ping` request to the handler.
+ */
+const ping = (handler: (request: Request) => Promise<Response>) =>
+  Effect.runPromise(
+    useRPCRequest(router, 'Ping')().pipe(
+      Effect.provide(createEffectRPC({ url: 'http://localhost/rpc' })),
+      Effect.provideService(FetchHttpClient.Fetch, (input, init) =>
+        handler(new Request(input, init)),
+      ),
+    ),
+  );
+
+describe('createRPCHandler', () => {
+  it('builds the service layers once per handler', async () => {
+    const greeter = makeGreeterLayer();
+    const handler = createRPCHandler(
+      router,
+      { Ping: () => Effect.map(Greeter, ({ greet }) => greet()) },
+      { serviceLayers: greeter.layer },
+    );
+    expect(await ping(handler)).toBe('pong');
+    expect(await ping(handler)).toBe('pong');
+    expect(await ping(handler)).toBe('pong');
+    expect(greeter.builds()).toBe(1);
+  });
+
+  it('builds the service layers once for the handlers sharing a MemoMap', async () => {
+    const greeter = makeGreeterLayer();
+    const memoMap = Effect.runSync(Layer.makeMemoMap);
+    const [first, second] = [0, 1].map(() =>
+      createRPCHandler(
+        router,
+        { Ping: () => Effect.map(Greeter, ({ greet }) => greet()) },
+        { serviceLayers: greeter.layer, memoMap },
+      ),
+    );
+    expect(await ping(first!)).toBe('pong');
+    expect(await ping(second!)).toBe('pong');
+    expect(greeter.builds()).toBe(1);
+  });
+});
+
+describe('RPCHandler.dispose', () => {
+  /**
+   * Creates a handler whose `Ping` requests wait until they are released, and whose service layer
+   * reports when it is released.
+   */
+  const makeSlowHandler = (shutdownGracePeriod?: Duration.DurationInput) => {
+    const started = Deferred.unsafeMake<void>(FiberId.none);
+    const release = Deferred.unsafeMake<void>(FiberId.none);
+    let finalized = false;
+    const handler = createRPCHandler(
+      router,
+      {
+        Ping: () =>
+          Deferred.succeed(started, undefined).pipe(
+            Effect.zipRight(Deferred.await(release)),
+            Effect.as('pong'),
+          ),
+      },
+      {
+        serviceLayers: Layer.scopedDiscard(
+          Effect.addFinalizer(() => Effect.sync(() => (finalized = true))),
+        ),
+        shutdownGracePeriod,
+      },
+    );
+    return {
+      handler,
+      started: Effect.runPromise(Deferred.await(started)),
+      release: () => Effect.runSync(Deferred.succeed(release, undefined)),
+      finalized: () => finalized,
+    };
+  };
+
+  it('answers new requests with 503 and completes the requests in flight', async () => {
+    const { handler, started, release, finalized } = makeSlowHandler();
+    const inFlight = ping(handler);
+    await started;
+
+    const disposed = handler.dispose();
+    const rejected = await handler(
+      new Request('http://localhost/rpc', { method: 'POST', body: '' }),
+    );
+    expect(rejected.status).toBe(503);
+    expect(finalized()).toBe(false);
+
+    release();
+    expect(await inFlight).toBe('pong');
+    await disposed;
+    expect(finalized()).toBe(true);
+  });
+
+  it('interrupts the requests still in flight after the grace period', async () => {
+    const { handler, started, finalized } = makeSlowHandler('50 millis');
+    const inFlight = Effect.runPromiseExit(Effect.promise(() => ping(handler)));
+    await started;
+    await handler.dispose();
+    expect(finalized()).toBe(true);
+    expect(Exit.isSuccess(await inFlight)).toBe(false);
+  });
+
+  it('returns the same Promise when it is called more than once', async () => {
+    const { handler } = makeSlowHandler();
+    const disposed = handler.dispose();
+    expect(handler.dispose()).toBe(disposed);
+    await disposed;
+    expect(handler.dispose()).toBe(disposed);
+    await Effect.runPromise(handler.disposeEffect);
+  });
+});
+
+class CurrentUser extends Context.Tag('CurrentUser')<CurrentUser, string>() {}
+
+class Unauthorized extends Schema.TaggedError<Unauthorized>()('Unauthorized', {}) {}
+
+class Auth extends RpcMiddleware.Tag<Auth>()('Auth', {
+  provides: CurrentUser,
+  failure: Unauthorized,
+  requiredForClient: true,
+}) {}
+
+const authRouter = RpcGroup.make(Rpc.make('WhoAmI', { success: Schema.String })).middleware(Auth);
+
+const authImplementations = { WhoAmI: () => CurrentUser };
+
+const AuthLive = Layer.succeed(
+  Auth,
+  Auth.of(({ headers }) =>
+    Option.match(Headers.get(headers, 'authorization'), {
+      onNone: () => Effect.fail(new Unauthorized()),
+      onSome: (token) => Effect.succeed(token.replace('Bearer ', '')),
+    }),
+  ),
+);
+
+describe('middleware', () => {
+  it('requires the middleware of the group to create a handler', () => {
+    const create = () =>
+      // @ts-expect-error the `Auth` middleware is missing
+      createRPCHandler(authRouter, authImplementations, { serviceLayers: Layer.empty });
+    expect(create).toBeTypeOf('function');
+  });
+
+  it('applies the client middleware to the requests', async () => {
+    const handler = createRPCHandler(authRouter, authImplementations, {
+      serviceLayers: Layer.empty,
+      middleware: AuthLive,
+    });
+    const whoAmI = (middleware: Layer.Layer<RpcMiddleware.ForClient<Auth>>) =>
+      Effect.runPromise(
+        useRPCRequest(authRouter, 'WhoAmI')().pipe(
+          Effect.either,
+          Effect.provide(createEffectRPC({ url: 'http://localhost/rpc', middleware })),
+          Effect.provideService(FetchHttpClient.Fetch, (input, init) =>
+            handler(new Request(input, init)),
+          ),
+        ) as Effect.Effect<unknown>,
+      );
+
+    const AuthClient = RpcMiddleware.layerClient(Auth, ({ request }) =>
+      Effect.succeed({
+        ...request,
+        headers: Headers.set(request.headers, 'authorization', 'Bearer alice'),
+      }),
+    );
+    expect(await whoAmI(AuthClient)).toMatchObject({ _tag: 'Right', right: 'alice' });
+    const AuthClientWithoutToken = RpcMiddleware.layerClient(Auth, ({ request }) =>
+      Effect.succeed(request),
+    );
+    expect(await whoAmI(AuthClientWithoutToken)).toMatchObject({
+      _tag: 'Left',
+      left: { _tag: 'Unauthorized' },
+    });
+  });
+});
@@ -1,9 +1,55 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { RpcGroup, RpcSerialization, RpcServer } from '@effect/rpc';
+import { Headers, HttpApp, HttpTraceContext } from '@effect/platform';
+import { Rpc, RpcGroup, RpcSchema, RpcSerialization, RpcServer } from '@effect/rpc';
 import type { Context } from '@effect/rpc/Rpc';
-import { Effect, Layer } from 'effect';
-import { makeRPCRequest, type InferClient, type SerializationLayer } from './helpers';
+import {
+  Deferred,
+  Duration,
+  Effect,
+  Exit,
+  FiberId,
+  identity,
+  Layer,
+  Mailbox,
+  ManagedRuntime,
+  Option,
+  Stream,
+  type Tracer,
+} from 'effect';
+import {
+  RequestContext,
+  ResponseContext,
+  type HandlerServices,
+  type RequestTransport,
+} from './context';
+import {
+  defaultHandlerMode,
+  sanitizeDefects,
+  type ErrorMappingConfig,
+  type HandlerMode,
+} from './errors';
+import { makeHttpProtocol } from './http';
+import { makeJsonRpcSerialization, type RpcProtocol } from './jsonrpc';
+import {
+  makeRequestContext,
+  makeResponseContext,
+  makeRPCRequest,
+  observeStream,
+  type ClientStream,
+  type InferClient,
+  type SerializationLayer,
+} from './helpers';
+import { measureMiddleware, measureRequest } from './metrics';
+import { authorize, getPolicy, validatePolicies, type AuthorizationConfig } from './policy';
 import { getServerLayers } from './runtime';
+import { getGroupTag, traceRequest } from './tracing';
+import {
+  makeWebSocketServer,
+  type BunServerWebSocket,
+  type EventTargetWebSocket,
+  type UpgradeRequest,
+  type WebSocketConnection,
+} from './websocket';
 
 /**
  * Creates a web-compatible handler for your RPC router and effectful service layer.
@@ -15,7 +61,7 @@ import { getServerLayers } from './runtime';
  * @param rpcHandler - The Layer containing all endpoint implementations and their dependencies.
  * @param serialization - (Optional) The serialization layer to use for RPC communication. Defaults to `RpcSerialization.layerNdjson`.
  * @param additionalLayers - (Optional) Additional Layer instances to merge into the environment.
- * @returns A function that takes a `Request` (and optional context) and returns a `Promise<Response>`.
+ * @returns An {@link RPCHandler}: a function that takes a `Request` (and optional context) and returns a `Promise<Response>`.
  *
  * @remarks
  * This is the final step for wiring up your effect-rpc API to a web framework (e.g., Next.js route handler).
@@ -45,18 +91,223 @@ export function createServerHandler<T extends RpcGroup.RpcGroup<any>, Routes = E
   rpcHandler: Layer.Layer<Routes, never, never>,
   serialization: SerializationLayer = RpcSerialization.layerNdjson,
   ...additionalLayers: Layer.Layer<any, any, never>[]
-): (request: globalThis.Request, context?: Context<never> | undefined) => Promise<Response> {
-  const { handler } = RpcServer.toWebHandler(router, {
-    layer: Layer.mergeAll(
-      rpcHandler,
-      getServerLayers({
-        serialization,
-      }),
-      ...additionalLayers,
-    ),
+): RPCHandler {
+  return makeWebHandler(router, rpcHandler, { serialization, additionalLayers });
+}
+
+/**
+ * A web-compatible handler for an RPC router.
+ *
+ * It can be called with a `Request` (and optional context) and returns a `Promise<Response>`,
+ * so it can be used directly as a route handler. In addition, it exposes functions to release the
+ * resources held by the handler, such as the service layers and their finalizers.
+ *
+ * On disposal, the handler stops accepting new requests (they are answered with `503`) and waits for
+ * in-flight requests to complete, at most for the configured grace period. Afterwards, the remaining
+ * requests are interrupted and all layers are released.
+ *
+ * @example
+ * ```typescript
+ * const handler = createRPCHandler(router, { ... }, { serviceLayers: HelloService.Default });
+ *
+ * process.on('SIGTERM', () => {
+ *   handler.dispose().then(() => process.exit(0));
+ * });
+ * ```
+ *
+ * @since 0.9.0
+ */
+export type RPCHandler = {
+  (request: globalThis.Request, context?: Context<never> | undefined): Promise<Response>;
+  /**
+   * Drains in-flight requests and releases all resources held by the handler.
+   * Calling it more than once returns the same `Promise`.
+   */
+  readonly dispose: () => Promise<void>;
+  /**
+   * Same as {@link RPCHandler.dispose}, but as an `Effect`.
+   */
+  readonly disposeEffect: Effect.Effect<void>;
+};
+
+/**
+ * The default grace period for in-flight requests when a handler is disposed.
+ *
+ * @internal
+ */
+const DEFAULT_SHUTDOWN_GRACE_PERIOD: Duration.DurationInput = '10 seconds';
+
+/**
+ * Wraps a web handler to track in-flight requests and to drain them on disposal.
+ *
+ * A request is in flight until its response body has been fully read or cancelled,
+ * which also covers streamed responses.
+ *
+ * @internal
+ */
+function withLifecycle(
+  webHandler: {
+    readonly handler: (
+      request: globalThis.Request,
+      context?: Context<never> | undefined,
+    ) => Promise<Response>;
+    readonly dispose: () => Promise<void>;
+  },
+  shutdownGracePeriod: Duration.DurationInput = DEFAULT_SHUTDOWN_GRACE_PERIOD,
+): RPCHandler {
+  let inFlight = 0;
+  let closing = false;
+  let disposed: Promise<void> | undefined;
+  const drained = Deferred.unsafeMake<void>(FiberId.none);
+
+  const release = () => {
+    inFlight--;
+    if (closing && inFlight === 0) {
+      Deferred.unsafeDone(drained, Exit.void);
+    }
+  };
+
+  const handler = async (request: globalThis.Request, context?: Context<never> | undefined) => {
+    if (closing) {
+      return Response.json({ error: 'Server is shutting down' }, { status: 503 });
+    }
+
+    inFlight++;
+    let response: Response;
+    try {
+      response = await webHandler.handler(request, context);
+    } catch (error) {
+      release();
+      throw error;
+    }
+
+    if (!response.body) {
+      release();
+      return response;
+    }
+
+    let released = false;
+    const releaseOnce = () => {
+      if (!released) {
+        released = true;
+        release();
+      }
+    };
+    const reader = response.body.getReader();
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            releaseOnce();
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          releaseOnce();
+          controller.error(error);
+        }
+      },
+      cancel(reason) {
+        releaseOnce();
+        return reader.cancel(reason);
+      },
+    });
+
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+
+  const disposeEffect = Effect.suspend(() => {
+    closing = true;
+    if (inFlight === 0) {
+      Deferred.unsafeDone(drained, Exit.void);
+    }
+    return Deferred.await(drained).pipe(
+      Effect.timeoutOption(shutdownGracePeriod),
+      Effect.zipRight(Effect.promise(() => webHandler.dispose())),
+    );
   });
 
-  return handler;
+  const dispose = () => {
+    disposed ??= Effect.runPromise(disposeEffect);
+    return disposed;
+  };
+
+  return Object.assign(handler, {
+    dispose,
+    disposeEffect: Effect.promise(dispose),
+  });
+}
+
+/**
+ * Builds the web handler for a router from a Layer containing all endpoint implementations.
+ *
+ * The layer graph is built once, on the first request, and is shared by all subsequent requests.
+ * Layers are memoized using the given `memoMap`, so the same service layer referenced by multiple
+ * handlers sharing a `MemoMap` is only built once.
+ * Requests are served by {@link makeHttpProtocol}, which lets implementations change the response
+ * through the {@link ResponseContext}. With the `json-rpc` protocol, the messages are translated by
+ * {@link makeJsonRpcSerialization}, and responses are always sent with `200` unless an implementation sets a status.
+ *
+ * @internal
+ */
+function makeWebHandler<T extends RpcGroup.RpcGroup<any>, Routes>(
+  router: T,
+  rpcHandler: Layer.Layer<Routes, never, never>,
+  options: {
+    serialization?: SerializationLayer;
+    protocol?: RpcProtocol;
+    middleware?: Layer.Layer<never, unknown>;
+    additionalLayers?: Layer.Layer<any, any, never>[];
+    memoMap?: Layer.MemoMap;
+    shutdownGracePeriod?: Duration.DurationInput;
+    errorMapping?: ErrorMappingConfig<any>;
+    mode?: HandlerMode;
+    tracer?: Tracer.Tracer;
+  },
+): RPCHandler {
+  const layer = Layer.mergeAll(
+    rpcHandler,
+    getServerLayers({
+      serialization:
+        options.protocol === 'json-rpc' ? makeJsonRpcSerialization(router) : options.serialization,
+    }),
+    options.middleware ?? Layer.empty,
+    ...(options.additionalLayers ?? []),
+    options.tracer ? Layer.setTracer(options.tracer) : Layer.empty,
+    Layer.scope,
+  ).pipe(measureMiddleware(router));
+
+  const webHandler = HttpApp.toWebHandlerLayerWith(layer, {
+    memoMap: options.memoMap,
+    toHandler: (runtime) =>
+      Effect.gen(function* () {
+        const { protocol, httpApp } = yield* makeHttpProtocol(router, {
+          // JSON-RPC reports failures in the body, so they don't change the status
+          errorMapping:
+            options.protocol === 'json-rpc'
+              ? { decodeFailure: 200, defect: 200 }
+              : options.errorMapping,
+          mode: options.mode ?? defaultHandlerMode(),
+          queries: options.protocol !== 'json-rpc',
+          eventStreams: options.protocol !== 'json-rpc',
+        });
+        // The implementations are traced by `createRouteHandler`
+        yield* RpcServer.make(router, { disableTracing: true }).pipe(
+          Effect.provideService(RpcServer.Protocol, protocol),
+          Effect.interruptible,
+          Effect.forkScoped,
+        );
+        return httpApp;
+      }).pipe(Effect.provide(runtime)),
+  });
+
+  return withLifecycle(webHandler, options.shutdownGracePeriod);
 }
 
 /**
@@ -84,6 +335,9 @@ type ExtractRoutes<T> = T extends RpcGroup.RpcGroup<infer Routes> ? Routes : nev
  * Maps each RPC request to its implementation.
  * This type is used to ensure that all endpoints in the router are implemented.
  *
+ * Streaming procedures (declared with `stream: true`) are implemented with a function returning a `Stream`
+ * of their elements, the other procedures with a function returning an `Effect`.
+ *
  * @since 0.5.0
  */
 export type RequestImplementations<
@@ -91,9 +345,17 @@ export type RequestImplementations<
   V extends InferClient<T>,
   R,
 > = {
-  readonly [P in keyof V]: (
-    payload: Parameters<V[P]>[0],
-  ) => Effect.Effect<ExtractSuccess<ReturnType<V[P]>>, ExtractError<ReturnType<V[P]>>, R>;
+  readonly [P in keyof V]: [ClientStream<V[P]>] extends [never]
+    ? (
+        payload: Parameters<V[P]>[0],
+      ) => Effect.Effect<ExtractSuccess<ReturnType<V[P]>>, ExtractError<ReturnType<V[P]>>, R>
+    : (
+        payload: Parameters<V[P]>[0],
+      ) => Stream.Stream<
+        Stream.Stream.Success<ClientStream<V[P]>>,
+        Stream.Stream.Error<ClientStream<V[P]>>,
+        R
+      >;
 };
 
 /**
@@ -106,8 +368,14 @@ export type RequestImplementations<
  *
  * @param router - The RPC router group defining all endpoints.
  * @param reqImplementations - An object mapping every endpoint name to its implementation. All endpoints are required.
- * @param additionalLayers - A Layer providing all dependencies required by the handlers (e.g., service implementations).
+ * @param additionalLayers - A Layer providing all dependencies required by the handlers (e.g., service implementations),
+ * except for the {@link HandlerServices} provided by the library and the services provided by the middleware of the group.
+ * @param options - (Optional) Options of the implementations.
+ * @param options.authorization - (Optional) How the {@link Policy | policies} of the procedures are checked, see {@link AuthorizationConfig}.
+ * @param options.mode - (Optional) Whether defects of the implementations are replaced with an {@link InternalError}, see {@link HandlerMode}.
+ * @param options.transport - (Optional) The transport the requests are received through, see {@link RequestContext}. Defaults to `http`.
  * @returns A Layer suitable for use with {@link createServerHandler}.
+ * @throws {Error} If the policies of the procedures can't be checked with the `authorization` configuration.
  *
  * @remark
  * You can also use the {@link createRPCHandler} function for a more streamlined approach that combines route handler creation and server setup.
@@ -129,44 +397,139 @@ export type RequestImplementations<
  */
 export function createRouteHandler<T extends RpcGroup.RpcGroup<any>, V extends InferClient<T>, R>(
   router: T,
-  reqImplementations: RequestImplementations<T, V, R>,
+  reqImplementations: RequestImplementations<T, V, HandlerContext<R, RpcGroup.Rpcs<T>>>,
   additionalLayers: Layer.Layer<R>,
+  options: {
+    readonly authorization?: AuthorizationConfig<HandlerContext<R, RpcGroup.Rpcs<T>>> | undefined;
+    readonly mode?: HandlerMode | undefined;
+    readonly transport?: RequestTransport | undefined;
+    readonly trustProxy?: number | undefined;
+  } = {},
 ): Layer.Layer<ExtractRoutes<T>, never, never> {
-  // Transform the implementations to automatically provide the additional layers
-  const transformedImplementations: Record<
-    string,
-    (payload: unknown) => Effect.Effect<any, any, never>
-  > = {};
+  const { authorization, mode = 'development', transport = 'http', trustProxy } = options;
+  validatePolicies(router, authorization);
 
+  // Provide the services of the library (see `HandlerServices`) to each implementation,
+  // check the policy of the procedure before running it, trace it in a span continuing the trace
+  // of the client, record its metrics, and hide its defects in production.
+  // Streams are wrapped as a whole, from their first element until they end
+  const implementations: Record<string, (payload: unknown, headers: Headers.Headers) => any> = {};
   for (const [key, impl] of Object.entries(reqImplementations)) {
-    transformedImplementations[key] = (payload: unknown) => {
-      const effect = (impl as (payload: unknown) => Effect.Effect<any, any, R>)(payload);
-      // Automatically provide the additional layers to each implementation
-      return effect.pipe(Effect.provide(additionalLayers));
-    };
+    const rpc = router.requests.get(key) as Rpc.AnyWithProps | undefined;
+    const policy = Option.flatMap(Option.fromNullable(rpc), getPolicy);
+    const group = Option.getOrUndefined(Option.flatMap(Option.fromNullable(rpc), getGroupTag));
+    const isStream = rpc !== undefined && RpcSchema.isStreamSchema(rpc.successSchema);
+    const wrap = (
+      run: Effect.Effect<any, any, any>,
+      payload: unknown,
+      headers: Headers.Headers,
+    ): Effect.Effect<any, any, any> =>
+      (Option.isSome(policy)
+        ? Effect.zipRight(authorize(key, policy.value, payload, authorization), run)
+        : run
+      ).pipe(
+        Effect.provideServiceEffect(
+          RequestContext,
+          makeRequestContext(headers, transport, trustProxy),
+        ),
+        Effect.provideServiceEffect(ResponseContext, makeResponseContext),
+        traceRequest({
+          procedure: key,
+          group,
+          rpc,
+          payload,
+          kind: 'server',
+          parent: Option.getOrUndefined(HttpTraceContext.fromHeaders(headers)),
+        }),
+        measureRequest({ procedure: key, group }),
+        mode === 'production' ? sanitizeDefects(key) : identity,
+      );
+    implementations[key] = isStream
+      ? (payload: unknown, headers: Headers.Headers) =>
+          observeStream(
+            Stream.suspend(() =>
+              (impl as (payload: unknown) => Stream.Stream<any, any, R>)(payload),
+            ),
+            (run) => wrap(run, payload, headers),
+          )
+      : (payload: unknown, headers: Headers.Headers) =>
+          wrap(
+            Effect.suspend(() =>
+              (impl as (payload: unknown) => Effect.Effect<any, any, R>)(payload),
+            ),
+            payload,
+            headers,
+          );
   }
 
+  // The implementations are turned into a Layer that requires `R`, which is then satisfied by
+  // the additional layers. This way the additional layers are built once, when the handler's
+  // layer graph is built, instead of on every request.
   // We need to cast here because the router.toLayer expects exact types
   // but we're transforming the context requirements
-  return router.toLayer(transformedImplementations as any) as unknown as Layer.Layer<
-    ExtractRoutes<T>,
-    never,
-    never
-  >;
+  const layer = router.toLayer(implementations as any).pipe(Layer.provide(additionalLayers));
+  return layer as unknown as Layer.Layer<ExtractRoutes<T>, never, never>;
 }
 
+/**
+ * The services available to the request implementations of a group:
+ * the services provided by the `serviceLayers` (`R`), the {@link HandlerServices} provided by the library,
+ * and the services provided by the `RpcMiddleware` of the group (see the `provides` option of `RpcMiddleware.Tag`).
+ *
+ * `R` is inferred from the `serviceLayers` only, so a service missing from them is reported there.
+ *
+ * @internal
+ */
+export type HandlerContext<R, Rpcs extends Rpc.Any> =
+  | NoInfer<R>
+  | HandlerServices
+  | (Rpcs extends Rpc.Any ? Rpc.ExtractProvides<Rpcs, Rpcs['_tag']> : never);
+
+/**
+ * The `middleware` option of the {@link RPCHandlerConfig}.
+ *
+ * If any procedure of the group uses an `RpcMiddleware`, a Layer providing the implementations
+ * of all of them is required, so a handler can't be created with a middleware missing.
+ * Otherwise, the option can be omitted.
+ *
+ * @template Rpcs - The procedures of the group.
+ *
+ * @since 0.9.0
+ */
+export type MiddlewareConfig<Rpcs extends Rpc.Any> = [Rpc.Middleware<Rpcs>] extends [never]
+  ? {
+      /**
+       * A Layer providing the `RpcMiddleware` implementations used by the group.
+       * The group doesn't use any middleware, so this can be omitted.
+       */
+      middleware?: Layer.Layer<never, unknown>;
+    }
+  : {
+      /**
+       * A Layer providing the `RpcMiddleware` implementations used by the group,
+       * e.g. created with `Layer.succeed(AuthMiddleware, ...)`.
+       * Use `Layer.mergeAll` to provide several middleware.
+       * If a middleware depends on other services, provide them with `Layer.provide`.
+       * If the Layer fails to build, e.g. because of missing configuration, the handler rejects every request with the error.
+       */
+      middleware: Layer.Layer<Rpc.Middleware<Rpcs>, unknown>;
+    };
+
 /**
  * Configuration object for the RPC handler.
- * This is used to provide the service layers, serialization, and additional layers.
+ * This is used to provide the service layers, middleware, serialization, and additional layers.
  *
- * @template R - The type of the environment required by the handlers.
+ * @template R - The type of the environment provided by the `serviceLayers` to the handlers.
+ * @template Rpcs - The procedures of the group, used to require the {@link MiddlewareConfig | middleware} of the group.
  *
  * @since 0.3.0
  */
-export type RPCHandlerConfig<R> = {
+export type RPCHandlerConfig<R, Rpcs extends Rpc.Any = never> = {
   /**
    * The Layer providing all dependencies required by the handlers (e.g., service implementations).
    * This is typically the default service layer for the service being used.
+   * Services provided by the library, such as the {@link RequestContext}, and services provided
+   * by the middleware of the group don't need to be included.
    */
   serviceLayers: Layer.Layer<R>;
   /**
@@ -177,14 +540,64 @@ export type RPCHandlerConfig<R> = {
    * This means, you most likely want to modify the {@link createEffectRPC} function invocation to use the same serialization layer!
    */
   serialization?: SerializationLayer;
+  /**
+   * The protocol spoken with the clients, see {@link RpcProtocol}. Defaults to `http`.
+   * With `json-rpc`, the `serialization` is not used, and the `errorMapping` does not apply, as failures
+   * are reported in the JSON-RPC response, which is sent with `200`.
+   * Use the same protocol in {@link createEffectRPC}.
+   */
+  protocol?: RpcProtocol;
   /**
    * Additional Layer instances to merge into the environment.
-   * This can be used to provide additional dependencies required by the handlers,
-   * such as authentication middleware or other services.
+   * This can be used to provide additional dependencies required by the handlers or the server.
+   * Prefer the `middleware` option for `RpcMiddleware` implementations, so they are checked against the group.
    * This is optional and can be omitted or an empty array if no additional layers are needed.
    */
   additionalLayers?: Layer.Layer<any, any, never>[];
-};
+  /**
+   * The `MemoMap` used to memoize the layers of the handler.
+   * Handlers sharing a `MemoMap` build a layer that they have in common (e.g., the same `serviceLayers`) only once.
+   * Defaults to a new `MemoMap` per handler.
+   */
+  memoMap?: Layer.MemoMap;
+  /**
+   * How long to wait for in-flight requests to complete when the handler is disposed,
+   * before they are interrupted and the layers are released.
+   * Defaults to 10 seconds.
+   *
+   * @see {@link RPCHandler.dispose}
+   */
+  shutdownGracePeriod?: Duration.DurationInput;
+  /**
+   * How the authorization {@link Policy | policies} of the procedures are checked, see {@link withPolicy}.
+   * The `user` and `roles` Effects can use the same services as the request implementations.
+   * This is optional and only needed if a procedure uses a role or predicate policy, or for strict mode.
+   */
+  authorization?: AuthorizationConfig<HandlerContext<R, Rpcs>>;
+  /**
+   * The HTTP status codes (and headers) that failures are answered with, see {@link ErrorMappingConfig}.
+   * By default, decode failures are answered with `400`, defects with `500`, and typed failures with `200`.
+   */
+  errorMapping?: ErrorMappingConfig<Rpcs>;
+  /**
+   * Whether defects are sent to the client as they are (`development`), or replaced with an opaque
+   * {@link InternalError} carrying a correlation ID (`production`), see {@link HandlerMode}.
+   * Defaults to `production` if `NODE_ENV` is `production`, and to `development` otherwise.
+   */
+  mode?: HandlerMode;
+  /**
+   * The number of proxies in front of the server (e.g. a load balancer and a CDN) whose `x-forwarded-for` header
+   * is trusted for the `remoteAddress` of the {@link RequestContext}. The address of the caller is the one that many
+   * hops from the right of the header, as the addresses to its left can be set by the caller.
+   * Defaults to `0`: the header is ignored, and the address is the one seen by the server, if any.
+   */
+  trustProxy?: number;
+  /**
+   * The tracer the spans of the procedures are sent to, e.g. an OpenTelemetry tracer or
+   * one created with {@link createInMemoryTracer}. Defaults to the tracer of Effect.
+   */
+  tracer?: Tracer.Tracer;
+} & MiddlewareConfig<Rpcs>;
 
 /**
  * Creates a web-compatible handler that combines route implementations and server setup in one function.
@@ -196,9 +609,18 @@ export type RPCHandlerConfig<R> = {
  * @param reqImplementations - An object mapping every endpoint name to its implementation. All endpoints are required.
  * @param config - Configuration object
  * @param config.serviceLayers - A Layer providing all dependencies required by the handlers (e.g., service implementations).
+ * @param config.middleware - A Layer providing the `RpcMiddleware` implementations of the group. Required if the group uses middleware.
  * @param config.serialization - (Optional) The serialization layer to use for RPC communication. Defaults to `RpcSerialization.layerNdjson`.
+ * @param config.protocol - (Optional) The protocol spoken with the clients, `http` or `json-rpc`. Defaults to `http`.
  * @param config.additionalLayers - (Optional) Additional Layer instances to merge into the environment.
- * @returns A function that takes a `Request` (and optional context) and returns a `Promise<Response>`.
+ * @param config.shutdownGracePeriod - (Optional) How long to drain in-flight requests on disposal. Defaults to 10 seconds.
+ * @param config.authorization - (Optional) How the authorization policies of the procedures are checked.
+ * @param config.errorMapping - (Optional) The HTTP status codes that failures are answered with.
+ * @param config.mode - (Optional) Whether defects are hidden from the client. Defaults to `production` if `NODE_ENV` is `production`.
+ * @param config.trustProxy - (Optional) The number of trusted proxies in front of the server. Defaults to `0`.
+ * @param config.tracer - (Optional) The tracer the spans of the procedures are sent to.
+ * @returns An {@link RPCHandler}: a function that takes a `Request` (and optional context) and returns a `Promise<Response>`,
+ * and that can be disposed to release the service layers.
  *
  * @example
  * ```typescript
@@ -217,16 +639,274 @@ export type RPCHandlerConfig<R> = {
  */
 export function createRPCHandler<T extends RpcGroup.RpcGroup<any>, V extends InferClient<T>, R>(
   router: T,
-  reqImplementations: RequestImplementations<T, V, R>,
-  config: RPCHandlerConfig<R>,
-): (request: globalThis.Request, context?: Context<never> | undefined) => Promise<Response> {
-  const routeHandlers = createRouteHandler(router, reqImplementations, config.serviceLayers);
-  return createServerHandler(
+  reqImplementations: RequestImplementations<T, V, HandlerContext<R, RpcGroup.Rpcs<T>>>,
+  config: RPCHandlerConfig<R, RpcGroup.Rpcs<T>>,
+): RPCHandler {
+  const mode = config.mode ?? defaultHandlerMode();
+  const routeHandlers = createRouteHandler(router, reqImplementations, config.serviceLayers, {
+    authorization: config.authorization,
+    mode,
+    trustProxy: config.trustProxy,
+  });
+  return makeWebHandler(router, routeHandlers, {
+    serialization: config.serialization,
+    protocol: config.protocol,
+    middleware: config.middleware,
+    additionalLayers: config.additionalLayers,
+    memoMap: config.memoMap,
+    shutdownGracePeriod: config.shutdownGracePeriod,
+    errorMapping: config.errorMapping,
+    mode,
+    tracer: config.tracer,
+  });
+}
+
+/**
+ * A handler serving an RPC router over WebSocket connections, see {@link createWebSocketHandler}.
+ *
+ * @since 0.9.0
+ */
+export type WebSocketHandler = {
+  /**
+   * Serves a WebSocket connection, e.g. one accepted by a `WebSocketServer` of the `ws` package.
+   * The headers of the upgrade request are merged into the headers of every request sent on the connection,
+   * and its URL and the address of the caller are available in the {@link RequestContext}.
+   */
+  readonly accept: (
+    socket: EventTargetWebSocket,
+    headers?: Headers.Input,
+    upgrade?: UpgradeRequest,
+  ) => void;
+  /**
+   * The `websocket` option of `Bun.serve`. The upgrade request is read from the `data` of the socket: its `headers`,
+   * and its `url` and `remoteAddress` if set (see {@link UpgradeRequest}), e.g.
+   * `server.upgrade(request, { data: { headers: request.headers, url: request.url, remoteAddress: server.requestIP(request)?.address } })`.
+   */
+  readonly websocket: {
+    readonly open: (socket: BunServerWebSocket) => void;
+    readonly message: (socket: BunServerWebSocket, message: string | Uint8Array) => void;
+    readonly close: (socket: BunServerWebSocket) => void;
+  };
+  /**
+   * Stops accepting connections, waits for running requests to complete (at most for the grace period),
+   * closes the connections with `1001` and releases all resources held by the handler.
+   * Calling it more than once returns the same `Promise`.
+   */
+  readonly dispose: () => Promise<void>;
+  /**
+   * Same as {@link WebSocketHandler.dispose}, but as an `Effect`.
+   */
+  readonly disposeEffect: Effect.Effect<void>;
+};
+
+/**
+ * Configuration of a WebSocket handler. It is the same as the configuration of {@link createRPCHandler},
+ * except for the protocol and the error mapping, as there are no HTTP responses on a WebSocket connection.
+ *
+ * @template R - The type of the environment provided by the `serviceLayers` to the handlers.
+ * @template Rpcs - The procedures of the group.
+ *
+ * @since 0.9.0
+ */
+export type WebSocketHandlerConfig<R, Rpcs extends Rpc.Any = never> = Omit<
+  RPCHandlerConfig<R, Rpcs>,
+  'protocol' | 'errorMapping'
+>;
+
+/**
+ * Creates a handler serving the procedures of a router over WebSocket connections, for clients created with
+ * the `websocket` protocol of {@link createEffectRPC}.
+ *
+ * Every connection can run any number of requests and streams at the same time, which are run through the same
+ * pipeline as {@link createRPCHandler}: the middleware, authorization policies, logging, tracing and metrics apply
+ * to them as well. The {@link RequestContext} holds the headers, the URL and the address of the caller
+ * of the upgrade request, while the
+ * {@link ResponseContext} has no effect. Requests still running when a connection is closed are interrupted.
+ *
+ * The layers are built when the first connection is accepted, and are shared by all connections.
+ *
+ * @param router - The RPC router group defining all available endpoints.
+ * @param reqImplementations - An object mapping every endpoint name to its implementation. All endpoints are required.
+ * @param config - Configuration object, see {@link WebSocketHandlerConfig}.
+ * @returns A {@link WebSocketHandler}, accepting the connections of a `ws` server or of `Bun.serve`.
+ *
+ * @example
+ * ```typescript
+ * const handler = createWebSocketHandler(router, { ... }, { serviceLayers: HelloService.Default });
+ *
+ * // Node.js, with the `ws` package
+ * const wss = new WebSocketServer({ server, path: '/rpc' });
+ * wss.on('connection', (socket, request) =>
+ *   handler.accept(socket, request.headers, { url: request.url, remoteAddress: request.socket.remoteAddress }),
+ * );
+ *
+ * // Bun
+ * Bun.serve({
+ *   fetch: (request, server) =>
+ *     server.upgrade(request, {
+ *       data: { headers: request.headers, url: request.url, remoteAddress: server.requestIP(request)?.address },
+ *     })
+ *       ? undefined
+ *       : new Response('Upgrade required', { status: 426 }),
+ *   websocket: handler.websocket,
+ * });
+ * ```
+ *
+ * @since 0.9.0
+ */
+export function createWebSocketHandler<
+  T extends RpcGroup.RpcGroup<any>,
+  V extends InferClient<T>,
+  R,
+>(
+  router: T,
+  reqImplementations: RequestImplementations<T, V, HandlerContext<R, RpcGroup.Rpcs<T>>>,
+  config: WebSocketHandlerConfig<R, RpcGroup.Rpcs<T>>,
+): WebSocketHandler {
+  const { connect, dispose, disposeEffect } = makeConnectionHandler(
     router,
-    routeHandlers,
-    config.serialization,
-    ...(config.additionalLayers || []),
+    reqImplementations,
+    config,
+    'websocket',
   );
+
+  const bunConnections = new WeakMap<BunServerWebSocket, ReturnType<typeof connect>>();
+  const dataOf = (
+    socket: BunServerWebSocket,
+  ): ({ readonly headers?: Headers.Input } & UpgradeRequest) | undefined =>
+    typeof socket.data === 'object' && socket.data !== null ? socket.data : undefined;
+
+  return {
+    accept: (socket, headers, upgrade) => {
+      const connection = connect(socket, headers, upgrade);
+      socket.addEventListener('message', (event) => connection.receive(event.data));
+      socket.addEventListener('close', () => connection.close());
+    },
+    websocket: {
+      open: (socket) =>
+        bunConnections.set(socket, connect(socket, dataOf(socket)?.headers, dataOf(socket))),
+      message: (socket, message) => bunConnections.get(socket)?.receive(message),
+      close: (socket) => {
+        bunConnections.get(socket)?.close();
+        bunConnections.delete(socket);
+      },
+    },
+    dispose,
+    disposeEffect,
+  };
+}
+
+/**
+ * Serves the procedures of a router over long-lived connections, such as WebSocket connections
+ * (see {@link createWebSocketHandler}) or the standard streams of a process (see {@link createProcessHandler}).
+ *
+ * Every connection is served by the server of {@link makeWebSocketServer}, which decodes the messages it receives
+ * with the serialization of the handler, and sends the encoded responses with `send`.
+ *
+ * @internal
+ */
+export function makeConnectionHandler<
+  T extends RpcGroup.RpcGroup<any>,
+  V extends InferClient<T>,
+  R,
+>(
+  router: T,
+  reqImplementations: RequestImplementations<T, V, HandlerContext<R, RpcGroup.Rpcs<T>>>,
+  config: WebSocketHandlerConfig<R, RpcGroup.Rpcs<T>>,
+  transport: RequestTransport,
+) {
+  const mode = config.mode ?? defaultHandlerMode();
+  const routeHandlers = createRouteHandler(router, reqImplementations, config.serviceLayers, {
+    authorization: config.authorization,
+    mode,
+    transport,
+  });
+  const middleware: Layer.Layer<never, unknown> = config.middleware ?? Layer.empty;
+  const additionalLayers: Layer.Layer<any, any, never>[] = config.additionalLayers ?? [];
+  const runtime = ManagedRuntime.make(
+    Layer.mergeAll(
+      routeHandlers,
+      getServerLayers({ serialization: config.serialization }),
+      middleware,
+      ...additionalLayers,
+      config.tracer ? Layer.setTracer(config.tracer) : Layer.empty,
+      Layer.scope,
+    ).pipe(measureMiddleware(router)),
+    config.memoMap,
+  );
+
+  // The RPC server is started with the first connection
+  const server = Effect.runSync(
+    Effect.cached(
+      Effect.gen(function* () {
+        const server = yield* makeWebSocketServer(router, { mode, trustProxy: config.trustProxy });
+        // The implementations are traced by `createRouteHandler`
+        yield* RpcServer.make(router, { disableTracing: true }).pipe(
+          Effect.provideService(RpcServer.Protocol, server.protocol),
+          Effect.interruptible,
+          Effect.forkScoped,
+        );
+        return server;
+      }).pipe(Effect.provide(runtime)),
+    ),
+  );
+
+  let started = false;
+  let closing = false;
+  const connect = (
+    socket: WebSocketConnection,
+    headers: Headers.Input | undefined,
+    upgrade: UpgradeRequest | undefined,
+  ) => {
+    const messages = Effect.runSync(Mailbox.make<string | Uint8Array>());
+    if (closing) {
+      socket.close(1001, 'Server is shutting down');
+    } else {
+      started = true;
+      runtime.runFork(
+        Effect.flatMap(server, (server) =>
+          server.serve(socket, Headers.fromInput(headers ?? {}), upgrade, messages),
+        ).pipe(
+          Effect.catchAllCause((cause) =>
+            Effect.zipRight(
+              Effect.logError('Failed to serve a connection', cause),
+              Effect.sync(() => socket.close(1011, 'Internal error')),
+            ),
+          ),
+        ),
+      );
+    }
+    return {
+      receive: (data: unknown) => {
+        if (typeof data === 'string' || data instanceof Uint8Array) {
+          messages.unsafeOffer(data);
+        } else if (data instanceof ArrayBuffer) {
+          messages.unsafeOffer(new Uint8Array(data));
+        }
+      },
+      close: () => messages.unsafeDone(Exit.void),
+    };
+  };
+
+  let disposed: Promise<void> | undefined;
+  const disposeEffect = Effect.suspend(() => {
+    closing = true;
+    const drain = Effect.flatMap(server, (server) =>
+      server.drain.pipe(
+        Effect.timeoutOption(config.shutdownGracePeriod ?? DEFAULT_SHUTDOWN_GRACE_PERIOD),
+        Effect.zipRight(server.closeAll(1001, 'Server is shutting down')),
+      ),
+    );
+    return (started ? Effect.ignore(drain) : Effect.void).pipe(
+      Effect.zipRight(Effect.promise(() => runtime.dispose())),
+    );
+  });
+  const dispose = () => {
+    disposed ??= Effect.runPromise(disposeEffect);
+    return disposed;
+  };
+
+  return { connect, dispose, disposeEffect: Effect.promise(dispose) };
 }
 
 /**
@@ -0,0 +1,80 @@
+import { FetchHttpClient } from '@effect/platform';
+import { Rpc, RpcGroup } from '@effect/rpc';
+import { Chunk, Effect, Layer, Schema, Stream } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { useRPCRequest } from './client';
+import { createEffectRPC } from './runtime';
+import { createRPCHandler } from './server';
+import { withReplay } from './sse';
+
+const router = RpcGroup.make(
+  withReplay(
+    Rpc.make('Count', { payload: { n: Schema.Number }, success: Schema.Number, stream: true }),
+  ),
+  Rpc.make('Watch', { payload: { n: Schema.Number }, success: Schema.Number, stream: true }),
+);
+
+const handler = createRPCHandler(
+  router,
+  {
+    Count: ({ n }) => Stream.range(1, n).pipe(Stream.rechunk(1)),
+    Watch: ({ n }) => Stream.range(1, n).pipe(Stream.rechunk(1)),
+  },
+  { serviceLayers: Layer.empty },
+);
+
+const open = (procedure: string, lastEventId?: string) =>
+  handler(
+    new Request(`http://localhost/rpc?procedure=${procedure}&payload={"n":3}`, {
+      headers: {
+        accept: 'text/event-stream',
+        ...(lastEventId !== undefined ? { 'last-event-id': lastEventId } : {}),
+      },
+    }),
+  );
+
+describe('event streams', () => {
+  it('resumes a stream that is safe to replay after the last event received', async () => {
+    const response = await open('Count', '2');
+    expect(response.status).toBe(200);
+    const events = await response.text();
+    expect(events).toContain('id: 3\ndata: [3]');
+    expect(events).not.toContain('data: [1]');
+    expect(events).not.toContain('data: [2]');
+  });
+
+  it('only serves the streams that are safe to replay with GET', async () => {
+    for (const response of [await open('Watch'), await open('Watch', '2')]) {
+      expect(response.status).toBe(405);
+      expect(response.headers.get('allow')).toBe('POST');
+    }
+  });
+
+  it('sends the other streams with POST', async () => {
+    const methods: Array<string> = [];
+    const results = await Effect.runPromise(
+      Effect.all([
+        Stream.runCollect(useRPCRequest(router, 'Count')({ n: 2 })),
+        Stream.runCollect(useRPCRequest(router, 'Watch')({ n: 2 })),
+      ]).pipe(
+        Effect.provide(createEffectRPC({ url: 'http://localhost/rpc', protocol: 'sse' })),
+        Effect.provideService(FetchHttpClient.Fetch, (input, init) => {
+          const request = new Request(input, init);
+          methods.push(request.method);
+          return handler(request);
+        }),
+      ),
+    );
+    expect(results.map(Chunk.toArray)).toEqual([
+      [1, 2],
+      [1, 2],
+    ]);
+    expect(methods).toEqual(['GET', 'POST']);
+  });
+
+  it('only marks streaming procedures as safe to replay', () => {
+    expect(() => withReplay(Rpc.make('Ping', { success: Schema.String }))).toThrow(
+      'The procedure "Ping" is not a streaming procedure.',
+    );
+  });
+});
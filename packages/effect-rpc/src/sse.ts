@@ -0,0 +1,232 @@
+import { type Rpc, type RpcGroup, RpcSchema } from '@effect/rpc';
+import type { FromServerEncoded } from '@effect/rpc/RpcMessage';
+import { Context, Option, type Schema } from 'effect';
+import { QUERY_PARAMS } from './query';
+
+/**
+ * The content type of a streaming procedure served as an event stream.
+ *
+ * @internal
+ */
+export const EVENT_STREAM_CONTENT_TYPE = 'text/event-stream';
+
+/**
+ * The delay before reconnecting to an event stream, unless the server sets it with a `retry` field.
+ *
+ * @internal
+ */
+export const DEFAULT_RETRY_MILLIS = 1000;
+
+/**
+ * The number of consecutive reconnections to an event stream that receive nothing before the stream fails.
+ *
+ * @internal
+ */
+export const MAX_EVENT_STREAM_RECONNECTS = 3;
+
+/**
+ * The annotation marking a streaming procedure as safe to replay. Use {@link withReplay} to set it.
+ *
+ * @since 0.9.0
+ */
+export class ReplaySafe extends Context.Tag('effect-rpc/ReplaySafe')<ReplaySafe, true>() {}
+
+/**
+ * Marks a streaming procedure as safe to replay: running it again with the same payload produces the same elements
+ * in the same order, and has no side effects that must not be repeated.
+ *
+ * Only these streams are read from an event stream by the `sse` protocol. They are sent with `GET`, which any page
+ * can make a browser send with its cookies, so like queries they must not have side effects. If the connection is
+ * cut, the event stream is reopened with the `Last-Event-ID` of the last elements received: the procedure is run
+ * again on the server, and the elements the client already received are skipped. Other streams are sent with `POST`.
+ *
+ * @param rpc - The streaming procedure, e.g. created with `Rpc.make` and `stream: true`.
+ * @returns The procedure marked as safe to replay.
+ * @throws {Error} If the procedure is not a streaming procedure.
+ *
+ * @example
+ * ```typescript
+ * export const exportRouter = RpcGroup.make(
+ *   withReplay(Rpc.make('ExportUsers', { success: User, stream: true })),
+ *   Rpc.make('WatchEvents', { success: Event, stream: true }),
+ * );
+ * ```
+ *
+ * @since 0.9.0
+ */
+export function withReplay<R extends Rpc.Any>(rpc: R): R {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const withProps = rpc as unknown as Rpc.Rpc<string, Rpc.AnySchema, Schema.Schema.Any, any>;
+  if (!RpcSchema.isStreamSchema(withProps.successSchema)) {
+    throw new Error(`The procedure "${withProps._tag}" is not a streaming procedure.`);
+  }
+  return withProps.annotate(ReplaySafe, true) as unknown as R;
+}
+
+/**
+ * Checks whether a streaming procedure is marked with {@link withReplay}.
+ *
+ * @internal
+ */
+export const isReplaySafe = (rpc: Rpc.AnyWithProps): boolean =>
+  Context.getOrElse(rpc.annotations, ReplaySafe, () => false);
+
+/**
+ * An event of an event stream, as defined by the `EventSource` specification.
+ *
+ * @internal
+ */
+export type ServerSentEvent = {
+  readonly event: string;
+  readonly data: string;
+  readonly id: string | undefined;
+};
+
+/**
+ * Checks whether the `Accept` header of a request accepts an event stream.
+ *
+ * @internal
+ */
+export const acceptsEventStream = (accept: string | undefined): boolean =>
+  accept !== undefined &&
+  accept.split(',').some((type) => type.split(';')[0]!.trim() === EVENT_STREAM_CONTENT_TYPE);
+
+/**
+ * Returns the streaming procedure addressed by the query string of a `GET` request, if the group has it and it is
+ * marked with {@link withReplay}. The query string is the same as the one of a query, see {@link withQuery}.
+ * Other streams are only served with `POST`, so a cross-site `GET` (e.g. of an `<img>`) can't start them.
+ *
+ * @internal
+ */
+export const findEventStream = (
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  router: RpcGroup.RpcGroup<any>,
+  url: string,
+): Option.Option<{ readonly rpc: Rpc.AnyWithProps; readonly params: URLSearchParams }> => {
+  const params = new URL(url, 'http://localhost').searchParams;
+  const rpc = router.requests.get(params.get(QUERY_PARAMS.procedure) ?? '') as
+    | Rpc.AnyWithProps
+    | undefined;
+  return rpc !== undefined && RpcSchema.isStreamSchema(rpc.successSchema) && isReplaySafe(rpc)
+    ? Option.some({ rpc, params })
+    : Option.none();
+};
+
+/**
+ * The number of elements a client already received, from the `Last-Event-ID` header of a reconnection.
+ *
+ * @internal
+ */
+export const parseLastEventId = (lastEventId: string | undefined): number => {
+  const position = Number(lastEventId);
+  return Number.isSafeInteger(position) && position > 0 ? position : 0;
+};
+
+/**
+ * Formats an event of an event stream. The data must not contain line breaks, which JSON never does.
+ *
+ * @internal
+ */
+const formatEvent = (event: {
+  readonly event?: string;
+  readonly id?: string;
+  readonly data: string;
+}) =>
+  `${event.event !== undefined ? `event: ${event.event}\n` : ''}${event.id !== undefined ? `id: ${event.id}\n` : ''}data: ${event.data}\n\n`;
+
+/**
+ * Creates the encoder of the messages of the RPC server for a streaming procedure served as an event stream.
+ *
+ * The elements of every chunk are sent as a JSON array in a `message` event, whose ID is the number of elements
+ * produced so far. The end of the stream is sent as an `exit` event, and defects as a `defect` event.
+ * When a client reconnects, the procedure is run again, and the elements it already received
+ * (the `Last-Event-ID` of the reconnection) are skipped.
+ *
+ * @param skip - The number of elements to skip, see {@link parseLastEventId}.
+ * @throws {TypeError} From the returned encoder, if a message can't be encoded as JSON.
+ * @internal
+ */
+export const makeEventEncoder = (skip: number) => {
+  let position = 0;
+  return (message: FromServerEncoded): string | undefined => {
+    switch (message._tag) {
+      case 'Chunk': {
+        const values = message.values.filter(() => ++position > skip);
+        return values.length === 0
+          ? undefined
+          : formatEvent({ id: String(position), data: JSON.stringify(values) });
+      }
+      case 'Exit':
+        return formatEvent({ event: 'exit', data: JSON.stringify(message.exit) });
+      case 'Defect':
+        return formatEvent({ event: 'defect', data: JSON.stringify(message.defect) });
+      default:
+        return undefined;
+    }
+  };
+};
+
+/**
+ * Creates an incremental parser of an event stream, following the `EventSource` specification:
+ * the text of the stream is fed as it is received, and the events completed by it are returned.
+ * The reconnection time set by the `retry` field of the stream is kept in `retry`.
+ *
+ * @param retry - The reconnection time until the stream sets it, e.g. the one of a previous connection.
+ * @internal
+ */
+export const makeEventStreamParser = (retry: number = DEFAULT_RETRY_MILLIS) => {
+  let buffer = '';
+  let event = '';
+  let data: Array<string> = [];
+  let id: string | undefined;
+
+  const line = (line: string, events: Array<ServerSentEvent>) => {
+    if (line === '') {
+      // A blank line dispatches the event, unless it has no data
+      if (data.length > 0) {
+        events.push({ event: event || 'message', data: data.join('\n'), id });
+      }
+      event = '';
+      data = [];
+      return;
+    }
+    if (line.startsWith(':')) return;
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    switch (field) {
+      case 'event':
+        event = value;
+        break;
+      case 'data':
+        data.push(value);
+        break;
+      case 'id':
+        // The ID is kept for the following events, like the last event ID of an `EventSource`
+        if (!value.includes('\0')) id = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) retry = Number(value);
+        break;
+    }
+  };
+
+  return {
+    get retry() {
+      return retry;
+    },
+    feed(text: string): Array<ServerSentEvent> {
+      const events: Array<ServerSentEvent> = [];
+      const input = buffer + text;
+      // A trailing carriage return may be the start of a CRLF line break
+      const end = input.endsWith('\r') ? input.length - 1 : input.length;
+      const lines = input.slice(0, end).split(/\r\n|\r|\n/);
+      // The last line is incomplete until a line break is received
+      buffer = lines.pop()! + input.slice(end);
+      for (const current of lines) {
+        line(current, events);
+      }
+      return events;
+    },
+  };
+};
@@ -0,0 +1,52 @@
+import { Rpc, RpcGroup } from '@effect/rpc';
+import { Effect, Layer, Schema, Tracer } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { useRPCRequest } from './client';
+import { createLocalRPC } from './local';
+import { createInMemoryTracer } from './tracing';
+
+const router = RpcGroup.make(
+  Rpc.make('Upload', {
+    payload: { name: Schema.String, data: Schema.Uint8ArrayFromSelf },
+    success: Schema.Number,
+  }),
+);
+
+const upload = useRPCRequest(router, 'Upload')({ name: 'file', data: new Uint8Array(1000) });
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const run = <A, E>(effect: Effect.Effect<A, E, any>) => {
+  const { tracer, spans } = createInMemoryTracer();
+  return Effect.runPromise(
+    effect.pipe(
+      Effect.provide(
+        createLocalRPC(
+          router,
+          { Upload: ({ data }) => Effect.succeed(data.byteLength) },
+          { serviceLayers: Layer.empty },
+        ),
+      ),
+      Effect.withTracer(tracer),
+    ) as Effect.Effect<A, E>,
+  ).then(() => spans().find((span) => span.name === 'Upload' && span.kind === 'client'));
+};
+
+describe('traceRequest', () => {
+  it('records the size of the payload, including its binary values', async () => {
+    const span = await run(upload);
+    expect(span?.attributes.get('rpc.payload.size')).toBeGreaterThan(1000);
+    expect(span?.attributes.get('rpc.payload.size')).toBeLessThan(1100);
+  });
+
+  it("doesn't measure the payload of a span that is not sampled", async () => {
+    const span = await run(
+      upload.pipe(
+        Effect.withParentSpan(
+          Tracer.externalSpan({ traceId: 'a'.repeat(32), spanId: 'b'.repeat(16), sampled: false }),
+        ),
+      ),
+    );
+    expect(span?.attributes.get('rpc.outcome')).toBe('success');
+    expect(span?.attributes.has('rpc.payload.size')).toBe(false);
+  });
+});
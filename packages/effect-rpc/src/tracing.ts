@@ -0,0 +1,236 @@
+import { HttpTraceContext } from '@effect/platform';
+import type { Rpc } from '@effect/rpc';
+import { Cause, Context, Effect, Exit, Option, Schema, Tracer } from 'effect';
+import { exitOutcome, failureTag } from './logging';
+
+/**
+ * The tag a group is registered with in a registry, annotated on each of its procedures
+ * so the spans of the procedure are named after it.
+ *
+ * @internal
+ */
+export class GroupTag extends Context.Tag('effect-rpc/GroupTag')<GroupTag, string>() {}
+
+/**
+ * Returns the tag of the group of a procedure, if the group is registered in a registry.
+ *
+ * @internal
+ */
+export const getGroupTag = (rpc: Rpc.AnyWithProps): Option.Option<string> =>
+  Context.getOption(rpc.annotations, GroupTag);
+
+/**
+ * The size in bytes of the encoded payload, if it can be encoded synchronously: the size of its JSON encoding,
+ * plus the size of its binary values (e.g. of a `TransferableArrayBuffer`), which JSON can't represent.
+ * Like the client, the payload is constructed with the payload schema (e.g. a `Schema.TaggedRequest`) first.
+ *
+ * @internal
+ */
+const payloadSize = (
+  rpc: Rpc.AnyWithProps | undefined,
+  payload: unknown,
+): Option.Option<number> => {
+  if (rpc === undefined) return Option.none();
+  const schema = rpc.payloadSchema as Schema.Schema<unknown, unknown> & {
+    readonly make?: (payload: unknown) => unknown;
+  };
+  return Option.liftThrowable(() => (schema.make ? schema.make(payload) : payload))().pipe(
+    Option.flatMap(Schema.encodeUnknownOption(schema)),
+    Option.flatMap((encoded) => {
+      let binary = 0;
+      const json = JSON.stringify(encoded, (_key, value: unknown) => {
+        if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+          binary += value.byteLength;
+          return null;
+        }
+        return value;
+      });
+      return json === undefined
+        ? Option.none()
+        : Option.some(new TextEncoder().encode(json).byteLength + binary);
+    }),
+  );
+};
+
+/**
+ * Records the size of the payload on the current span. The payload is only encoded if the span is sampled,
+ * as spans that are not recorded don't need it.
+ *
+ * @internal
+ */
+const annotatePayloadSize = (rpc: Rpc.AnyWithProps | undefined, payload: unknown) =>
+  Effect.flatMap(Effect.currentSpan, (span) => {
+    const size = span.sampled ? payloadSize(rpc, payload) : Option.none();
+    return Option.isSome(size)
+      ? Effect.annotateCurrentSpan('rpc.payload.size', size.value)
+      : Effect.void;
+  }).pipe(Effect.ignore);
+
+/**
+ * Runs an effect in a span for a procedure, recording its payload size, outcome and the `_tag` of its failure.
+ *
+ * @internal
+ */
+export const traceRequest =
+  (request: {
+    readonly procedure: string;
+    readonly group: string | undefined;
+    readonly rpc: Rpc.AnyWithProps | undefined;
+    readonly payload: unknown;
+    readonly kind: Tracer.SpanKind;
+    readonly parent?: Tracer.ExternalSpan | undefined;
+  }) =>
+  <A, E, R>(effect: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> => {
+    const attributes: Record<string, unknown> = {
+      'rpc.system': 'effect-rpc',
+      'rpc.method': request.procedure,
+    };
+    if (request.group !== undefined) attributes['rpc.service'] = request.group;
+
+    return Effect.onExit(effect, (exit) =>
+      Effect.gen(function* () {
+        yield* Effect.annotateCurrentSpan('rpc.outcome', exitOutcome(exit));
+        const failure = Exit.isFailure(exit) ? Cause.failureOption(exit.cause) : Option.none();
+        const errorTag = Option.flatMap(failure, failureTag);
+        if (Option.isSome(errorTag))
+          yield* Effect.annotateCurrentSpan('rpc.error.tag', errorTag.value);
+      }),
+    ).pipe(
+      (traced) => Effect.zipRight(annotatePayloadSize(request.rpc, request.payload), traced),
+      Effect.withSpan(
+        request.group !== undefined ? `${request.group}.${request.procedure}` : request.procedure,
+        {
+          kind: request.kind,
+          attributes,
+          parent: request.parent,
+          captureStackTrace: false,
+        },
+      ),
+    );
+  };
+
+/**
+ * The `traceparent` header of the current span, so requests that are not sent over HTTP
+ * can still be continued by the server.
+ *
+ * @internal
+ */
+export const currentTraceparent: Effect.Effect<Option.Option<string>> = Effect.map(
+  Effect.option(Effect.currentSpan),
+  Option.map((span) => HttpTraceContext.toHeaders(span)['traceparent']!),
+);
+
+/**
+ * A tracer that keeps the spans in memory, created with {@link createInMemoryTracer}.
+ *
+ * @since 0.9.0
+ */
+export type InMemoryTracer = {
+  /**
+   * The tracer, to be passed to the `tracer` option of the runtime or the handler,
+   * or to be provided with `Layer.setTracer`.
+   */
+  readonly tracer: Tracer.Tracer;
+  /**
+   * The spans that have ended, in the order they ended.
+   */
+  readonly spans: () => ReadonlyArray<Tracer.Span>;
+  /**
+   * Forgets the spans that have ended so far.
+   */
+  readonly clear: () => void;
+};
+
+/**
+ * Creates a tracer that keeps the spans in memory, to check the spans of the procedures in tests.
+ *
+ * The spans of the client are named after the tag of the group in the registry (if any) and the name
+ * of the procedure, e.g. `users.GetUserReq`, and the spans of the server continue the trace
+ * of the client through the `traceparent` header. Both record the attributes `rpc.method`,
+ * `rpc.service`, `rpc.payload.size`, `rpc.outcome` and `rpc.error.tag`.
+ *
+ * @example
+ * ```typescript
+ * const { tracer, spans } = createInMemoryTracer();
+ * const runtime = createRuntime({ url: 'http://localhost:3000/api/users', tracer });
+ *
+ * await runtime.runPromise(registry.get('users').getRequest('GetUserReq', { id: '1' }));
+ * const span = spans().find((span) => span.name === 'users.GetUserReq');
+ * expect(span?.attributes.get('rpc.outcome')).toBe('success');
+ * ```
+ *
+ * @since 0.9.0
+ */
+export const createInMemoryTracer = (): InMemoryTracer => {
+  let ended: Array<Tracer.Span> = [];
+  const tracer = Tracer.make({
+    span: (name, parent, context, links, startTime, kind) =>
+      new InMemorySpan(name, parent, context, links, startTime, kind, (span) => ended.push(span)),
+    context: (f) => f(),
+  });
+  return {
+    tracer,
+    spans: () => ended.slice(),
+    clear: () => {
+      ended = [];
+    },
+  };
+};
+
+/**
+ * @internal
+ */
+class InMemorySpan implements Tracer.Span {
+  readonly _tag = 'Span';
+  readonly spanId = randomHex(8);
+  readonly traceId: string;
+  readonly sampled: boolean;
+  readonly attributes = new Map<string, unknown>();
+  readonly links: Array<Tracer.SpanLink>;
+  readonly events: Array<{
+    readonly name: string;
+    readonly time: bigint;
+    readonly attributes?: Record<string, unknown> | undefined;
+  }> = [];
+  status: Tracer.SpanStatus;
+
+  constructor(
+    readonly name: string,
+    readonly parent: Option.Option<Tracer.AnySpan>,
+    readonly context: Context.Context<never>,
+    links: ReadonlyArray<Tracer.SpanLink>,
+    startTime: bigint,
+    readonly kind: Tracer.SpanKind,
+    private readonly onEnd: (span: InMemorySpan) => void,
+  ) {
+    this.traceId = Option.isSome(parent) ? parent.value.traceId : randomHex(16);
+    this.sampled = Option.isSome(parent) ? parent.value.sampled : true;
+    this.links = Array.from(links);
+    this.status = { _tag: 'Started', startTime };
+  }
+
+  end(endTime: bigint, exit: Exit.Exit<unknown, unknown>): void {
+    this.status = { _tag: 'Ended', startTime: this.status.startTime, endTime, exit };
+    this.onEnd(this);
+  }
+
+  attribute(key: string, value: unknown): void {
+    this.attributes.set(key, value);
+  }
+
+  event(name: string, time: bigint, attributes?: Record<string, unknown>): void {
+    this.events.push({ name, time, attributes });
+  }
+
+  addLinks(links: ReadonlyArray<Tracer.SpanLink>): void {
+    this.links.push(...links);
+  }
+}
+
+/**
+ * @internal
+ */
+const randomHex = (bytes: number): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (byte) =>
+    byte.toString(16).padStart(2, '0'),
+  ).join('');
@@ -0,0 +1,125 @@
+import { Rpc, RpcGroup } from '@effect/rpc';
+import { Chunk, Effect, Layer, Option, Schedule, Schema, Stream } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { useRPCRequest } from './client';
+import { RequestContext } from './context';
+import { createEffectRPC } from './runtime';
+import { createWebSocketHandler, type WebSocketHandler } from './server';
+import type { EventTargetWebSocket, UpgradeRequest, WebSocketOptions } from './websocket';
+
+const router = RpcGroup.make(
+  Rpc.make('Count', { payload: { n: Schema.Number }, success: Schema.Number, stream: true }),
+  Rpc.make('Caller', { success: Schema.Array(Schema.String) }),
+);
+
+const makeHandler = () =>
+  createWebSocketHandler(
+    router,
+    {
+      Count: ({ n }) => Stream.range(1, n).pipe(Stream.rechunk(1)),
+      Caller: () =>
+        Effect.map(RequestContext, ({ transport, url, remoteAddress, headers }) => [
+          transport,
+          Option.match(url, { onNone: () => '', onSome: String }),
+          Option.getOrElse(remoteAddress, () => ''),
+          headers['user-agent'] ?? '',
+        ]),
+    },
+    { serviceLayers: Layer.empty },
+  );
+
+const dispatch = (target: EventTarget, type: string, properties: object = {}) =>
+  setTimeout(() => target.dispatchEvent(Object.assign(new Event(type), properties)));
+
+/**
+ * A WebSocket connected in memory to a handler, or closed right after it opens without a handler.
+ */
+const connect = (
+  handler: WebSocketHandler | undefined,
+  connections: Array<() => void>,
+  upgrade?: { readonly headers: Record<string, string> } & UpgradeRequest,
+) => {
+  let closed = false;
+  const client = Object.assign(new EventTarget(), {
+    readyState: 0,
+    send: (data: string | Uint8Array) => dispatch(server, 'message', { data }),
+    close: () => drop(),
+  });
+  const server = Object.assign(new EventTarget(), {
+    send: (data: string | Uint8Array) => dispatch(client, 'message', { data }),
+    close: () => drop(),
+  });
+  const drop = () => {
+    if (closed) return;
+    closed = true;
+    client.readyState = 3;
+    dispatch(client, 'close', { code: 1006, reason: '' });
+    dispatch(server, 'close');
+  };
+  connections.push(drop);
+  setTimeout(() => {
+    client.readyState = 1;
+    handler?.accept(server as unknown as EventTargetWebSocket, upgrade?.headers, upgrade);
+    client.dispatchEvent(new Event('open'));
+    if (handler === undefined) drop();
+  });
+  return client as unknown as globalThis.WebSocket;
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const runClient = <A, E>(effect: Effect.Effect<A, E, any>, options: WebSocketOptions) =>
+  Effect.runPromise(
+    effect.pipe(
+      Effect.provide(
+        createEffectRPC({ url: 'http://localhost/rpc', protocol: 'websocket', websocket: options }),
+      ),
+    ) as Effect.Effect<A, E>,
+  );
+
+describe('websocket protocol', () => {
+  it('resubscribes a stream after a reconnection without repeating its elements', async () => {
+    const handler = makeHandler();
+    const connections: Array<() => void> = [];
+    const count = useRPCRequest(router, 'Count');
+    const elements = await runClient(
+      count({ n: 5 }).pipe(
+        // The connection is lost once the client received the second element
+        Stream.tap((n) =>
+          Effect.sync(() => (n === 2 && connections.length === 1 ? connections[0]!() : undefined)),
+        ),
+        Stream.runCollect,
+      ),
+      {
+        makeWebSocket: () => connect(handler, connections),
+        reconnectSchedule: Schedule.spaced('10 millis'),
+      },
+    );
+    expect(Chunk.toArray(elements)).toEqual([1, 2, 3, 4, 5]);
+    expect(connections.length).toBe(2);
+    await handler.dispose();
+  });
+
+  it('waits for the schedule before reopening a connection that was open', async () => {
+    const connections: Array<() => void> = [];
+    await runClient(Effect.sleep('300 millis'), {
+      makeWebSocket: () => connect(undefined, connections),
+      reconnectSchedule: Schedule.spaced('100 millis'),
+    });
+    expect(connections.length).toBeGreaterThanOrEqual(2);
+    expect(connections.length).toBeLessThanOrEqual(4);
+  });
+
+  it('provides the upgrade request in the request context', async () => {
+    const handler = makeHandler();
+    const caller = await runClient(useRPCRequest(router, 'Caller')(), {
+      makeWebSocket: () =>
+        connect(handler, [], {
+          headers: { host: 'example.com', 'user-agent': 'test' },
+          url: '/rpc?v=1',
+          remoteAddress: '10.0.0.1',
+        }),
+    });
+    expect(caller).toEqual(['websocket', 'http://example.com/rpc?v=1', '10.0.0.1', 'test']);
+    await handler.dispose();
+  });
+});
@@ -0,0 +1,596 @@
+import { Socket, type Headers } from '@effect/platform';
+import { RpcClient, RpcClientError, type RpcGroup, RpcSerialization, RpcServer } from '@effect/rpc';
+import {
+  constPing,
+  ResponseDefectEncoded,
+  type FromClientEncoded,
+  type FromServerEncoded,
+  type RequestEncoded,
+} from '@effect/rpc/RpcMessage';
+import {
+  Duration,
+  Effect,
+  Either,
+  FiberRef,
+  Layer,
+  Mailbox,
+  Option,
+  Schedule,
+  Stream,
+} from 'effect';
+import { makePayloadValidator, type HandlerMode } from './errors';
+import { ConnectionRequest } from './context';
+import {
+  currentClientId,
+  forwardedAddress,
+  QUERY_HEADER,
+  STREAM_HEADER,
+  withoutInternalHeaders,
+} from './helpers';
+import { sanitizeResponse } from './http';
+import type { RpcProtocol } from './jsonrpc';
+
+/**
+ * The protocol a client created with {@link createEffectRPC} speaks with the server:
+ * - one of the {@link RpcProtocol}s of {@link createRPCHandler},
+ * - `sse`: the `http` protocol, except that streaming procedures are read from an event stream (`text/event-stream`),
+ *   which works through proxies that block WebSockets and is resumed with `Last-Event-ID` if the connection is cut,
+ * - `websocket`: all requests are sent over a single WebSocket connection, served by {@link createWebSocketHandler}.
+ *
+ * @since 0.9.0
+ */
+export type ClientProtocol = RpcProtocol | 'sse' | 'websocket';
+
+/**
+ * Options of the `websocket` protocol of {@link createEffectRPC}.
+ *
+ * @since 0.9.0
+ */
+export type WebSocketOptions = {
+  /**
+   * How often a heartbeat is sent to the server. If the server doesn't answer a heartbeat before the next one
+   * is due, the connection is considered lost and is reopened. Defaults to 10 seconds.
+   */
+  readonly heartbeatInterval?: Duration.DurationInput;
+  /**
+   * The delays between the attempts to open the connection, whenever it is lost or fails to open.
+   * Defaults to an exponential backoff starting at 500 milliseconds, with jitter, up to 30 seconds between attempts.
+   * If the schedule ends, the requests waiting for the connection fail with an `RpcClientError`,
+   * and the schedule starts over.
+   */
+  readonly reconnectSchedule?: Schedule.Schedule<unknown, unknown>;
+  /**
+   * How long a connection must stay open before the `reconnectSchedule` starts over, so a server that accepts
+   * connections and closes them right away isn't reconnected to in a loop. Defaults to 30 seconds.
+   */
+  readonly healthyAfter?: Duration.DurationInput;
+  /**
+   * Creates the WebSocket, e.g. with the `ws` package on Node.js versions without a global `WebSocket`.
+   * Defaults to the global `WebSocket`.
+   */
+  readonly makeWebSocket?: (url: string) => globalThis.WebSocket;
+};
+
+/**
+ * A WebSocket connection accepted by the server, such as a `WebSocket` of the `ws` package
+ * or a `ServerWebSocket` of Bun.
+ *
+ * @since 0.9.0
+ */
+export interface WebSocketConnection {
+  send(data: string | Uint8Array): unknown;
+  close(code?: number, reason?: string): unknown;
+}
+
+/**
+ * A {@link WebSocketConnection} emitting its messages as events, such as a `WebSocket` of the `ws` package.
+ *
+ * @since 0.9.0
+ */
+export interface EventTargetWebSocket extends WebSocketConnection {
+  addEventListener(
+    type: 'message' | 'close',
+    listener: (event: { readonly data?: unknown }) => void,
+  ): unknown;
+}
+
+/**
+ * A `ServerWebSocket` of Bun. The headers of the upgrade request are read from the `headers` of its `data`.
+ *
+ * @since 0.9.0
+ */
+export interface BunServerWebSocket extends WebSocketConnection {
+  readonly data?: unknown;
+}
+
+/**
+ * The upgrade request of a WebSocket connection, whose URL and caller address are available
+ * in the {@link RequestContext} of the requests sent on the connection.
+ *
+ * @since 0.9.0
+ */
+export type UpgradeRequest = {
+  /**
+   * The URL of the upgrade request. A path, like the `url` of a request of `node:http`, is resolved
+   * against the `host` header of the request.
+   */
+  readonly url?: string | URL | undefined;
+  /** The address of the caller, e.g. the `remoteAddress` of the socket of a request of `node:http`. */
+  readonly remoteAddress?: string | undefined;
+};
+
+/**
+ * Builds the {@link ConnectionRequest} of a connection from its upgrade request.
+ * Behind trusted proxies, the address of the caller is read from the headers of the upgrade request.
+ *
+ * @internal
+ */
+const toConnectionRequest = (
+  headers: Headers.Headers,
+  upgrade: UpgradeRequest | undefined,
+  trustProxy: number,
+): ConnectionRequest['Type'] => {
+  let url: URL | undefined;
+  try {
+    url =
+      upgrade?.url !== undefined
+        ? new URL(upgrade.url, `http://${headers['host'] ?? 'localhost'}`)
+        : undefined;
+  } catch {
+    url = undefined;
+  }
+  return {
+    url: Option.fromNullable(url),
+    remoteAddress: Option.orElse(forwardedAddress(headers, trustProxy), () =>
+      Option.fromNullable(upgrade?.remoteAddress),
+    ),
+  };
+};
+
+/**
+ * The default delays between the attempts to open a WebSocket connection.
+ *
+ * @internal
+ */
+const DEFAULT_RECONNECT_SCHEDULE: Schedule.Schedule<unknown, unknown> = Schedule.exponential(
+  '500 millis',
+).pipe(Schedule.union(Schedule.spaced('30 seconds')), Schedule.jittered);
+
+/**
+ * The default duration after which an open connection is considered healthy.
+ *
+ * @internal
+ */
+const DEFAULT_HEALTHY_AFTER: Duration.DurationInput = '30 seconds';
+
+/**
+ * The default interval between heartbeats.
+ *
+ * @internal
+ */
+const DEFAULT_HEARTBEAT_INTERVAL: Duration.DurationInput = '10 seconds';
+
+/**
+ * The URL of the WebSocket endpoint of an HTTP URL, e.g. `wss://example.com/rpc` for `https://example.com/rpc`.
+ *
+ * @internal
+ */
+const toWebSocketUrl = (url: string): string => url.replace(/^http(s?):/, 'ws$1:');
+
+/**
+ * A request sent through the WebSocket protocol that hasn't completed yet.
+ *
+ * @internal
+ */
+type PendingRequest = {
+  readonly request: RequestEncoded;
+  /** The client that sent the request, see {@link currentClientId}. */
+  readonly clientId: number | undefined;
+  /** Streams are resubscribed after a reconnection, and queries, which have no side effects, are sent again. */
+  readonly resumable: boolean;
+  /** Whether the request was sent on the current connection. */
+  sent: boolean;
+} & ResubscribedStream;
+
+/**
+ * The elements of a stream passed to its client, so the ones it already received are skipped
+ * once the stream is resubscribed.
+ *
+ * @internal
+ */
+export type ResubscribedStream = {
+  /** The number of elements passed to the client. */
+  delivered: number;
+  /** The number of elements to skip on the current connection. */
+  skip: number;
+};
+
+/**
+ * Passes a response to the client of a stream, without the elements it already received if the stream
+ * was resubscribed. Returns `undefined` if all elements of a chunk were skipped, in which case the chunk
+ * must be acknowledged in place of the client.
+ *
+ * @internal
+ */
+export const skipDelivered = (
+  stream: ResubscribedStream,
+  response: FromServerEncoded,
+): FromServerEncoded | undefined => {
+  if (response._tag !== 'Chunk') return response;
+  const skipped = Math.min(stream.skip, response.values.length);
+  stream.skip -= skipped;
+  stream.delivered += response.values.length - skipped;
+  if (skipped === 0) return response;
+  const [first, ...rest] = response.values.slice(skipped);
+  return first === undefined ? undefined : { ...response, values: [first, ...rest] };
+};
+
+/**
+ * Creates the client protocol for the `websocket` protocol.
+ *
+ * A single connection is opened when the layer is built and shared by all requests run with it. The protocol
+ * of `@effect/rpc` passes every response to a single client, so the responses are passed to the client that sent
+ * the request instead (see {@link currentClientId}).
+ *
+ * While the connection is lost, it is reopened according to the `reconnectSchedule`, and new requests wait for it.
+ * Once it is open again, active streams are resubscribed, skipping the elements they already received,
+ * and queries are sent again.
+ * Other requests that were running may or may not have completed on the server, so they fail with an `RpcClientError`.
+ *
+ * @internal
+ */
+export const layerWebSocketProtocol = (
+  url: string,
+  options: WebSocketOptions = {},
+): Layer.Layer<RpcClient.Protocol, never, RpcSerialization.RpcSerialization> =>
+  Layer.scoped(
+    RpcClient.Protocol,
+    Effect.gen(function* () {
+      const serialization = yield* RpcSerialization.RpcSerialization;
+      const makeWebSocket =
+        options.makeWebSocket ?? ((url: string) => new globalThis.WebSocket(url));
+      const clients = new Set<{
+        readonly id: number | undefined;
+        readonly write: (response: FromServerEncoded) => Effect.Effect<void>;
+      }>();
+      const requests = new Map<string, PendingRequest>();
+      let parser = serialization.unsafeMake();
+      const clock = yield* Effect.clock;
+      const schedule = yield* Schedule.driver(
+        options.reconnectSchedule ?? DEFAULT_RECONNECT_SCHEDULE,
+      );
+      const healthyAfter = Duration.toMillis(options.healthyAfter ?? DEFAULT_HEALTHY_AFTER);
+      let current: globalThis.WebSocket | undefined;
+      let openedAt: number | undefined;
+      let pong = true;
+
+      const writeTo = (clientId: number | undefined, response: FromServerEncoded) =>
+        Effect.forEach(
+          clients,
+          (client) => (client.id === clientId ? client.write(response) : Effect.void),
+          { discard: true },
+        );
+      const broadcast = (response: FromServerEncoded) =>
+        Effect.forEach(clients, (client) => client.write(response), { discard: true });
+      const protocolError = (message: string, cause?: unknown): FromServerEncoded => ({
+        _tag: 'ClientProtocolError',
+        error: new RpcClientError.RpcClientError({ reason: 'Protocol', message, cause }),
+      });
+
+      const transmit = (message: FromClientEncoded) => {
+        const encoded = parser.encode(message);
+        if (current?.readyState === 1 && encoded !== undefined) {
+          current.send(encoded);
+        }
+      };
+
+      const onOpen = (ws: globalThis.WebSocket) => {
+        current = ws;
+        openedAt = clock.unsafeCurrentTimeMillis();
+        for (const pending of requests.values()) {
+          pending.sent = true;
+          transmit(pending.request);
+        }
+      };
+
+      const onMessage = (data: string | Uint8Array) => {
+        let responses: ReadonlyArray<FromServerEncoded>;
+        try {
+          responses = parser.decode(data) as ReadonlyArray<FromServerEncoded>;
+        } catch (cause) {
+          return broadcast(protocolError('Error decoding message', cause));
+        }
+        return Effect.forEach(
+          responses,
+          (response) => {
+            if (response._tag === 'Pong') {
+              pong = true;
+              return Effect.void;
+            }
+            if ('requestId' in response) {
+              const pending = requests.get(response.requestId);
+              if (pending === undefined) return Effect.void;
+              if (response._tag === 'Exit') requests.delete(response.requestId);
+              const remaining = skipDelivered(pending, response);
+              if (remaining === undefined) {
+                transmit({ _tag: 'Ack', requestId: response.requestId });
+                return Effect.void;
+              }
+              return writeTo(pending.clientId, remaining);
+            }
+            if (response._tag === 'Defect') requests.clear();
+            return broadcast(response);
+          },
+          { discard: true },
+        );
+      };
+
+      const onDisconnect = Effect.suspend(() => {
+        current = undefined;
+        const lost: Array<PendingRequest> = [];
+        for (const [requestId, pending] of requests) {
+          if (pending.sent && !pending.resumable) {
+            requests.delete(requestId);
+            lost.push(pending);
+          }
+          pending.sent = false;
+          pending.skip = pending.delivered;
+        }
+        return Effect.forEach(
+          lost,
+          (pending) => writeTo(pending.clientId, protocolError('Connection lost')),
+          { discard: true },
+        );
+      });
+
+      // A connection is considered lost if the previous heartbeat wasn't answered
+      const heartbeat = Effect.suspend(() => {
+        if (current === undefined) return Effect.void;
+        if (!pong) {
+          return Effect.fail(
+            new Socket.SocketGenericError({ reason: 'Read', cause: 'Heartbeat timeout' }),
+          );
+        }
+        pong = false;
+        transmit(constPing);
+        return Effect.void;
+      }).pipe(
+        Effect.delay(options.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL),
+        Effect.forever,
+      );
+
+      const socket = yield* Socket.fromWebSocket(
+        Effect.acquireRelease(
+          Effect.try({
+            try: () => {
+              const ws = makeWebSocket(toWebSocketUrl(url));
+              ws.addEventListener('open', () => onOpen(ws), { once: true });
+              return ws;
+            },
+            catch: (cause) => new Socket.SocketGenericError({ reason: 'Open', cause }),
+          }),
+          (ws) => Effect.sync(() => ws.close(1000)),
+        ),
+      );
+
+      // Every reconnection waits for the schedule, which starts over once a connection stayed open long enough
+      const reconnect = (error: unknown) =>
+        Effect.suspend(() =>
+          openedAt !== undefined && clock.unsafeCurrentTimeMillis() - openedAt >= healthyAfter
+            ? schedule.reset
+            : Effect.void,
+        ).pipe(
+          Effect.zipRight(schedule.next(error)),
+          Effect.catchAll(() =>
+            Effect.suspend(() => {
+              requests.clear();
+              return broadcast(protocolError('Failed to open the WebSocket connection', error));
+            }).pipe(Effect.zipRight(schedule.reset)),
+          ),
+        );
+
+      yield* Effect.suspend(() => {
+        parser = serialization.unsafeMake();
+        openedAt = undefined;
+        pong = true;
+        return Effect.raceFirst(socket.runRaw(onMessage), heartbeat);
+      }).pipe(
+        Effect.ensuring(onDisconnect),
+        Effect.either,
+        Effect.flatMap((result) => reconnect(Either.isLeft(result) ? result.left : undefined)),
+        Effect.forever,
+        Effect.interruptible,
+        Effect.forkScoped,
+      );
+
+      return RpcClient.Protocol.of({
+        run: (write) =>
+          Effect.flatMap(FiberRef.get(currentClientId), (id) => {
+            const client = { id, write };
+            clients.add(client);
+            return Effect.onExit(Effect.never, () => Effect.sync(() => clients.delete(client)));
+          }),
+        send: (message) =>
+          Effect.flatMap(FiberRef.get(currentClientId), (clientId) =>
+            Effect.sync(() => {
+              switch (message._tag) {
+                case 'Request': {
+                  const pending: PendingRequest = {
+                    request: { ...message, headers: withoutInternalHeaders(message.headers) },
+                    clientId,
+                    resumable: message.headers.some(
+                      ([name]) => name === STREAM_HEADER || name === QUERY_HEADER,
+                    ),
+                    sent: current !== undefined,
+                    delivered: 0,
+                    skip: 0,
+                  };
+                  requests.set(message.id, pending);
+                  if (pending.sent) transmit(pending.request);
+                  return;
+                }
+                case 'Interrupt': {
+                  const pending = requests.get(message.requestId);
+                  requests.delete(message.requestId);
+                  if (pending?.sent) transmit(message);
+                  return;
+                }
+                case 'Ack': {
+                  if (requests.get(message.requestId)?.sent) transmit(message);
+                  return;
+                }
+              }
+            }),
+          ),
+        supportsAck: true,
+        supportsTransferables: false,
+      });
+    }),
+  );
+
+/**
+ * Creates the server protocol for WebSocket connections, together with a function serving a connection.
+ *
+ * Every connection is a client of the RPC server, and its requests run until they complete, or until the
+ * connection is closed. Like over HTTP, invalid payloads are answered with an {@link InvalidPayload} failure,
+ * the headers of the upgrade request are merged into the headers of the requests, and defects are replaced with
+ * an {@link InternalError} in `production` mode. Streams are acknowledged by the client, element by element,
+ * so a stream is paused while the client doesn't consume it.
+ *
+ * @internal
+ */
+export const makeWebSocketServer = (
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  router: RpcGroup.RpcGroup<any>,
+  options: { readonly mode: HandlerMode; readonly trustProxy?: number | undefined },
+) =>
+  Effect.gen(function* () {
+    const serialization = yield* RpcSerialization.RpcSerialization;
+    const validatePayload = makePayloadValidator(router);
+    const disconnects = yield* Mailbox.make<number>();
+    const idle = yield* Effect.makeLatch(true);
+    const connections = new Map<
+      number,
+      {
+        readonly socket: WebSocketConnection;
+        readonly parser: RpcSerialization.Parser;
+        readonly running: Set<string>;
+      }
+    >();
+    let writeRequest!: (clientId: number, data: FromClientEncoded) => Effect.Effect<void>;
+    let nextId = 0;
+    let running = 0;
+
+    // The running requests are counted, so the server can wait for them before it shuts down
+    const settle = (clientId: number, requestId: string) => {
+      if (connections.get(clientId)?.running.delete(requestId) && --running === 0) {
+        idle.unsafeOpen();
+      }
+    };
+
+    const write = (clientId: number, response: FromServerEncoded) =>
+      Effect.sync(() => {
+        const connection = connections.get(clientId);
+        if (connection === undefined) return;
+        if (response._tag === 'Exit') settle(clientId, response.requestId);
+        let encoded: string | Uint8Array | undefined;
+        try {
+          encoded = connection.parser.encode(response);
+        } catch (cause) {
+          encoded = connection.parser.encode(ResponseDefectEncoded(cause));
+        }
+        if (encoded !== undefined) connection.socket.send(encoded);
+      });
+    const send = (clientId: number, response: FromServerEncoded) =>
+      options.mode === 'production'
+        ? Effect.flatMap(sanitizeResponse(response), (response) => write(clientId, response))
+        : write(clientId, response);
+
+    const protocol = yield* RpcServer.Protocol.make((writeRequest_) => {
+      writeRequest = writeRequest_;
+      return Effect.succeed({
+        disconnects,
+        send,
+        end: () => Effect.void,
+        clientIds: Effect.sync(() => connections.keys()),
+        initialMessage: Effect.succeedNone,
+        supportsAck: true,
+        supportsTransferables: false,
+        supportsSpanPropagation: false,
+      });
+    });
+
+    /**
+     * Serves the messages of a connection until its mailbox is done, i.e. until the connection is closed.
+     */
+    const serve = (
+      socket: WebSocketConnection,
+      headers: Headers.Headers,
+      upgrade: UpgradeRequest | undefined,
+      messages: Mailbox.ReadonlyMailbox<string | Uint8Array>,
+    ): Effect.Effect<void> =>
+      Effect.suspend(() => {
+        const clientId = nextId++;
+        const parser = serialization.unsafeMake();
+        connections.set(clientId, { socket, parser, running: new Set() });
+        // Middleware only sees the headers of the RPC message, so the headers of the upgrade request
+        // (e.g. `cookie`) are merged into them, taking precedence
+        const upgradeHeaders = Object.entries(headers);
+        const connectionRequest = toConnectionRequest(headers, upgrade, options.trustProxy ?? 0);
+
+        const receive = (data: string | Uint8Array) => {
+          let decoded: ReadonlyArray<FromClientEncoded>;
+          try {
+            decoded = parser.decode(data) as ReadonlyArray<FromClientEncoded>;
+          } catch (cause) {
+            return send(clientId, ResponseDefectEncoded(cause));
+          }
+          return Effect.forEach(
+            decoded,
+            (message) => {
+              if (message._tag !== 'Request') return writeRequest(clientId, message);
+              // Answer invalid payloads right away with an `InvalidPayload` failure
+              const invalid = validatePayload(message);
+              if (Option.isSome(invalid)) return send(clientId, invalid.value);
+              const connection = connections.get(clientId);
+              if (connection !== undefined && !connection.running.has(String(message.id))) {
+                connection.running.add(String(message.id));
+                if (running++ === 0) idle.unsafeClose();
+              }
+              // The requests run with the context of the fiber writing them, which holds the upgrade request
+              return writeRequest(clientId, {
+                ...message,
+                headers: [...message.headers, ...upgradeHeaders],
+              }).pipe(Effect.provideService(ConnectionRequest, connectionRequest));
+            },
+            { discard: true },
+          );
+        };
+
+        return Stream.runForEach(Mailbox.toStream(messages), receive).pipe(
+          Effect.ensuring(
+            Effect.sync(() => {
+              for (const requestId of connections.get(clientId)?.running ?? []) {
+                settle(clientId, requestId);
+              }
+              connections.delete(clientId);
+              disconnects.unsafeOffer(clientId);
+            }),
+          ),
+        );
+      });
+
+    return {
+      protocol,
+      serve,
+      /** Waits until no request is running. */
+      drain: idle.await,
+      /** Closes all connections, e.g. with `1001` when the server shuts down. */
+      closeAll: (code: number, reason: string) =>
+        Effect.sync(() => {
+          for (const { socket } of connections.values()) {
+            socket.close(code, reason);
+          }
+        }),
+    };
+  });
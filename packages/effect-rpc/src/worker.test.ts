@@ -0,0 +1,126 @@
+import { Rpc, RpcClient, RpcClientError, RpcGroup } from '@effect/rpc';
+import { Effect, Either, Layer, Schema } from 'effect';
+import { EventEmitter } from 'node:events';
+import { MessageChannel } from 'node:worker_threads';
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  createWorkerRPC,
+  type HostWorker,
+  serveRPCWorker,
+  TransferableArrayBuffer,
+  type WorkerHandler,
+} from './worker';
+
+const router = RpcGroup.make(
+  Rpc.make('Reverse', {
+    payload: { image: TransferableArrayBuffer, width: Schema.Number },
+    success: TransferableArrayBuffer,
+  }),
+  Rpc.make('Hang', { success: Schema.String }),
+);
+
+let resized: ArrayBuffer | undefined;
+
+const implementations = {
+  Reverse: ({ image }: { image: ArrayBuffer }) =>
+    Effect.sync(() => {
+      resized = new Uint8Array(image).reverse().buffer;
+      return resized;
+    }),
+  Hang: () => Effect.never,
+};
+
+const handlers = new Set<WorkerHandler>();
+
+afterEach(async () => {
+  await Promise.all(Array.from(handlers, (handler) => handler.dispose()));
+  handlers.clear();
+});
+
+/**
+ * Serves the group on one end of a `MessageChannel`, and returns the other end as a `worker_threads` worker.
+ * `crash` emits the `exit` event of a worker that died.
+ */
+const spawnWorker = () => {
+  const { port1, port2 } = new MessageChannel();
+  const handler = serveRPCWorker(router, implementations, {
+    serviceLayers: Layer.empty,
+    port: port2,
+  });
+  handlers.add(handler);
+  const events = new EventEmitter();
+  const worker = {
+    postMessage: (message: unknown, transfer: ReadonlyArray<ArrayBuffer>) =>
+      port1.postMessage(message, [...transfer]),
+    terminate: () => {
+      port1.close();
+      return handler.dispose();
+    },
+    on: (event: 'message' | 'error' | 'exit', listener: (value: unknown) => void) =>
+      event === 'message' ? port1.on('message', listener) : events.on(event, listener),
+  } satisfies HostWorker;
+  return { worker, port1, crash: () => events.emit('exit', 1) };
+};
+
+describe('worker transport', () => {
+  it('transfers the buffers of the payload and of the success', async () => {
+    const image = new Uint8Array([1, 2, 3]).buffer;
+    const result = await Effect.runPromise(
+      Effect.flatMap(RpcClient.make(router), (client) =>
+        client.Reverse({ image, width: 320 }),
+      ).pipe(
+        Effect.scoped,
+        Effect.provide(createWorkerRPC({ worker: () => spawnWorker().worker })),
+      ),
+    );
+    expect(Array.from(new Uint8Array(result))).toEqual([3, 2, 1]);
+    expect(image.byteLength).toBe(0);
+    expect(resized?.byteLength).toBe(0);
+  });
+
+  it('fails the running requests when the worker crashes, and spawns a new one', async () => {
+    const crashes: Array<() => void> = [];
+    const layer = createWorkerRPC({
+      worker: () => {
+        const { worker, crash } = spawnWorker();
+        crashes.push(crash);
+        return worker;
+      },
+    });
+    const [hang, reverse] = await Effect.runPromise(
+      Effect.gen(function* () {
+        const client = yield* RpcClient.make(router);
+        const hang = yield* Effect.fork(Effect.either(client.Hang()));
+        yield* Effect.sleep('50 millis');
+        crashes[0]?.();
+        return [
+          yield* hang.await,
+          yield* client.Reverse({ image: new ArrayBuffer(1), width: 1 }),
+        ] as const;
+      }).pipe(Effect.scoped, Effect.provide(layer)),
+    );
+    expect(hang._tag === 'Success' && Either.isLeft(hang.value) && hang.value.left).toBeInstanceOf(
+      RpcClientError.RpcClientError,
+    );
+    expect(reverse.byteLength).toBe(1);
+    expect(crashes).toHaveLength(2);
+  });
+
+  it('answers a request with an invalid payload with an InvalidPayload', async () => {
+    const { port1 } = spawnWorker();
+    const response = new Promise((resolve) => port1.once('message', resolve));
+    port1.postMessage({
+      _tag: 'Request',
+      id: '1',
+      tag: 'Reverse',
+      payload: { image: 'not a buffer', width: 320 },
+      headers: [],
+    });
+    expect(await response).toMatchObject({
+      _tag: 'Exit',
+      requestId: '1',
+      exit: { _tag: 'Failure', cause: { _tag: 'Fail', error: { _tag: 'InvalidPayload' } } },
+    });
+    port1.close();
+  });
+});
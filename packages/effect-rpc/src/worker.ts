@@ -0,0 +1,498 @@
+import { Transferable } from '@effect/platform';
+import {
+  type Rpc,
+  RpcClient,
+  RpcClientError,
+  type RpcGroup,
+  type RpcMiddleware,
+  RpcServer,
+} from '@effect/rpc';
+import {
+  ResponseDefectEncoded,
+  type FromClientEncoded,
+  type FromServerEncoded,
+} from '@effect/rpc/RpcMessage';
+import { Effect, Fiber, FiberRef, Layer, Mailbox, Option, Schema, type Tracer } from 'effect';
+import { makePayloadValidator } from './errors';
+import { currentClientId, type InferClient, withoutInternalHeaders } from './helpers';
+import type { LocalRPCConfig } from './local';
+import { RequestLogging, type LoggingPolicy } from './logging';
+import { measureMiddleware } from './metrics';
+import { createRouteHandler, type HandlerContext, type RequestImplementations } from './server';
+import { currentTraceparent } from './tracing';
+
+/**
+ * The port a worker receives the requests of the host from, and sends the responses to:
+ * `self` in a Web Worker, or `parentPort` of `node:worker_threads`.
+ *
+ * @since 0.9.0
+ */
+export type WorkerPort = {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  postMessage(message: unknown, transfer: ReadonlyArray<any>): unknown;
+} & (
+  | { addEventListener(type: 'message', listener: (event: MessageEvent) => void): unknown }
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  | { on(event: 'message', listener: (value: any) => void): unknown }
+);
+
+/**
+ * A worker serving a group with {@link serveRPCWorker}, as seen from the host:
+ * a `Worker` of the browser, or a `Worker` of `node:worker_threads`.
+ *
+ * @since 0.9.0
+ */
+export type HostWorker = {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  postMessage(message: unknown, transfer: ReadonlyArray<any>): unknown;
+  terminate(): unknown;
+} & (
+  | {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      addEventListener(type: 'message' | 'error', listener: (event: any) => void): unknown;
+    }
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  | { on(event: 'message' | 'error' | 'exit', listener: (value: any) => void): unknown }
+);
+
+/**
+ * Configuration of a group served in a worker with {@link serveRPCWorker}. It takes the same service,
+ * middleware and additional layers as the {@link LocalRPCConfig}.
+ *
+ * @template R - The type of the environment required by the handlers.
+ * @template Rpcs - The procedures of the group, used to require the middleware of the group.
+ *
+ * @since 0.9.0
+ */
+export type WorkerHandlerConfig<R, Rpcs extends Rpc.Any = never> = LocalRPCConfig<R, Rpcs> & {
+  /**
+   * The port the requests are received from. Defaults to the global scope of a Web Worker (`self`).
+   * On Node.js, pass the `parentPort` of `node:worker_threads`.
+   */
+  readonly port?: WorkerPort;
+};
+
+/**
+ * A group served in a worker, see {@link serveRPCWorker}.
+ *
+ * @since 0.9.0
+ */
+export type WorkerHandler = {
+  /**
+   * Stops serving requests, interrupts the running ones and releases all resources held by the handler.
+   * Calling it more than once returns the same `Promise`.
+   */
+  readonly dispose: () => Promise<void>;
+  /**
+   * Same as {@link WorkerHandler.dispose}, but as an `Effect`.
+   */
+  readonly disposeEffect: Effect.Effect<void>;
+};
+
+/**
+ * A schema for `ArrayBuffer`s that are transferred to or from a worker instead of being copied.
+ * Use it in the payload or success schema of a procedure served with {@link serveRPCWorker}, e.g. for the bytes
+ * of an image. A transferred buffer can no longer be used by the sender (its `byteLength` becomes `0`).
+ *
+ * The buffers are only transferred by the worker protocol: other protocols can't serialize an `ArrayBuffer`.
+ * For `Uint8Array`s, use `Transferable.Uint8Array` of `@effect/platform`, which transfers their buffer.
+ *
+ * @example
+ * ```typescript
+ * export const imageRouter = RpcGroup.make(
+ *   Rpc.make('Resize', {
+ *     payload: { image: TransferableArrayBuffer, width: S.Number },
+ *     success: TransferableArrayBuffer,
+ *   }),
+ * );
+ * ```
+ *
+ * @since 0.9.0
+ */
+export const TransferableArrayBuffer: Schema.Schema<ArrayBuffer> = Transferable.schema(
+  Schema.instanceOf(ArrayBuffer),
+  (buffer) => [buffer],
+);
+
+/**
+ * Creates an RPC client protocol layer that sends the requests to a worker serving the group
+ * with {@link serveRPCWorker}, to run CPU-heavy procedures off the main thread.
+ *
+ * The worker is spawned when the first request is sent, and terminated when the layer is released.
+ * Requests run concurrently in the worker, streams are acknowledged element by element, and payloads and
+ * successes are passed with `postMessage`, so they are copied with the structured clone algorithm, except for
+ * the buffers of {@link TransferableArrayBuffer} (or `Transferable`) schemas, which are transferred.
+ *
+ * If the worker crashes (an uncaught error, or the exit of a `worker_threads` worker), the requests running in it
+ * fail with an `RpcClientError`, and a new worker is spawned for the next request.
+ *
+ * @param config - Configuration object for the worker client.
+ * @param config.worker - Spawns the worker, e.g. `() => new Worker(new URL('./rpc.worker.ts', import.meta.url), { type: 'module' })`.
+ * @param config.middleware - (Optional) A Layer providing the client implementations of `RpcMiddleware`.
+ * @param config.logging - (Optional) What is logged about the requests run with the layer, see {@link LoggingPolicy}.
+ * @param config.tracer - (Optional) The tracer the spans of the requests are sent to. The trace is continued in the
+ * worker through the `traceparent` header.
+ * @returns A Layer that provides the `RpcClient.Protocol`, to be used in place of {@link createEffectRPC}.
+ *
+ * @example
+ * ```typescript
+ * // src/lib/rpc.worker.ts
+ * serveRPCWorker(imageRouter, { Resize: ({ image, width }) => ImageService.resize(image, width) }, {
+ *   serviceLayers: ImageService.Default,
+ * });
+ *
+ * // src/lib/runtime.ts
+ * export const WorkerRuntime = ManagedRuntime.make(
+ *   createWorkerRPC({
+ *     worker: () => new Worker(new URL('./rpc.worker.ts', import.meta.url), { type: 'module' }),
+ *   }),
+ * );
+ *
+ * const resized = await WorkerRuntime.runPromise(
+ *   useRPCRequest(imageRouter, 'Resize')({ image: await file.arrayBuffer(), width: 320 }),
+ * );
+ * ```
+ *
+ * @since 0.9.0
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function createWorkerRPC<M extends RpcMiddleware.ForClient<any> = never>(config: {
+  worker: () => HostWorker;
+  middleware?: Layer.Layer<M>;
+  logging?: LoggingPolicy;
+  tracer?: Tracer.Tracer;
+}): Layer.Layer<RpcClient.Protocol | M, never, never> {
+  return layerWorkerProtocol(config.worker).pipe(
+    // without middleware, `M` is inferred as `never`
+    Layer.merge(config.middleware ?? (Layer.empty as Layer.Layer<M>)),
+    Layer.merge(
+      config.logging !== undefined ? Layer.succeed(RequestLogging, config.logging) : Layer.empty,
+    ),
+    Layer.merge(config.tracer ? Layer.setTracer(config.tracer) : Layer.empty),
+  );
+}
+
+/**
+ * Serves the procedures of a group in a worker, for the host created with {@link createWorkerRPC}.
+ * Call it in the entry point of the worker.
+ *
+ * The procedures run through the same pipeline as {@link createLocalRPC}: payloads are validated, and the middleware,
+ * authorization policies, logging and tracing apply to them. The service layers are built once, when the worker starts,
+ * and the requests received until then are served once they are built.
+ *
+ * @param router - The RPC router group defining all available endpoints.
+ * @param reqImplementations - An object mapping every endpoint name to its implementation. All endpoints are required.
+ * @param config - Configuration object, see {@link WorkerHandlerConfig}.
+ * @returns A {@link WorkerHandler}, to stop serving the group.
+ *
+ * @example
+ * ```typescript
+ * // Web Worker
+ * serveRPCWorker(imageRouter, implementations, { serviceLayers: ImageService.Default });
+ *
+ * // worker_threads
+ * import { parentPort } from 'node:worker_threads';
+ * serveRPCWorker(imageRouter, implementations, { serviceLayers: ImageService.Default, port: parentPort! });
+ * ```
+ *
+ * @since 0.9.0
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function serveRPCWorker<T extends RpcGroup.RpcGroup<any>, V extends InferClient<T>, R>(
+  router: T,
+  reqImplementations: RequestImplementations<T, V, HandlerContext<R, RpcGroup.Rpcs<T>>>,
+  config: WorkerHandlerConfig<R, RpcGroup.Rpcs<T>>,
+): WorkerHandler {
+  const port = config.port ?? (globalThis as unknown as WorkerPort);
+  const middleware: Layer.Layer<never, unknown> = config.middleware ?? Layer.empty;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const additionalLayers: Layer.Layer<any, any, never>[] = config.additionalLayers ?? [];
+  const handlers = Layer.mergeAll(
+    createRouteHandler(router, reqImplementations, config.serviceLayers, {
+      authorization: config.authorization,
+      transport: 'worker',
+    }),
+    middleware,
+    ...additionalLayers,
+  ).pipe(measureMiddleware(router));
+
+  // Requests are received right away, and passed to the server once it is started
+  const requests = Effect.runSync(Mailbox.make<FromClientEncoded>());
+  onMessage(port, (message) => requests.unsafeOffer(message as FromClientEncoded));
+
+  const fiber = Effect.runFork(
+    Effect.gen(function* () {
+      const context = yield* Effect.orDie(Layer.build(handlers));
+      const protocol = yield* makeWorkerServerProtocol(router, port, requests);
+      // The implementations are traced by `createRouteHandler`
+      return yield* RpcServer.make(router, { disableTracing: true }).pipe(
+        Effect.provideService(RpcServer.Protocol, protocol),
+        Effect.provide(context),
+      );
+    }).pipe(
+      Effect.scoped,
+      Effect.catchAllCause((cause) => Effect.logError('Failed to serve the RPC worker', cause)),
+    ),
+  );
+
+  let disposed: Promise<void> | undefined;
+  const dispose = () => {
+    disposed ??= Effect.runPromise(
+      Effect.zipRight(requests.shutdown, Effect.asVoid(Fiber.interrupt(fiber))),
+    );
+    return disposed;
+  };
+
+  return { dispose, disposeEffect: Effect.promise(dispose) };
+}
+
+/**
+ * The id of the single client of the server in a worker: its host.
+ *
+ * @internal
+ */
+const HOST_CLIENT_ID = 0;
+
+/**
+ * Listens to the messages of a worker or of the port of a worker.
+ *
+ * @internal
+ */
+const onMessage = (target: WorkerPort | HostWorker, listener: (data: unknown) => void) =>
+  'on' in target
+    ? target.on('message', listener)
+    : target.addEventListener('message', (event: MessageEvent) => listener(event.data));
+
+/**
+ * Creates the server protocol serving the requests received from the host of a worker.
+ * Like over HTTP, requests with an invalid payload fail with an {@link InvalidPayload}.
+ *
+ * @internal
+ */
+const makeWorkerServerProtocol = (
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  router: RpcGroup.RpcGroup<any>,
+  port: WorkerPort,
+  requests: Mailbox.ReadonlyMailbox<FromClientEncoded>,
+) =>
+  Effect.gen(function* () {
+    const validatePayload = makePayloadValidator(router);
+    const disconnects = yield* Mailbox.make<number>();
+    yield* Effect.addFinalizer(() => disconnects.offer(HOST_CLIENT_ID));
+
+    // A response that can't be cloned fails its request, instead of the worker
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const post = (response: FromServerEncoded, transferables?: ReadonlyArray<any>) =>
+      Effect.sync(() => {
+        try {
+          port.postMessage(response, transferables ?? []);
+        } catch (cause) {
+          port.postMessage(
+            'requestId' in response
+              ? {
+                  _tag: 'Exit',
+                  requestId: response.requestId,
+                  exit: { _tag: 'Failure', cause: { _tag: 'Die', defect: String(cause) } },
+                }
+              : ResponseDefectEncoded(String(cause)),
+            [],
+          );
+        }
+      });
+
+    let writeRequest!: (clientId: number, data: FromClientEncoded) => Effect.Effect<void>;
+    const protocol = yield* RpcServer.Protocol.make((write) => {
+      writeRequest = write;
+      return Effect.succeed({
+        disconnects,
+        send: (_clientId, response, transferables) => post(response, transferables),
+        end: () => Effect.void,
+        clientIds: Effect.succeed([HOST_CLIENT_ID]),
+        initialMessage: Effect.succeedNone,
+        supportsAck: true,
+        supportsTransferables: true,
+        supportsSpanPropagation: true,
+      });
+    });
+
+    // Requests are written until the server runs, so they are passed in the order they are received
+    yield* requests.take.pipe(
+      Effect.flatMap((message) => {
+        if (message._tag === 'Request') {
+          const invalid = validatePayload(message);
+          if (Option.isSome(invalid)) return post(invalid.value);
+        }
+        return writeRequest(HOST_CLIENT_ID, message);
+      }),
+      Effect.forever,
+      Effect.catchAll(() => Effect.void),
+      Effect.interruptible,
+      Effect.forkScoped,
+    );
+
+    return protocol;
+  });
+
+/**
+ * A message received from a worker, or its crash.
+ *
+ * @internal
+ */
+type WorkerEvent =
+  | { readonly _tag: 'Message'; readonly response: FromServerEncoded }
+  | { readonly _tag: 'Crash'; readonly worker: HostWorker; readonly cause: unknown };
+
+/**
+ * Creates the client protocol sending the requests to a worker.
+ *
+ * Like the WebSocket protocol, it is shared by all requests run with the layer, and passes the responses of a request
+ * to the client that sent it (see {@link currentClientId}). The messages of the worker are handled one at a time,
+ * in the order they are received.
+ *
+ * @internal
+ */
+const layerWorkerProtocol = (
+  spawn: () => HostWorker,
+): Layer.Layer<RpcClient.Protocol, never, never> =>
+  Layer.scoped(
+    RpcClient.Protocol,
+    Effect.gen(function* () {
+      const clients = new Set<{
+        readonly id: number | undefined;
+        readonly write: (response: FromServerEncoded) => Effect.Effect<void>;
+      }>();
+      // The client of every running request
+      const requests = new Map<string, number | undefined>();
+      const events = yield* Mailbox.make<WorkerEvent>();
+      let current: HostWorker | undefined;
+
+      const writeTo = (clientId: number | undefined, response: FromServerEncoded) =>
+        Effect.forEach(
+          clients,
+          (client) => (client.id === clientId ? client.write(response) : Effect.void),
+          { discard: true },
+        );
+      const protocolError = (message: string, cause?: unknown): FromServerEncoded => ({
+        _tag: 'ClientProtocolError',
+        error: new RpcClientError.RpcClientError({ reason: 'Protocol', message, cause }),
+      });
+
+      const start = () => {
+        const worker = spawn();
+        const crash = (cause: unknown) => events.unsafeOffer({ _tag: 'Crash', worker, cause });
+        onMessage(worker, (response) =>
+          events.unsafeOffer({ _tag: 'Message', response: response as FromServerEncoded }),
+        );
+        if ('on' in worker) {
+          worker.on('error', crash);
+          worker.on('exit', (code: number) => crash(`The worker exited with code ${code}`));
+        } else {
+          worker.addEventListener('error', crash);
+        }
+        current = worker;
+        return worker;
+      };
+      yield* Effect.addFinalizer(() =>
+        Effect.sync(() => {
+          const worker = current;
+          current = undefined;
+          worker?.terminate();
+        }),
+      );
+
+      const handle = (event: WorkerEvent) => {
+        if (event._tag === 'Crash') {
+          // Events of a worker that was already replaced are ignored
+          if (event.worker !== current) return Effect.void;
+          current = undefined;
+          event.worker.terminate();
+          const lost = new Set(requests.values());
+          requests.clear();
+          return Effect.forEach(
+            lost,
+            (clientId) => writeTo(clientId, protocolError('The worker crashed', event.cause)),
+            { discard: true },
+          );
+        }
+        const response = event.response;
+        if ('requestId' in response) {
+          if (!requests.has(response.requestId)) return Effect.void;
+          const clientId = requests.get(response.requestId);
+          if (response._tag === 'Exit') requests.delete(response.requestId);
+          return writeTo(clientId, response);
+        }
+        if (response._tag === 'Defect') requests.clear();
+        return Effect.forEach(clients, (client) => client.write(response), { discard: true });
+      };
+      yield* events.take.pipe(
+        Effect.flatMap(handle),
+        Effect.forever,
+        Effect.interruptible,
+        Effect.forkScoped,
+      );
+
+      const post = (
+        worker: HostWorker,
+        message: FromClientEncoded,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        transferables?: ReadonlyArray<any>,
+      ) =>
+        Effect.try({
+          try: () => worker.postMessage(message, transferables ?? []),
+          catch: (cause) =>
+            new RpcClientError.RpcClientError({
+              reason: 'Protocol',
+              message: 'Failed to send the request to the worker',
+              cause,
+            }),
+        });
+
+      return RpcClient.Protocol.of({
+        run: (write) =>
+          Effect.flatMap(FiberRef.get(currentClientId), (id) => {
+            const client = { id, write };
+            clients.add(client);
+            return Effect.onExit(Effect.never, () => Effect.sync(() => clients.delete(client)));
+          }),
+        send: (message, transferables) =>
+          Effect.flatMap(FiberRef.get(currentClientId), (clientId) => {
+            switch (message._tag) {
+              case 'Request': {
+                const headers = withoutInternalHeaders(message.headers);
+                // Like the local protocol, the worker continues the trace from the `traceparent` header
+                return Effect.flatMap(currentTraceparent, (traceparent) =>
+                  Effect.suspend(() => {
+                    const worker = current ?? start();
+                    requests.set(message.id, clientId);
+                    return post(
+                      worker,
+                      {
+                        ...message,
+                        headers:
+                          Option.isSome(traceparent) &&
+                          !headers.some(([name]) => name === 'traceparent')
+                            ? [...headers, ['traceparent', traceparent.value]]
+                            : headers,
+                      },
+                      transferables,
+                    ).pipe(Effect.tapError(() => Effect.sync(() => requests.delete(message.id))));
+                  }),
+                );
+              }
+              case 'Interrupt':
+              case 'Ack': {
+                const running =
+                  message._tag === 'Interrupt'
+                    ? requests.delete(message.requestId)
+                    : requests.has(message.requestId);
+                return running && current !== undefined ? post(current, message) : Effect.void;
+              }
+              default:
+                return Effect.void;
+            }
+          }),
+        supportsAck: true,
+        supportsTransferables: true,
+      });
+    }),
+  );